@@ -0,0 +1,79 @@
+// Access-control check: runs requests through the access checks in-process, with in-memory counters and
+// small limits, and exits with code 1 when a client gets past a limit it should have hit - for example by
+// sending a forged x-forwarded-for header.
+//
+// Usage:
+//   npm run test:access
+import nextEnv from '@next/env';
+
+nextEnv.loadEnvConfig(process.cwd());
+process.env.RATE_LIMIT_BACKEND = 'memory';
+process.env.API_KEYS_REQUIRED = 'false';
+// The daily quota is the limit under test: a per-minute window could roll over halfway through a check
+process.env.IP_RATE_PER_MINUTE = '1000';
+process.env.IP_DAILY_QUOTA = '3';
+const { NextRequest } = await import('next/server');
+const { checkAccess } = await import('./app/lib/access/control.ts');
+const { clientIp } = await import('./app/lib/admin/auth.ts');
+
+const request = (forwardedFor) =>
+  new NextRequest('http://localhost/api/detect-scam', { method: 'POST', headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} });
+
+// Status of each of the requests in order: 200 when allowed, else the denial's status
+const statuses = async (forwardedFor) => {
+  const results = [];
+  for (const value of forwardedFor) {
+    const access = await checkAccess(request(value));
+    results.push('denial' in access ? access.denial.status : 200);
+  }
+  return results;
+};
+
+const checks = [
+  {
+    name: 'A forged x-forwarded-for is ignored without a trusted proxy',
+    hops: undefined,
+    run: async () => ({ address: clientIp(request('203.0.113.9')), expected: null })
+  },
+  {
+    name: 'A new forged address on every request is still limited without a trusted proxy',
+    hops: undefined,
+    run: async () => ({ statuses: await statuses(['198.51.100.1', '198.51.100.2', '198.51.100.3', '198.51.100.4']), expected: [200, 200, 200, 429] })
+  },
+  {
+    name: 'Behind one proxy the address is the entry the proxy appended',
+    hops: '1',
+    run: async () => ({ address: clientIp(request('198.51.100.7, 203.0.113.20')), expected: '203.0.113.20' })
+  },
+  {
+    name: 'Behind one proxy, forged entries in front of the real address are still limited',
+    hops: '1',
+    run: async () => ({
+      statuses: await statuses(['1.1.1.1, 203.0.113.30', '2.2.2.2, 203.0.113.30', '3.3.3.3, 203.0.113.30', '4.4.4.4, 203.0.113.30']),
+      expected: [200, 200, 200, 429]
+    })
+  },
+  {
+    name: 'A request that did not pass every trusted proxy has no address',
+    hops: '2',
+    run: async () => ({ address: clientIp(request('203.0.113.40')), expected: null })
+  }
+];
+
+const run = async () => {
+  let failed = 0;
+  for (const check of checks) {
+    if (check.hops === undefined) delete process.env.TRUSTED_PROXY_HOPS;
+    else process.env.TRUSTED_PROXY_HOPS = check.hops;
+    const outcome = await check.run();
+    const actual = 'statuses' in outcome ? outcome.statuses : outcome.address;
+    const passed = JSON.stringify(actual) === JSON.stringify(outcome.expected);
+    if (!passed) failed++;
+    console.log(`${passed ? '✅' : '❌'} ${check.name}`);
+    if (!passed) console.log(`   expected ${JSON.stringify(outcome.expected)}, got ${JSON.stringify(actual)}`);
+  }
+  console.log(`\n${failed ? `❌ ${failed} of ${checks.length} check(s) failed` : `✅ All ${checks.length} checks passed`}`);
+  if (failed) process.exitCode = 1;
+};
+
+run();
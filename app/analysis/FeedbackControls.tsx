@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { ScamDetectionResult } from './interfaces';
+
+interface FeedbackControlsProps {
+  analysisResult: ScamDetectionResult;
+}
+
+type Correction = "false-positive" | "false-negative";
+type SubmitState = "idle" | "sending" | "sent" | "error";
+
+// Lets users dispute a verdict ("this is my actual bank" / "this was a scam") via /api/feedback
+export default function FeedbackControls({ analysisResult }: FeedbackControlsProps) {
+  const [correction, setCorrection] = useState<Correction | null>(null);
+  const [comment, setComment] = useState("");
+  const [state, setState] = useState<SubmitState>("idle");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Only verdicts produced by an analysis can be disputed
+  if (!analysisResult.analysisId || analysisResult.analysisMode === "heuristic-only") {
+    return null;
+  }
+
+  const submitFeedback = async () => {
+    if (!correction) return;
+    setState("sending");
+    setErrorMessage(null);
+    try {
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          analysisId: analysisResult.analysisId,
+          correction,
+          verdict: {
+            isScam: analysisResult.isScam,
+            probability: analysisResult.probability,
+            riskLevel: analysisResult.riskLevel
+          },
+          comment: comment.trim() || undefined
+        })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || `Request failed with status ${response.status}`);
+      }
+      setState("sent");
+    } catch (error: any) {
+      setErrorMessage(error.message || "Could not send feedback");
+      setState("error");
+    }
+  };
+
+  if (state === "sent") {
+    return (
+      <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-300 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300">
+        <span className="mr-2">🙏</span>
+        Thank you! Your feedback will be reviewed and helps improve future results.
+      </div>
+    );
+  }
+
+  const optionClasses = (option: Correction) =>
+    `px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${correction === option
+      ? "bg-slate-800 text-white border-slate-800 dark:bg-slate-200 dark:text-slate-900 dark:border-slate-200"
+      : "bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-300 border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-800"}`;
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-300 dark:border-slate-600">
+      <p className="text-sm font-medium text-slate-800 dark:text-slate-200 mb-3">Is this result wrong? / Mali ba ang resulta?</p>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className={optionClasses("false-positive")} onClick={() => setCorrection("false-positive")}>
+          ✅ This is legitimate (e.g. my actual bank)
+        </button>
+        <button type="button" className={optionClasses("false-negative")} onClick={() => setCorrection("false-negative")}>
+          🚨 This was a scam
+        </button>
+      </div>
+      {correction && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Optional: tell us why (do not include passwords or OTPs)"
+            className="w-full p-2 text-sm rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200"
+          />
+          <button
+            type="button"
+            onClick={submitFeedback}
+            disabled={state === "sending"}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-60"
+          >
+            {state === "sending" ? "Sending..." : "Send feedback"}
+          </button>
+          {state === "error" && errorMessage && (
+            <p className="text-sm text-red-600 dark:text-red-400">{errorMessage}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
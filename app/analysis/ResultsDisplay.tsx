@@ -1,17 +1,19 @@
 "use client";
 
 import { ScamDetectionResult, ApiReportAgency } from './interfaces'; // Updated import
-import { extractScamIndicators, getColorByPercentage } from './utils';
-// Pattern-based detection disabled - now using purely Gemini-based risk assessment
-// import { getInitializedIndicators, detectIndicators, calculateRiskPercentage } from './indicators';
+import { extractScamIndicators, getColorByPercentage, getStatusStyles } from './utils';
+import FeedbackControls from './FeedbackControls';
+import type { PendingStage } from './streaming';
+// Pattern-based detection now runs on the server; its result arrives in analysisResult.ruleEngine
 
 interface ResultsDisplayProps {
   analysisResult: ScamDetectionResult;
   scamContent: string;
+  pendingStages?: PendingStage[]; // Parts of a streamed result that have not arrived yet
 }
 
 // Separate component for results display to improve code organization
-export default function ResultsDisplay({ analysisResult, scamContent }: ResultsDisplayProps) {
+export default function ResultsDisplay({ analysisResult, scamContent, pendingStages = [] }: ResultsDisplayProps) {
   const apiPercent = analysisResult.probability;
 
   // Helper function to check if risk summary is inconsistent with calculated risk percentage
@@ -63,8 +65,16 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
     if (finalRiskPercentage === 25 || finalRiskPercentage === 24) finalRiskPercentage = 23; // Clear low
   }
   
+  // When the AI was unavailable the score comes from offline checks only - never show it as a green "safe" result
+  const isHeuristicOnly = analysisResult.analysisMode === 'heuristic-only';
+  // While a streamed analysis runs, the score shown comes from the offline checks until the model has answered
+  const isVerdictPending = pendingStages.includes('verdict');
+  const isTranslationPending = pendingStages.includes('translations');
+  
   // Get UI styles based on calculated risk percentage to ensure consistency
-  const statusStyles = getColorByPercentage(finalRiskPercentage);  // Prepare display explanation, prioritizing proper integration of audio analysis
+  const statusStyles = (isHeuristicOnly || isVerdictPending) && finalRiskPercentage < 25
+    ? { ...getStatusStyles(undefined), icon: isVerdictPending ? '⏳' : '⚠️', label: isVerdictPending ? 'AI Analysis Running' : 'AI Unavailable' }
+    : getColorByPercentage(finalRiskPercentage);  // Prepare display explanation, prioritizing proper integration of audio analysis
   let displayExplanation = analysisResult.explanation;
   const genericEnglishFallbacks = [
     "no detailed risk analysis available", 
@@ -109,6 +119,14 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
   } else if (!displayExplanationTagalog) {
     displayExplanationTagalog = "Hindi available ang paliwanag sa Tagalog.";
   }
+
+  // Placeholders for the parts of a streamed result that are still on their way
+  if (isVerdictPending) {
+    displayExplanation = "⏳ The AI explanation will appear here as soon as the analysis is complete.";
+  }
+  if (isTranslationPending) {
+    displayExplanationTagalog = "⏳ Isinasalin pa ang paliwanag sa Tagalog...";
+  }
   
   // Extract indicators from Gemini's analysis instead of pattern matching
   const originalExplanationForIndicators = analysisResult.explanation || "";
@@ -392,7 +410,63 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
   }
   
   return (
-    <div className="space-y-6">      {/* Main Results Card */}
+    <div className="space-y-6">
+      {/* AI Unavailable Banner - shown when only offline heuristics could be run */}
+      {isHeuristicOnly && (
+        <div className="p-5 rounded-xl bg-amber-50 dark:bg-amber-900/30 border-2 border-amber-300 dark:border-amber-600 shadow-lg" role="alert">
+          <h3 className="text-lg font-bold text-amber-800 dark:text-amber-200 flex items-center">
+            <span className="mr-2">⚠️</span>
+            AI unavailable - offline check only
+          </h3>
+          <p className="text-sm mt-2 text-amber-800 dark:text-amber-200">
+            Our AI analysis could not be completed, so this result is based only on known scam patterns, links and phone numbers.
+            A low score does <strong>not</strong> mean the content is safe. Please try again later for a full analysis.
+          </p>
+          <p className="text-sm mt-1 italic text-amber-700 dark:text-amber-300">
+            Hindi available ang AI ngayon. Hindi ito patunay na ligtas ang nilalaman - pakisubukang muli mamaya.
+          </p>
+        </div>
+      )}
+      {/* Streamed analysis in progress - the offline verdict is shown until the model has answered */}
+      {isVerdictPending && (
+        <div className="p-5 rounded-xl bg-blue-50 dark:bg-blue-900/30 border-2 border-blue-300 dark:border-blue-600 shadow-lg" role="status">
+          <h3 className="text-lg font-bold text-blue-800 dark:text-blue-200 flex items-center">
+            <svg className="animate-spin mr-2 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+            </svg>
+            Preliminary result - AI analysis in progress
+          </h3>
+          <p className="text-sm mt-2 text-blue-800 dark:text-blue-200">
+            This score comes from our offline checks of known scam patterns, links and phone numbers.
+            It will be replaced by the full AI analysis in a few seconds.
+          </p>
+        </div>
+      )}
+      {/* Near-duplicate notice - the verdict was reused from a nearly identical earlier message */}
+      {analysisResult.cacheMatch === 'near-duplicate' && (
+        <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-300 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300">
+          <span className="mr-2">🔁</span>
+          This message is nearly identical ({Math.round((analysisResult.cacheSimilarity ?? 0) * 100)}% similar) to one we analyzed recently,
+          so the earlier result is shown. Names, amounts or link details may differ.
+        </div>
+      )}
+      {/* Reviewed verdict notice - an admin confirmed a user correction for this content */}
+      {analysisResult.verdictOverride && (
+        <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-300 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300">
+          <span className="mr-2">🧑‍⚖️</span>
+          This result was reviewed by our team after user feedback
+          {analysisResult.verdictOverride.originalProbability !== null && ` (the automated analysis said ${Math.round(analysisResult.verdictOverride.originalProbability)}%)`}.
+        </div>
+      )}
+      {analysisResult.verifiedSenderMatch && (
+        <div className="p-4 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-300 dark:border-green-700 text-sm text-green-800 dark:text-green-300">
+          <span className="mr-2">🏛️</span>
+          <span className="font-medium">Matches an official {analysisResult.verifiedSenderMatch.organization} sender.</span>{" "}
+          {analysisResult.verifiedSenderMatch.reason}. Official senders never ask for your OTP, PIN or password.
+        </div>
+      )}
+      {/* Main Results Card */}
       <div className={`p-6 rounded-xl border-2 ${statusStyles.containerClasses} shadow-lg`}>
         <div className="flex items-center justify-between mb-4">
           <h2 className={`text-2xl font-bold ${statusStyles.textClasses} flex items-center`}>
@@ -475,7 +549,9 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
               </div>
             )}
           </div><div className={`p-4 rounded-lg ${statusStyles.badgeClasses} bg-opacity-20 border border-current border-opacity-30`}>            <p className="font-bold text-lg">
-              {finalRiskPercentage >= 75 
+              {(isHeuristicOnly || isVerdictPending) && finalRiskPercentage < 25
+                ? '⚠️ Not Confirmed Safe'
+                : finalRiskPercentage >= 75 
                 ? '🚨 Very High Risk Content' 
                 : finalRiskPercentage >= 50 
                   ? '⚠️ High Risk Content'
@@ -540,6 +616,111 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
               </div>
             )}
         </div>
+      )}
+
+      {/* Rule Engine Signal - local pattern catalogue, shown next to the AI probability */}
+      {analysisResult.ruleEngine && (
+        <div className="p-6 rounded-xl bg-slate-50 dark:bg-slate-900/30 border-2 border-slate-200 dark:border-slate-700 shadow-lg">
+          <h3 className="text-xl font-bold mb-3 text-slate-800 dark:text-slate-200 flex items-center">
+            <span className="mr-2">📐</span>
+            Rule Engine Signal
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4 text-sm">
+            <div className="p-3 rounded-lg bg-white dark:bg-slate-950/50 border border-slate-200 dark:border-slate-600">
+              <span className="font-medium">AI Probability:</span>{" "}
+              {analysisResult.ruleEngine.modelProbability !== null ? `${Math.round(analysisResult.ruleEngine.modelProbability)}%` : "Unavailable"}
+            </div>
+            <div className="p-3 rounded-lg bg-white dark:bg-slate-950/50 border border-slate-200 dark:border-slate-600">
+              <span className="font-medium">Rule-Based Score:</span> {analysisResult.ruleEngine.rulePercentage}%
+              <span className="text-xs text-slate-500 dark:text-slate-400"> (severity {analysisResult.ruleEngine.totalSeverity})</span>
+            </div>
+            <div className="p-3 rounded-lg bg-white dark:bg-slate-950/50 border border-slate-200 dark:border-slate-600">
+              <span className="font-medium">Blended Score:</span> {analysisResult.ruleEngine.blendedPercentage}%
+            </div>
+          </div>
+          {analysisResult.ruleEngine.matchedIndicators.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {analysisResult.ruleEngine.matchedIndicators.map((indicator) => (
+                <span
+                  key={indicator.name}
+                  className="px-3 py-1 bg-slate-200 dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-full text-xs"
+                  title={`Severity ${indicator.severity}, ${indicator.matches} pattern match(es)`}
+                >
+                  {indicator.name}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm italic text-slate-600 dark:text-slate-400">No catalogued scam patterns matched this content.</p>
+          )}
+        </div>
+      )}
+      {/* Blocklist - indicators listed in imported scam advisories, with their sources */}
+      {analysisResult.blocklistMatches && analysisResult.blocklistMatches.length > 0 && (
+        <div className="p-6 rounded-xl bg-red-50 dark:bg-red-950/30 border-2 border-red-300 dark:border-red-700 shadow-lg">
+          <h3 className="text-xl font-bold mb-3 text-red-800 dark:text-red-200 flex items-center">
+            <span className="mr-2">🛑</span>
+            Listed in Scam Advisories
+          </h3>
+          <ul className="space-y-2">
+            {analysisResult.blocklistMatches.map((match) => (
+              <li key={`${match.kind}:${match.value}`} className="p-3 rounded-lg border text-sm bg-white dark:bg-slate-950/50 border-red-200 dark:border-red-800">
+                <span className="font-mono font-medium text-slate-900 dark:text-slate-100 break-all">{match.value}</span>
+                {match.description && <span className="ml-2 text-slate-600 dark:text-slate-400">{match.description}</span>}
+                <ul className="mt-1 text-red-700 dark:text-red-300">
+                  {match.sources.map((source, index) => (
+                    <li key={index}>
+                      Source: {source.name}
+                      {source.reportedAt && ` (${source.reportedAt.substring(0, 10)})`}
+                      {source.reference && (/^https?:\/\//.test(source.reference)
+                        ? <> - <a href={source.reference} target="_blank" rel="noopener noreferrer" className="underline">advisory</a></>
+                        : ` - ${source.reference}`)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {/* Numbers and Accounts - extracted contacts with their local scam-report history */}
+      {analysisResult.contactFindings && analysisResult.contactFindings.length > 0 && (
+        <div className="p-6 rounded-xl bg-slate-50 dark:bg-slate-900/30 border-2 border-slate-200 dark:border-slate-700 shadow-lg">
+          <h3 className="text-xl font-bold mb-3 text-slate-800 dark:text-slate-200 flex items-center">
+            <span className="mr-2">📞</span>
+            Numbers and Accounts Found
+          </h3>
+          <ul className="space-y-2">
+            {analysisResult.contactFindings.map((contact) => (
+              <li
+                key={contact.normalized}
+                className={`p-3 rounded-lg border text-sm ${contact.reputation
+                  ? "bg-red-50 dark:bg-red-950/40 border-red-300 dark:border-red-700"
+                  : "bg-white dark:bg-slate-950/50 border-slate-200 dark:border-slate-600"}`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono font-medium text-slate-900 dark:text-slate-100">{contact.value}</span>
+                  <span className="px-2 py-0.5 bg-slate-200 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-full text-xs">
+                    {contact.kind === "ewallet" ? `${contact.provider} e-wallet` : contact.kind === "bank-account" ? `${contact.provider || "Bank"} account` : "Mobile number"}
+                  </span>
+                  {contact.network && (
+                    <span className="text-xs text-slate-500 dark:text-slate-400">{contact.network} prefix</span>
+                  )}
+                </div>
+                {contact.reputation ? (
+                  <p className="mt-1 text-red-700 dark:text-red-300 font-medium">
+                    🚨 Reported {contact.reputation.reportCount} time(s) as used in scams
+                    {contact.reputation.labels.length > 0 && ` (${contact.reputation.labels.join(", ")})`}
+                  </p>
+                ) : (
+                  <p className="mt-1 text-slate-600 dark:text-slate-400">
+                    No reports yet. This does not mean it is safe - verify through official channels before sending money.
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
       )}      {/* Image Analysis Section */}
       {analysisResult.image_analysis && (
         <div className="p-6 rounded-xl bg-blue-50 dark:bg-blue-900/30 border-2 border-blue-200 dark:border-blue-700 shadow-lg">
@@ -807,79 +988,84 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
         </div>
       </div>
 
-      {/* Advice Section */}
-      <div className={`p-6 rounded-xl border-2 ${statusStyles.containerClasses} shadow-lg`}>
-        <h3 className={`text-xl font-bold mb-4 ${statusStyles.textClasses} flex items-center`}>
-          <span className="mr-2">💡</span>
-          Recommended Actions
-        </h3>
-        <div className="bg-white dark:bg-gray-900/30 rounded-lg p-4 border border-current border-opacity-30">
-          <p className="text-sm whitespace-pre-wrap leading-relaxed">{displayAdvice}</p>
-        </div>
-      </div>
+      {/* Advice, tips and reporting resources depend on the final verdict */}
+      {!isVerdictPending && (
+        <>
+          {/* Advice Section */}
+          <div className={`p-6 rounded-xl border-2 ${statusStyles.containerClasses} shadow-lg`}>
+            <h3 className={`text-xl font-bold mb-4 ${statusStyles.textClasses} flex items-center`}>
+              <span className="mr-2">💡</span>
+              Recommended Actions
+            </h3>
+            <div className="bg-white dark:bg-gray-900/30 rounded-lg p-4 border border-current border-opacity-30">
+              <p className="text-sm whitespace-pre-wrap leading-relaxed">{displayAdvice}</p>
+            </div>
+          </div>
 
-      {/* How to Avoid Scams (Tutorials and Tips) */}
-      <div className={`p-6 rounded-xl border-2 ${statusStyles.containerClasses} shadow-lg`}>
-        <h3 className={`text-xl font-bold mb-4 ${statusStyles.textClasses} flex items-center`}>
-          <span className="mr-2">🛡️</span>
-          Safety & Security Tips
-        </h3>
-        <div className="bg-white dark:bg-gray-900/30 rounded-lg p-4 border border-current border-opacity-30">
-          <ul className="space-y-3">
-            {displayTutorialsAndTips.length > 0 ?
-              displayTutorialsAndTips.map((tip, index) => (
-                <li key={index} className="flex items-start text-sm">
-                  <span className={`flex-shrink-0 w-6 h-6 bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5`}>
-                    {index + 1}
-                  </span>
-                  <span className="leading-relaxed">{tip}</span>
-                </li>
-              )) :
-              <li className="flex items-start text-sm">
-                <span className="leading-relaxed">No specific safety tips available at this time. Always practice general online safety: be cautious with unsolicited messages, verify information, and protect your personal data.</span>
-              </li>
-            }
-          </ul>
-        </div>
-      </div>
+          {/* How to Avoid Scams (Tutorials and Tips) */}
+          <div className={`p-6 rounded-xl border-2 ${statusStyles.containerClasses} shadow-lg`}>
+            <h3 className={`text-xl font-bold mb-4 ${statusStyles.textClasses} flex items-center`}>
+              <span className="mr-2">🛡️</span>
+              Safety & Security Tips
+            </h3>
+            <div className="bg-white dark:bg-gray-900/30 rounded-lg p-4 border border-current border-opacity-30">
+              <ul className="space-y-3">
+                {displayTutorialsAndTips.length > 0 ?
+                  displayTutorialsAndTips.map((tip, index) => (
+                    <li key={index} className="flex items-start text-sm">
+                      <span className={`flex-shrink-0 w-6 h-6 bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-400 rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5`}>
+                        {index + 1}
+                      </span>
+                      <span className="leading-relaxed">{tip}</span>
+                    </li>
+                  )) :
+                  <li className="flex items-start text-sm">
+                    <span className="leading-relaxed">No specific safety tips available at this time. Always practice general online safety: be cautious with unsolicited messages, verify information, and protect your personal data.</span>
+                  </li>
+                }
+              </ul>
+            </div>
+          </div>
 
-      {/* Reporting Section (Complaint Filing Info) */}
-      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 shadow-lg">
-        <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-gray-200 flex items-center">
-          <span className="mr-2">📢</span>
-          Relevant Reporting Resources
-        </h3>
-        <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 border border-gray-200 dark:border-gray-600">
-          {displayComplaintFilingIntro && (
-            <p className="text-sm mb-3 italic text-gray-600 dark:text-gray-400">
-              {displayComplaintFilingIntro}
-            </p>
-          )}
-          <ul className="space-y-3">
-            {displayComplaintAgencies.length > 0 ?
-              displayComplaintAgencies.map((agency: ApiReportAgency, index: number) => (
-                <li key={index} className="flex items-start">
-                  <span className="w-2 h-2 bg-blue-500 rounded-full mr-3 mt-1.5 flex-shrink-0"></span>
-                  <div>
-                    <a
-                      href={agency.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200 font-medium hover:underline transition-colors"
-                    >
-                      {agency.name}
-                    </a>
-                    {agency.description && (
-                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{agency.description}</p>
-                    )}
-                  </div>
-                </li>
-              )) :
-              <p className="text-sm text-gray-600 dark:text-gray-400">No specific reporting agencies listed. You can search for local consumer protection or cybercrime reporting agencies in your region (e.g., search for 'report scam [your country/region]').</p>
-            }
-          </ul>
-        </div>
-      </div>
+          {/* Reporting Section (Complaint Filing Info) */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 shadow-lg">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-gray-200 flex items-center">
+              <span className="mr-2">📢</span>
+              Relevant Reporting Resources
+            </h3>
+            <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 border border-gray-200 dark:border-gray-600">
+              {displayComplaintFilingIntro && (
+                <p className="text-sm mb-3 italic text-gray-600 dark:text-gray-400">
+                  {displayComplaintFilingIntro}
+                </p>
+              )}
+              <ul className="space-y-3">
+                {displayComplaintAgencies.length > 0 ?
+                  displayComplaintAgencies.map((agency: ApiReportAgency, index: number) => (
+                    <li key={index} className="flex items-start">
+                      <span className="w-2 h-2 bg-blue-500 rounded-full mr-3 mt-1.5 flex-shrink-0"></span>
+                      <div>
+                        <a
+                          href={agency.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200 font-medium hover:underline transition-colors"
+                        >
+                          {agency.name}
+                        </a>
+                        {agency.description && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{agency.description}</p>
+                        )}
+                      </div>
+                    </li>
+                  )) :
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No specific reporting agencies listed. You can search for local consumer protection or cybercrime reporting agencies in your region (e.g., search for 'report scam [your country/region]').</p>
+                }
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
 
       {/* Audio Content Verification Section - Enhanced */}
       {(analysisResult.audioContentVerification || analysisResult.audioContentVerificationTagalog) && (
@@ -1016,6 +1202,9 @@ export default function ResultsDisplay({ analysisResult, scamContent }: ResultsD
         </div>
       )}
 
+      {/* User feedback on the verdict - keyed so the form resets for each new analysis */}
+      <FeedbackControls key={analysisResult.analysisId} analysisResult={analysisResult} />
+
       {/* Reporting information */}
     </div>
   );
@@ -1,25 +1,13 @@
 "use client";
 
-// Defines interfaces for scam indicator data structure
-export interface IndicatorData {
-  patterns: string[];
-  severity: number;
-  detected: boolean;
-  confidence?: number;
-  matches?: number;
-}
-
-// Interface for pattern match data
-export interface IndicatorMatch {
-  severity: number;
-  confidence: number;
-  matches: number;
-}
-
-// Type for a collection of indicators
-export type CommonIndicators = {
-  [key: string]: IndicatorData;
-}
+import type { RuleEngineResult } from '../lib/rules/types';
+import type { HeuristicFinding } from '../lib/rules/heuristics';
+import type { ModelValidation } from '../lib/providers/analyze';
+import type { UrlFinding } from '../lib/forensics/urls';
+import type { ContactFinding } from '../lib/forensics/reputation';
+import type { CommunityReportSummary } from '../lib/community/reports';
+import type { VerifiedSenderMatch } from '../lib/rules/allowlist';
+import type { BlocklistMatch } from '../lib/forensics/blocklist';
 
 // Define interfaces for the expected response structure from the API
 export interface ApiReportAgency {
@@ -87,4 +75,43 @@ export interface ScamDetectionResult {
   // Added back from previous version as per user request
   true_vs_false?: string;
   true_vs_false_tagalog?: string;
+
+  // Local pattern-based signal, reported separately from the model's probability
+  ruleEngine?: RuleEngineResult;
+
+  // "heuristic-only" when the AI provider failed and only offline checks were run,
+  // "blocklist" when the content contains an indicator listed in an imported threat-intelligence feed
+  analysisMode?: 'ai' | 'heuristic-only' | 'blocklist';
+  blocklistMatches?: BlocklistMatch[]; // Listed indicators found, with the advisories that listed them
+  heuristicFindings?: HeuristicFinding[]; // URL/phone findings from the offline heuristic pass
+
+  // Deterministic forensics for every link in the submitted text (lookalikes, punycode, typosquats, ...)
+  urlFindings?: UrlFinding[];
+
+  // Mobile numbers, e-wallet and bank accounts found in the text, with their local reputation
+  contactFindings?: ContactFinding[];
+
+  // Earlier "this is a scam" reports from other users matching this content's links, numbers or text
+  communityReports?: CommunityReportSummary;
+
+  // Identifies the verdict shown, for community reports and feedback (the cache key of the analysis)
+  analysisId?: string;
+
+  // Set when the links or sender ID match the official-sender allowlist; the rule engine score was dampened
+  verifiedSenderMatch?: VerifiedSenderMatch | null;
+
+  // Set when an admin confirmed a user correction and chose to override the analyzed verdict
+  verdictOverride?: {
+    correction: 'false-positive' | 'false-negative';
+    reviewedAt: string | null;
+    originalProbability: number | null;
+  };
+
+  // Set when the verdict was reused from a similar earlier message ("near-duplicate") or served
+  // from an expired cache entry while it is re-analyzed in the background ("stale")
+  cacheMatch?: 'near-duplicate' | 'stale';
+  cacheSimilarity?: number; // Estimated similarity (0-1) to the matched message
+
+  // Schema validation report for the model's answer (absent in heuristic-only mode)
+  modelValidation?: ModelValidation;
 }
@@ -8,11 +8,17 @@ import ConsentManager from "../components/ConsentManager";
 import { hasUserConsent } from "../utils/consentManager";
 import { ScamDetectionResult } from './interfaces';
 import ResultsDisplay from './ResultsDisplay';
+import { STAGE_STREAM_TYPE } from '../lib/streaming/stages';
+import type { AnalyzeRequest } from '../lib/api/types';
+import { PendingStage, STAGE_PROGRESS, applyStageEvent, readStageStream } from './streaming';
 
 export default function Home() {
   const [scamContent, setScamContent] = useState("");
   const [analysisResult, setAnalysisResult] = useState<ScamDetectionResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Streamed analysis: parts of the result still to come and the current stage shown on the button
+  const [pendingStages, setPendingStages] = useState<PendingStage[]>([]);
+  const [progressText, setProgressText] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -187,10 +193,12 @@ export default function Home() {
     setIsLoading(true);
     setError(null);
     setAnalysisResult(null);
+    setPendingStages(['verdict', 'translations']);
+    setProgressText(null);
 
     try {
       // Prepare request body with text content (can be empty if image or audio is provided)
-      const requestBody: { content: string; imageBase64?: string; audioBase64?: string } = {
+      const requestBody: AnalyzeRequest = {
         content: scamContent.trim(),
       };
 
@@ -218,25 +226,44 @@ export default function Home() {
         requestBody.audioBase64 = audioBase64;
       }
 
-      const response = await fetch("/api/detect-scam", {
+      // Ask for the streaming mode so the offline verdict shows while the AI analysis is still running
+      const response = await fetch("/api/v1/analyze", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Accept": STAGE_STREAM_TYPE,
         },
         body: JSON.stringify(requestBody),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to analyze content");
+        throw new Error(errorData.error?.message || "Failed to analyze content");
       }
 
-      const result: ScamDetectionResult = await response.json();
-      setAnalysisResult(result);
+      let partial: Partial<ScamDetectionResult> = {};
+      let pending: PendingStage[] = ['verdict', 'translations'];
+      await readStageStream(response, (event) => {
+        if (event.stage === 'error') {
+          throw new Error(event.message || "Failed to analyze content");
+        }
+        partial = applyStageEvent(partial, event);
+        setProgressText(STAGE_PROGRESS[event.stage] || null);
+        pending = pending.filter(stage => stage !== event.stage);
+        setPendingStages(pending);
+        if (event.stage === 'rules' || event.stage === 'verdict' || event.stage === 'translations') {
+          setAnalysisResult(partial as ScamDetectionResult);
+        }
+      });
+      if (pending.length > 0) {
+        throw new Error("The analysis was interrupted. Please try again.");
+      }
     } catch (err: any) {
       setError(err.message || "An unexpected error occurred.");
     } finally {
       setIsLoading(false);
+      setPendingStages([]);
+      setProgressText(null);
     }
   };
 
@@ -588,7 +615,7 @@ export default function Home() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      {audioBlob ? 'Analyzing voice recording...' : 'Analyzing with AI...'}
+                      {progressText || (audioBlob ? 'Analyzing voice recording...' : 'Analyzing with AI...')}
                     </div>
                   ) : hasAcceptedTerms ? (
                     <div className="flex items-center justify-center">
@@ -639,6 +666,7 @@ export default function Home() {
                   <ResultsDisplay 
                     analysisResult={analysisResult} 
                     scamContent={scamContent} 
+                    pendingStages={pendingStages}
                   />
                 )}                {/* Awaiting Analysis State */}
                 {!isLoading && !analysisResult && !error && (
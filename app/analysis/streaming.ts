@@ -0,0 +1,74 @@
+"use client";
+
+import type { StageEvent } from '../lib/streaming/stages';
+import type { ScamDetectionResult } from './interfaces';
+
+// Client side of the streaming mode of /api/detect-scam (see app/lib/streaming/stages.ts)
+
+// Parts of the result still on their way; ResultsDisplay shows placeholders for them
+export type PendingStage = 'verdict' | 'translations';
+
+// Progress text shown on the analyze button after each stage
+export const STAGE_PROGRESS: Partial<Record<StageEvent['stage'], string>> = {
+  received: 'Checking links and numbers...',
+  urls: 'Matching known scam patterns...',
+  rules: 'Analyzing with AI...',
+  verdict: 'Translating...'
+};
+
+/**
+ * Read the events of a streaming response as they arrive
+ * @param onEvent - Called once per event, in order
+ */
+export async function readStageStream(response: Response, onEvent: (event: StageEvent) => void): Promise<void> {
+  if (!response.body) throw new Error("The analysis response could not be read");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+    if (done) break;
+  }
+  if (buffered.trim()) onEvent(JSON.parse(buffered));
+}
+
+/**
+ * Fold a stage event into the partial result shown while the analysis runs
+ * @param partial - The result so far
+ * @returns The updated result; complete enough for ResultsDisplay once the "rules" event has been applied
+ */
+export function applyStageEvent(partial: Partial<ScamDetectionResult>, event: StageEvent): Partial<ScamDetectionResult> {
+  switch (event.stage) {
+    case 'urls':
+      return {
+        ...partial,
+        urlFindings: event.urlFindings,
+        contactFindings: event.contactFindings,
+        verifiedSenderMatch: event.verifiedSenderMatch
+      };
+    case 'rules':
+      return {
+        ...partial,
+        ...event.preliminary,
+        explanation: "",
+        explanationTagalog: "",
+        advice: "",
+        tutorialsAndTips: [],
+        complaintFilingInfo: { introduction: "", agencies: [] },
+        assessment: "Preliminary (Offline Check)",
+        riskSummary: "⏳ Offline checks are done - the AI analysis is still running."
+      };
+    case 'verdict':
+      // The final response replaces the preliminary one, except for the Tagalog texts still to come
+      return event.result;
+    case 'translations':
+      return { ...partial, ...event.translations } as Partial<ScamDetectionResult>;
+    default:
+      return partial;
+  }
+}
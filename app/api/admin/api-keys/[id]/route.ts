@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, runAdminAction } from '../../../../lib/admin/handler';
+import { getApiKeyStore } from '../../../../lib/access/keys';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Revoke a key; requests with it are refused with 401 from then on. The record is kept for the listing.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return runAdminAction(request, 'api-keys.revoke', async () => {
+    const revoked = await getApiKeyStore().revoke(id);
+    if (!revoked) {
+      throw new AdminRequestError(`No API key with id ${id}`, 404);
+    }
+    console.log(`🔑 Revoked API key ${id}`);
+    return {
+      body: { message: `API key "${revoked.name}" revoked`, id, revokedAt: revoked.revokedAt },
+      target: id
+    };
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../lib/admin/handler';
+import { ApiKeyLimits, ApiKeyRecord, getApiKeyStore } from '../../../lib/access/keys';
+import { apiKeysRequired, keyLimits, keyUsage } from '../../../lib/access/control';
+import { getRateLimitStore } from '../../../lib/access/limiter';
+
+// The key as listed, without its hash
+const listedKey = ({ keyHash: _keyHash, ...record }: ApiKeyRecord) => ({ ...record, revokedAt: record.revokedAt || null });
+
+// All API keys with their limits and current usage (this minute and today). ?active=true hides revoked keys.
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'api-keys.list', async () => {
+    const activeOnly = new URL(request.url).searchParams.get('active') === 'true';
+    const keys = (await getApiKeyStore().list()).filter(record => !activeOnly || !record.revokedAt);
+    const usage = await keyUsage(keys);
+    return {
+      body: {
+        count: keys.length,
+        keysRequired: apiKeysRequired(),
+        limiter: getRateLimitStore().name,
+        keys: keys.map((record, index) => ({ ...listedKey(record), usage: usage[index] }))
+      },
+      details: { count: keys.length }
+    };
+  });
+}
+
+// Issue a key: { "name": "Barangay hotline bot", "perMinute"?: 30, "perDay"?: 5000 }. The key is only
+// shown in this answer; store it right away.
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'api-keys.issue', async (actor) => {
+    const body = await readJsonBody(request);
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100) {
+      throw new AdminRequestError('name must be a non-empty string of at most 100 characters');
+    }
+    const limits: ApiKeyLimits = {};
+    for (const field of ['perMinute', 'perDay'] as const) {
+      if (body[field] === undefined) continue;
+      if (!Number.isInteger(body[field]) || body[field] < 1) {
+        throw new AdminRequestError(`${field} must be a positive integer`);
+      }
+      limits[field] = body[field];
+    }
+
+    const { record, key } = await getApiKeyStore().issue(body.name.trim(), limits, actor);
+    console.log(`🔑 Issued API key ${record.id} to "${record.name}"`);
+    return {
+      status: 201,
+      body: { message: 'API key issued; it is shown only once', key, apiKey: { ...listedKey(record), effectiveLimits: keyLimits(record) } },
+      target: record.id,
+      details: { name: record.name, limits }
+    };
+  });
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../lib/admin/handler';
+import { readAuditLog } from '../../../lib/admin/auditLog';
+
+// Most recent admin actions, newest first (?limit=, default 100, max 1000)
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'audit.read', async () => {
+    const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 100, 1), 1000);
+    const entries = await readAuditLog(limit);
+    return { body: { entries, count: entries.length }, details: { limit } };
+  });
+}
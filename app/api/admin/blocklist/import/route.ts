@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { importThreatFeeds } from '../../../../lib/forensics/blocklist';
+
+// Import threat-intelligence feed files from THREAT_FEEDS_DIR into the blocklist:
+// { "files": ["pnp-acg-2025-03.csv"], "source": "PNP-ACG", "reportedAt": "2025-03-01" }.
+// Every field is optional; without "files" every .csv and .json file in the directory is imported.
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'blocklist.import', async () => {
+    const body = await readJsonBody(request);
+    if (body.files !== undefined && (!Array.isArray(body.files) || body.files.some((file: unknown) => typeof file !== 'string'))) {
+      throw new AdminRequestError('files must be an array of file names');
+    }
+    if ((body.source !== undefined && typeof body.source !== 'string') || (body.reportedAt !== undefined && typeof body.reportedAt !== 'string')) {
+      throw new AdminRequestError('source and reportedAt must be strings');
+    }
+
+    const results = await importThreatFeeds(body.files, { source: body.source, reportedAt: body.reportedAt });
+    const imported = results.filter(result => !('error' in result)).length;
+    return {
+      body: { message: `Imported ${imported} of ${results.length} feed file(s)`, results },
+      details: { files: results.map(result => result.file), imported }
+    };
+  });
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../lib/admin/handler';
+import { getBlocklistStore, threatFeedsDir } from '../../../lib/forensics/blocklist';
+
+// Blocklisted indicator counts by kind and the threat feeds imported so far
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'blocklist.stats', async () => {
+    return { body: { blocklist: await getBlocklistStore().stats(), feedsDir: threatFeedsDir() } };
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, runAdminAction } from '../../../../lib/admin/handler';
+import { getResponseCache } from '../../../../lib/cache';
+
+interface RouteContext {
+  params: Promise<{ key: string }>;
+}
+
+// Inspect one entry, including the full cached response
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { key } = await params;
+  return runAdminAction(request, 'cache.inspect', async () => {
+    const entry = await getResponseCache().getEntry(key);
+    if (!entry) {
+      throw new AdminRequestError(`No cache entry with key ${key}`, 404);
+    }
+    return { body: entry, target: key };
+  });
+}
+
+// Remove one entry by cache key
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { key } = await params;
+  return runAdminAction(request, 'cache.delete', async () => {
+    const removed = await getResponseCache().deleteEntry(key);
+    if (!removed) {
+      throw new AdminRequestError(`No cache entry with key ${key}`, 404);
+    }
+    return { body: { message: 'Cache entry removed', key }, target: key };
+  });
+}
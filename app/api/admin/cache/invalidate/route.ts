@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { getResponseCache, hashContent } from '../../../../lib/cache';
+
+// Invalidate every entry for a piece of content: { "contentHash": "<sha256>" } or { "content": "<text>" }
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'cache.invalidate', async () => {
+    const body = await readJsonBody(request);
+    let contentHash: string;
+    if (typeof body.contentHash === 'string' && /^[a-f0-9]{64}$/i.test(body.contentHash.trim())) {
+      contentHash = body.contentHash.trim().toLowerCase();
+    } else if (typeof body.content === 'string' && body.content.trim()) {
+      contentHash = hashContent(body.content);
+    } else {
+      throw new AdminRequestError('Provide contentHash (hex SHA-256 of the trimmed content) or content');
+    }
+
+    const removedKeys = await getResponseCache().invalidateByContentHash(contentHash);
+    return {
+      body: { message: `Invalidated ${removedKeys.length} cache entries`, contentHash, removedKeys },
+      target: contentHash,
+      details: { removed: removedKeys.length }
+    };
+  });
+}
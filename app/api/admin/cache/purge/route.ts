@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { CachePurgeCriteria, getResponseCache } from '../../../../lib/cache';
+
+// Purge entries by age and/or risk level: { "olderThanHours": 12, "riskLevels": ["Low"] }
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'cache.purge', async () => {
+    const body = await readJsonBody(request);
+    const criteria: CachePurgeCriteria = {};
+
+    if (body.olderThanHours !== undefined) {
+      const hours = Number(body.olderThanHours);
+      if (!Number.isFinite(hours) || hours < 0) {
+        throw new AdminRequestError('olderThanHours must be a non-negative number');
+      }
+      criteria.olderThanMs = hours * 60 * 60 * 1000;
+    }
+    if (body.riskLevels !== undefined) {
+      if (!Array.isArray(body.riskLevels) || !body.riskLevels.every((level: unknown) => typeof level === 'string')) {
+        throw new AdminRequestError('riskLevels must be an array of strings');
+      }
+      criteria.riskLevels = body.riskLevels;
+    }
+    if (criteria.olderThanMs === undefined && !criteria.riskLevels?.length) {
+      throw new AdminRequestError('Provide olderThanHours and/or riskLevels');
+    }
+
+    const removedKeys = await getResponseCache().purge(criteria);
+    return {
+      body: { message: `Purged ${removedKeys.length} cache entries`, removed: removedKeys.length },
+      details: { olderThanHours: body.olderThanHours, riskLevels: criteria.riskLevels, removed: removedKeys.length }
+    };
+  });
+}
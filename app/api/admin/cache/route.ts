@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../lib/admin/handler';
+import { getResponseCache } from '../../../lib/cache';
+
+// List cache entries with previews, newest first (?limit=, ?offset=)
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'cache.list', async () => {
+    const { searchParams } = request.nextUrl;
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 500);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    const cache = getResponseCache();
+    const entries = await cache.listEntries();
+    return {
+      body: {
+        stats: await cache.getStats(),
+        total: entries.length,
+        offset,
+        limit,
+        entries: entries.slice(offset, offset + limit)
+      },
+      details: { limit, offset }
+    };
+  });
+}
+
+// Clear all entries and reset statistics
+export async function DELETE(request: NextRequest) {
+  return runAdminAction(request, 'cache.clear', async () => {
+    await getResponseCache().clear();
+    return { body: { message: 'Cache cleared successfully and statistics reset' } };
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { getResponseCache } from '../../../../lib/cache';
+
+// Export all unexpired entries as a snapshot
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'cache.export', async () => {
+    const snapshot = await getResponseCache().exportSnapshot();
+    return { body: snapshot, details: { entries: snapshot.entries.length } };
+  });
+}
+
+// Import a snapshot; ?mode=replace clears the cache first, the default merges
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'cache.import', async () => {
+    const snapshot = await readJsonBody(request);
+    if (snapshot.version !== 1 || !Array.isArray(snapshot.entries)) {
+      throw new AdminRequestError('Body must be a cache snapshot (version 1) as produced by GET /api/admin/cache/snapshot');
+    }
+
+    const replace = request.nextUrl.searchParams.get('mode') === 'replace';
+    const result = await getResponseCache().importSnapshot(snapshot, replace);
+    return {
+      body: { message: `Imported ${result.imported} cache entries`, ...result, mode: replace ? 'replace' : 'merge' },
+      details: { ...result, mode: replace ? 'replace' : 'merge' }
+    };
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../../lib/admin/handler';
+import { getResponseCache } from '../../../../lib/cache';
+
+// Cache statistics aggregated across instances
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'cache.stats', async () => {
+    return { body: { cache: await getResponseCache().getStats() } };
+  });
+}
+
+// Reset hit/miss counters without clearing cached data
+export async function DELETE(request: NextRequest) {
+  return runAdminAction(request, 'cache.reset-stats', async () => {
+    await getResponseCache().resetStats();
+    return { body: { message: 'Cache statistics reset successfully' } };
+  });
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { CacheEntrySummary, getResponseCache } from '../../../../lib/cache';
+import { AnalysisVersion, getAnalysisProvider, getAnalysisVersion } from '../../../../lib/providers';
+
+// Version the active provider would use for the entry's kind of content
+const currentVersionFor = (summary: CacheEntrySummary): AnalysisVersion =>
+  getAnalysisVersion(getAnalysisProvider(), summary.hasAudio);
+
+const isCurrent = (summary: CacheEntrySummary): boolean => {
+  const current = currentVersionFor(summary);
+  return summary.model === current.model && summary.promptVersion === current.promptVersion;
+};
+
+// Entry counts per model and prompt version, flagged against the active provider's versions
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'cache.versions', async () => {
+    const provider = getAnalysisProvider();
+    const currentVersions = Object.values(provider.promptVersions);
+    const groups = await getResponseCache().versionBreakdown();
+    return {
+      body: {
+        current: { provider: provider.name, model: provider.model, promptVersions: provider.promptVersions },
+        versions: groups.map(group => ({
+          ...group,
+          current: group.model === provider.model && currentVersions.includes(group.promptVersion || '')
+        }))
+      }
+    };
+  });
+}
+
+// Invalidate or migrate entries from other versions:
+// { "action": "invalidate" | "migrate", "model"?: "...", "promptVersion"?: "..." }
+// Without model/promptVersion every entry not produced by the current version is selected.
+// "migrate" re-keys the selected entries to the current version, keeping their verdicts.
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request).catch(() => ({}));
+  const action = body.action === 'migrate' ? 'cache.versions.migrate' : 'cache.versions.invalidate';
+
+  return runAdminAction(request, action, async () => {
+    if (body.action !== 'invalidate' && body.action !== 'migrate') {
+      throw new AdminRequestError('action must be "invalidate" or "migrate"');
+    }
+    for (const field of ['model', 'promptVersion']) {
+      if (body[field] !== undefined && typeof body[field] !== 'string') {
+        throw new AdminRequestError(`${field} must be a string`);
+      }
+    }
+
+    const filtered = body.model !== undefined || body.promptVersion !== undefined;
+    const selects = (summary: CacheEntrySummary): boolean => {
+      if (!filtered) return !isCurrent(summary);
+      return (body.model === undefined || summary.model === body.model) &&
+        (body.promptVersion === undefined || summary.promptVersion === body.promptVersion);
+    };
+    const details = { model: body.model, promptVersion: body.promptVersion, outdatedOnly: !filtered };
+
+    if (body.action === 'invalidate') {
+      const removedKeys = await getResponseCache().invalidateWhere(selects);
+      return {
+        body: { message: `Invalidated ${removedKeys.length} cache entries`, removed: removedKeys.length },
+        details: { ...details, removed: removedKeys.length }
+      };
+    }
+
+    const result = await getResponseCache().migrateWhere(summary => selects(summary) && !isCurrent(summary), currentVersionFor);
+    return {
+      body: { message: `Migrated ${result.migrated} cache entries to the current version`, ...result },
+      details: { ...details, ...result }
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../lib/admin/handler';
+import { getAnalysisProvider } from '../../../lib/providers';
+import { DEFAULT_THRESHOLD, analyzeWithRoute, compareReports, goldenCorpusPath, loadGoldenCorpus, runGoldenSet } from '../../../lib/evaluation/goldenSet';
+import { renderEvaluationHtml } from '../../../lib/evaluation/htmlReport';
+
+// Replay the golden-set corpus (EVAL_CORPUS_PATH) through the detection route with the configured provider
+// and return the scored report with its HTML rendering. Optional body:
+// { "label": "text-v4 draft", "threshold": 50, "compareWith": <an earlier report> }
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'evaluation.run', async () => {
+    const body = await readJsonBody(request);
+    if (body.label !== undefined && typeof body.label !== 'string') {
+      throw new AdminRequestError('label must be a string');
+    }
+    if (body.threshold !== undefined && (typeof body.threshold !== 'number' || body.threshold < 0 || body.threshold > 100)) {
+      throw new AdminRequestError('threshold must be a number from 0 to 100');
+    }
+    if (body.compareWith !== undefined && (!Array.isArray(body.compareWith?.items) || !body.compareWith?.summary)) {
+      throw new AdminRequestError('compareWith must be an earlier evaluation report');
+    }
+
+    const corpusFile = goldenCorpusPath();
+    let corpus;
+    try {
+      corpus = loadGoldenCorpus(corpusFile);
+    } catch (error: any) {
+      throw new AdminRequestError(error.code === 'ENOENT' ? `Corpus file ${corpusFile} not found` : error.message);
+    }
+
+    const provider = getAnalysisProvider();
+    console.log(`🧪 Evaluating ${corpus.items.length} golden-set items with ${provider.name}/${provider.model}`);
+    const report = await runGoldenSet(
+      corpus,
+      analyzeWithRoute,
+      {
+        corpusFile,
+        provider: { name: provider.name, model: provider.model, promptVersions: provider.promptVersions },
+        threshold: body.threshold ?? DEFAULT_THRESHOLD,
+        label: body.label
+      }
+    );
+    const comparison = body.compareWith ? compareReports(report, body.compareWith) : null;
+
+    return {
+      body: { report, comparison, html: renderEvaluationHtml(report, comparison) },
+      details: {
+        provider: report.provider,
+        items: report.corpus.items,
+        accuracy: report.summary.accuracy,
+        errors: report.summary.errors
+      }
+    };
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, readJsonBody, runAdminAction } from '../../../../lib/admin/handler';
+import { getResponseCache } from '../../../../lib/cache';
+import { getFeedbackStore, FeedbackResolution } from '../../../../lib/community/feedback';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const RESOLUTIONS: FeedbackResolution[] = ['invalidate', 'override'];
+
+// Resolve a dispute: { "action": "confirm", "resolution": "invalidate" | "override" } or { "action": "reject" }.
+// Confirming resolves every open correction of the same kind for that verdict. "invalidate" drops the cached
+// verdict so the content is re-analyzed; "override" keeps serving it with the corrected verdict applied.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return runAdminAction(request, 'feedback.resolve', async (actor) => {
+    const body = await readJsonBody(request);
+    if (body.action !== 'confirm' && body.action !== 'reject') {
+      throw new AdminRequestError('action must be "confirm" or "reject"');
+    }
+    const resolution: FeedbackResolution | undefined = body.action === 'confirm' ? body.resolution || 'invalidate' : undefined;
+    if (resolution && !RESOLUTIONS.includes(resolution)) {
+      throw new AdminRequestError(`resolution must be one of: ${RESOLUTIONS.join(', ')}`);
+    }
+
+    const resolved = await getFeedbackStore().resolve(id, body.action === 'confirm' ? 'confirmed' : 'rejected', actor, resolution);
+    if (!resolved) {
+      throw new AdminRequestError(`No feedback with id ${id}`, 404);
+    }
+
+    const analysisId = resolved[0].analysisId;
+    const cacheEntryRemoved = resolution === 'invalidate' ? await getResponseCache().deleteEntry(analysisId) : false;
+
+    return {
+      body: {
+        message: body.action === 'confirm'
+          ? `Confirmed ${resolved.length} correction(s); ${resolution === 'override' ? 'the corrected verdict is now served' : cacheEntryRemoved ? 'cached verdict invalidated' : 'verdict was no longer cached'}`
+          : `Rejected ${resolved.length} correction(s)`,
+        analysisId,
+        resolved,
+        cacheEntryRemoved
+      },
+      target: analysisId,
+      details: { feedbackId: id, action: body.action, resolution: resolution || null, resolved: resolved.length }
+    };
+  });
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { AdminRequestError, runAdminAction } from '../../../lib/admin/handler';
+import { getFeedbackStore, FeedbackStatus } from '../../../lib/community/feedback';
+
+const STATUSES: FeedbackStatus[] = ['open', 'confirmed', 'rejected'];
+
+// Disputed verdicts, grouped by analysisId, most open disputes first. ?status=open|confirmed|rejected filters them.
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'feedback.list', async () => {
+    const status = new URL(request.url).searchParams.get('status') || undefined;
+    if (status && !STATUSES.includes(status as FeedbackStatus)) {
+      throw new AdminRequestError(`status must be one of: ${STATUSES.join(', ')}`);
+    }
+    const disputed = await getFeedbackStore().listDisputed(status as FeedbackStatus | undefined);
+    return {
+      body: { count: disputed.length, disputed },
+      details: { status: status || 'all', count: disputed.length }
+    };
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../../lib/admin/handler';
+import { compareWithBaseline, loadFixtures, readBaseline, runIndicatorHarness } from '../../../../lib/rules/harness';
+
+// Run the indicator catalogue (including packs loaded on this server) against the example fixtures and
+// compare with the saved baseline. The baseline is part of the source tree, so it is only saved by the
+// harness CLI (npm run rules:harness -- --save-baseline).
+export async function POST(request: NextRequest) {
+  return runAdminAction(request, 'indicator-packs.evaluate', async () => {
+    const { fixtures, errors } = loadFixtures();
+    const report = runIndicatorHarness(fixtures);
+    const baseline = readBaseline();
+    const comparison = baseline ? compareWithBaseline(report, baseline) : null;
+
+    return {
+      body: { report, comparison, fixtureErrors: errors },
+      details: {
+        packs: report.packs,
+        precision: report.summary.precision,
+        recall: report.summary.recall,
+        regressions: comparison?.regressions.length ?? null
+      }
+    };
+  });
+}
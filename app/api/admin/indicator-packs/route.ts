@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { runAdminAction } from '../../../lib/admin/handler';
+import { getIndicatorCatalogue } from '../../../lib/rules/packs';
+
+// Loaded indicator packs with their versions, plus any pack files rejected by validation
+export async function GET(request: NextRequest) {
+  return runAdminAction(request, 'indicator-packs.list', async () => {
+    const catalogue = getIndicatorCatalogue();
+    return {
+      body: {
+        packs: catalogue.packs,
+        indicatorCount: catalogue.indicators.length,
+        errors: catalogue.errors,
+        loadedAt: catalogue.loadedAt
+      }
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  authenticateAdmin,
+  clientIp,
+  createAdminSession,
+  isAdminEnabled,
+  isValidAdminToken,
+  sessionTtlSeconds
+} from '../../../lib/admin/auth';
+import { recordAuditEvent } from '../../../lib/admin/auditLog';
+
+// Exchange the admin token for a signed session cookie
+export async function POST(request: NextRequest) {
+  if (!isAdminEnabled()) {
+    return NextResponse.json({ message: 'Admin API is disabled. Set ADMIN_TOKEN to enable it.' }, { status: 503 });
+  }
+
+  const ip = clientIp(request);
+  let body: any = {};
+  try {
+    body = await request.json();
+  } catch {
+    // Handled by the token check below
+  }
+
+  const { token, name } = body || {};
+  if (typeof token !== 'string' || !isValidAdminToken(token)) {
+    await recordAuditEvent({ actor: 'anonymous', action: 'session.create', outcome: 'denied', ip });
+    return NextResponse.json({ message: 'Invalid admin token' }, { status: 401 });
+  }
+
+  const subject = typeof name === 'string' && name.trim() ? name.trim().substring(0, 64) : 'admin';
+  const response = NextResponse.json({ message: 'Admin session created', actor: subject, expiresIn: sessionTtlSeconds() });
+  response.cookies.set(ADMIN_SESSION_COOKIE, createAdminSession(subject), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/admin',
+    maxAge: sessionTtlSeconds()
+  });
+  await recordAuditEvent({ actor: subject, action: 'session.create', outcome: 'success', ip });
+  return response;
+}
+
+// End the admin session
+export async function DELETE(request: NextRequest) {
+  const auth = authenticateAdmin(request);
+  const response = NextResponse.json({ message: 'Admin session ended' });
+  response.cookies.delete({ name: ADMIN_SESSION_COOKIE, path: '/api/admin' });
+  if (auth.ok) {
+    await recordAuditEvent({ actor: auth.actor, action: 'session.delete', outcome: 'success', ip: clientIp(request) });
+  }
+  return response;
+}
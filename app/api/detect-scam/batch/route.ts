@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchItemResult, batchConcurrency, mapWithConcurrency, parseBatchItems, summarizeBatch } from '../../../lib/batch/triage';
+import { checkAccess, markInternal } from '../../../lib/access/control';
+import { POST as detectScam } from '../route';
+
+// Analyze many submissions in one request:
+// { "items": [{ "id": "sms-1", "content": "...", "imageBase64"?: "...", "audioBase64"?: "...", "sender"?: "GCash" }, ...] }
+// Items run through the regular detection route (and its response cache) with bounded concurrency;
+// the response has one result per item in input order plus a summary by risk level and category.
+// The batch counts once against the caller's per-minute rate limit and once per item against the daily
+// quota; a batch that does not fit in the remaining quota is refused as a whole with 429.
+export async function POST(request: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ message: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const parsed = parseBatchItems(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ message: parsed.error }, { status: 400 });
+    }
+
+    const access = await checkAccess(request, parsed.items.length);
+    if ('denial' in access) {
+      const { status, message, headers } = access.denial;
+      return NextResponse.json({ message }, { status, headers });
+    }
+
+    const startedAt = Date.now();
+    const concurrency = batchConcurrency();
+    console.log(`📦 Batch of ${parsed.items.length} item(s), ${concurrency} at a time`);
+
+    const results = await mapWithConcurrency(parsed.items, concurrency, async (item, index): Promise<BatchItemResult> => {
+      const { id, ...payload } = item;
+      try {
+        // Items were counted with the batch, so they are not charged again
+        const response = await detectScam(markInternal(new NextRequest(new URL('/api/detect-scam', request.url), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload)
+        })));
+        const result = await response.json();
+        return response.ok
+          ? { id, index, status: 'ok', result }
+          : { id, index, status: 'error', error: { status: response.status, message: result.message || 'Analysis failed' } };
+      } catch (error: any) {
+        return { id, index, status: 'error', error: { status: 500, message: error.message || 'Analysis failed' } };
+      }
+    });
+
+    const summary = summarizeBatch(results, Date.now() - startedAt);
+    console.log(`📦 Batch done: ${summary.succeeded} analyzed, ${summary.failed} failed in ${summary.durationMs}ms`);
+    return NextResponse.json({ summary, results }, { headers: access.headers });
+  } catch (error: any) {
+    console.error('Error in /api/detect-scam/batch:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue, publicJob } from '../../../../lib/jobs/queue';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Status of an analysis job: queued, running, done (with the detection response as "result")
+// or failed (with the error the detection route answered)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const job = await getJobQueue().get(id);
+    if (!job) {
+      return NextResponse.json({ message: `No analysis job with id ${id}` }, { status: 404 });
+    }
+    return NextResponse.json(publicJob(job));
+  } catch (error: any) {
+    console.error('Error in /api/detect-scam/jobs/[id]:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
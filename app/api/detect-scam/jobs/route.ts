@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '../../../lib/jobs/queue';
+import { isWebhookEnabled, validateCallbackUrl } from '../../../lib/jobs/webhooks';
+import { withAccessControl } from '../../../lib/access/control';
+
+// Submit an analysis without waiting for it:
+// { "content": "...", "imageBase64"?: "...", "audioBase64"?: "...", "sender"?: "GCash", "callbackUrl"?: "https://..." }
+// Answers 202 with a job id at once; poll /api/detect-scam/jobs/<id> for the result, or pass callbackUrl to
+// receive a signed webhook when the job has finished. The job is charged to the caller's limits on submission.
+export async function POST(request: NextRequest) {
+  return withAccessControl(request, () => submit(request));
+}
+
+async function submit(request: NextRequest): Promise<Response> {
+  try {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ message: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const { content, imageBase64, audioBase64, sender, callbackUrl } = body || {};
+    if ((!content || typeof content !== 'string') && !imageBase64 && !audioBase64) {
+      return NextResponse.json({ message: 'Either text content, image, or audio recording is required' }, { status: 400 });
+    }
+    if (callbackUrl !== undefined) {
+      if (!isWebhookEnabled()) {
+        return NextResponse.json({ message: 'Webhooks are not enabled on this server; poll the job status instead' }, { status: 400 });
+      }
+      const problem = await validateCallbackUrl(callbackUrl);
+      if (problem) {
+        return NextResponse.json({ message: problem }, { status: 400 });
+      }
+    }
+
+    // Remaining checks (sender length, media format) are made by the detection route when the job runs
+    const job = await getJobQueue().submit({ content, imageBase64, audioBase64, sender }, callbackUrl);
+    const statusUrl = `/api/detect-scam/jobs/${job.id}`;
+    return NextResponse.json({
+      message: 'Analysis queued',
+      jobId: job.id,
+      status: job.status,
+      statusUrl
+    }, { status: 202, headers: { Location: statusUrl } });
+  } catch (error: any) {
+    console.error('Error in /api/detect-scam/jobs:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
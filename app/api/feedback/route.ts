@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResponseCache } from '../../lib/cache';
+import { clientIp } from '../../lib/admin/auth';
+import { withAccessControl } from '../../lib/access/control';
+import { readJsonBody } from '../../lib/api/body';
+import { getFeedbackStore, FeedbackCorrection } from '../../lib/community/feedback';
+
+const CORRECTIONS: FeedbackCorrection[] = ['false-positive', 'false-negative'];
+const MAX_BODY_BYTES = 8 * 1024;
+const MAX_COMMENT_LENGTH = 500;
+
+// Dispute a verdict:
+// { "analysisId": "<from /api/detect-scam>", "correction": "false-positive" | "false-negative",
+//   "verdict": { "isScam": true, "probability": 82, "riskLevel": "Very High" }, "comment"?: "..." }
+// Feedback counts against the caller's rate limits like analyses do.
+export async function POST(request: NextRequest) {
+  return withAccessControl(request, () => submit(request));
+}
+
+async function submit(request: NextRequest): Promise<Response> {
+  try {
+    const read = await readJsonBody(request, MAX_BODY_BYTES);
+    if (!('body' in read)) {
+      return NextResponse.json({ message: read.message }, { status: read.status });
+    }
+
+    const { analysisId, correction, verdict, comment } = read.body || {};
+    if (typeof analysisId !== 'string' || !/^[a-f0-9]{64}$/i.test(analysisId)) {
+      return NextResponse.json({ message: 'analysisId must be the analysisId returned by /api/detect-scam' }, { status: 400 });
+    }
+    if (!CORRECTIONS.includes(correction)) {
+      return NextResponse.json({ message: `correction must be one of: ${CORRECTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (!verdict || typeof verdict.isScam !== 'boolean') {
+      return NextResponse.json({ message: 'verdict must include isScam (the verdict you were shown)' }, { status: 400 });
+    }
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+      return NextResponse.json({ message: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+    }
+
+    // Prefer the cached verdict over what the client says it was shown
+    const key = analysisId.toLowerCase();
+    const cached = await getResponseCache().getEntry(key);
+    const { feedback, replaced } = await getFeedbackStore().submit({
+      analysisId: key,
+      correction,
+      verdict: cached
+        ? { isScam: !!cached.data?.isScam, probability: cached.probability, riskLevel: cached.riskLevel }
+        : {
+          isScam: verdict.isScam,
+          probability: typeof verdict.probability === 'number' ? verdict.probability : null,
+          riskLevel: typeof verdict.riskLevel === 'string' ? verdict.riskLevel : null
+        },
+      contentHash: cached?.contentHash || null,
+      contentPreview: cached?.contentPreview || null,
+      comment: comment?.trim() || undefined,
+      reporterIp: clientIp(request)
+    });
+    console.log(`🗳️ Verdict feedback ${feedback.id}: ${correction} for ${key.substring(0, 12)}...`);
+
+    return NextResponse.json({
+      message: 'Thank you - your feedback will be reviewed',
+      feedbackId: feedback.id,
+      replaced
+    }, { status: replaced ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error in /api/feedback:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupCommunityReports } from '../../../lib/community/reports';
+
+// Look up earlier community reports: ?url=..., ?phone=..., ?text=... or ?fingerprint=<sha256>
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const url = searchParams.get('url')?.trim() || undefined;
+  const phone = searchParams.get('phone')?.trim() || undefined;
+  const text = searchParams.get('text')?.trim() || undefined;
+  const fingerprint = searchParams.get('fingerprint')?.trim() || undefined;
+
+  if (!url && !phone && !text && !fingerprint) {
+    return NextResponse.json({ message: 'Provide at least one of url, phone, text or fingerprint' }, { status: 400 });
+  }
+  if (fingerprint && !/^[a-f0-9]{64}$/i.test(fingerprint)) {
+    return NextResponse.json({ message: 'fingerprint must be a hex SHA-256 of the trimmed text' }, { status: 400 });
+  }
+
+  try {
+    const summary = await lookupCommunityReports({ url, phone, text, fingerprint });
+    return NextResponse.json(summary);
+  } catch (error: any) {
+    console.error('Error in /api/reports/lookup:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
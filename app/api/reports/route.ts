@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResponseCache } from '../../lib/cache';
+import { clientIp } from '../../lib/admin/auth';
+import { withAccessControl } from '../../lib/access/control';
+import { readJsonBody } from '../../lib/api/body';
+import { submitCommunityReport } from '../../lib/community/reports';
+
+const MAX_BODY_BYTES = 32 * 1024;
+const MAX_CONTENT_LENGTH = 10000;
+const MAX_COMMENT_LENGTH = 500;
+
+// Confirm "I received this and it is a scam":
+// { "content": "<the message>", "analysisId": "<analysisId from /api/detect-scam>", "confirmed": true, "comment"?: "..." }
+// Reports count against the caller's rate limits like analyses do.
+export async function POST(request: NextRequest) {
+  return withAccessControl(request, () => submit(request));
+}
+
+async function submit(request: NextRequest): Promise<Response> {
+  try {
+    const read = await readJsonBody(request, MAX_BODY_BYTES);
+    if (!('body' in read)) {
+      return NextResponse.json({ message: read.message }, { status: read.status });
+    }
+
+    const { content, analysisId, confirmed, comment } = read.body || {};
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ message: 'content (the message you received) is required' }, { status: 400 });
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ message: `content must be at most ${MAX_CONTENT_LENGTH} characters` }, { status: 400 });
+    }
+    if (confirmed !== true) {
+      return NextResponse.json({ message: 'Set confirmed to true to confirm you received this content and it is a scam' }, { status: 400 });
+    }
+    if (analysisId !== undefined && analysisId !== null && (typeof analysisId !== 'string' || !/^[a-f0-9]{64}$/i.test(analysisId))) {
+      return NextResponse.json({ message: 'analysisId must be the analysisId returned by /api/detect-scam' }, { status: 400 });
+    }
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+      return NextResponse.json({ message: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+    }
+
+    // Keep a snapshot of the verdict the user was shown while it is still cached
+    const cached = analysisId ? await getResponseCache().getEntry(analysisId.toLowerCase()) : null;
+    const { report, duplicate } = await submitCommunityReport({
+      content,
+      analysisId: analysisId ? analysisId.toLowerCase() : null,
+      verdict: cached ? { probability: cached.probability, riskLevel: cached.riskLevel } : null,
+      reporterIp: clientIp(request),
+      comment: comment?.trim() || undefined
+    });
+
+    return NextResponse.json({
+      message: duplicate ? 'You already reported this content - thank you' : 'Thank you for reporting this scam',
+      reportId: report.id,
+      duplicate
+    }, { status: duplicate ? 200 : 201 });
+  } catch (error: any) {
+    console.error('Error in /api/reports:', error);
+    return NextResponse.json({ message: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
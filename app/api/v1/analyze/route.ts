@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisProvider } from '../../../lib/providers';
+import { validateAnalyzeRequest } from '../../../lib/api/analyze';
+import { apiErrorResponse, errorCodeForStatus } from '../../../lib/api/errors';
+import { identifyClient } from '../../../lib/access/control';
+import { POST as detectScam } from '../../detect-scam/route';
+
+// Headers of the v1 request that are not passed on to the detection route
+const NOT_FORWARDED = ['content-length', 'content-type', 'transfer-encoding'];
+// Headers of the detection route's answer that only apply to the legacy route
+const LEGACY_ONLY = ['deprecation', 'link', 'sunset'];
+
+// Analyze a message, image or voice recording (see app/lib/api/types.ts for the contract):
+// { "content"?: "...", "imageBase64"?: "...", "audioBase64"?: "...", "sender"?: "GCash" }
+// Answers with the detection result, or with stage events when requested with Accept: application/x-ndjson.
+// Errors use the v1 format { "error": { "code", "message", "status", "details"? } }.
+export async function POST(request: NextRequest) {
+  try {
+    // Credentials are checked before the body; the request is counted against the limits by the detection route
+    const identified = await identifyClient(request);
+    if ('denial' in identified) {
+      const { status, message, headers } = identified.denial;
+      return apiErrorResponse('unauthorized', message, status, undefined, headers);
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return apiErrorResponse('invalid_request', 'Request body must be valid JSON', 400);
+    }
+
+    const validated = validateAnalyzeRequest(body);
+    if ('details' in validated) {
+      return apiErrorResponse('invalid_request', 'The request is invalid', 400, validated.details);
+    }
+    if (!getAnalysisProvider().isConfigured()) {
+      return apiErrorResponse('service_unavailable', 'Analysis is not available right now. Please try again later.', 503);
+    }
+
+    // The analysis itself is the detection route's; forward the caller's headers (Accept, client IP) like a direct request
+    const headers = new Headers();
+    request.headers.forEach((value, name) => {
+      if (!NOT_FORWARDED.includes(name.toLowerCase())) headers.set(name, value);
+    });
+    headers.set('Content-Type', 'application/json');
+    const response = await detectScam(new NextRequest(new URL('/api/detect-scam', request.url), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(validated.request)
+    }));
+
+    // Rate-limit and authentication headers are kept, on errors too
+    const answerHeaders = new Headers(response.headers);
+    LEGACY_ONLY.forEach(name => answerHeaders.delete(name));
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      answerHeaders.delete('content-type');
+      answerHeaders.delete('content-length');
+      return apiErrorResponse(errorCodeForStatus(response.status), result.message || 'Analysis failed', response.status, undefined, answerHeaders);
+    }
+    // JSON results and event streams are passed through as they are
+    return new NextResponse(response.body, { status: response.status, headers: answerHeaders });
+  } catch (error: any) {
+    console.error('Error in /api/v1/analyze:', error);
+    return apiErrorResponse('internal_error', error.message || 'Internal Server Error', 500);
+  }
+}
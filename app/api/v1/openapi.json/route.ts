@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import openApiDocument from '../../../lib/api/openapi.json';
+
+// OpenAPI document of the v1 API, generated from app/lib/api/types.ts with `npm run api:openapi`
+export async function GET() {
+  return NextResponse.json(openApiDocument);
+}
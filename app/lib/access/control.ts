@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientIp } from '../admin/auth';
+import { ApiKeyRecord, getApiKeyStore } from './keys';
+import { CounterState, LimitCounter, getRateLimitStore } from './limiter';
+
+// Access control for the detection API. Requests with an API key ("Authorization: Bearer <key>" or
+// "x-api-key: <key>") are charged to the key, others to the client address, each with a per-minute rate
+// limit and a daily quota (UTC days). Keyless requests can be refused altogether with API_KEYS_REQUIRED=true;
+// they stay allowed by default because the /analysis page calls the API from the browser.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DEFAULT_KEY_PER_MINUTE = 60;
+const DEFAULT_KEY_PER_DAY = 1000;
+const DEFAULT_IP_PER_MINUTE = 10;
+const DEFAULT_IP_PER_DAY = 100;
+
+const limitFromEnv = (name: string, fallback: number) => {
+  const limit = Number(process.env[name]);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+};
+
+export const apiKeysRequired = () => process.env.API_KEYS_REQUIRED === 'true';
+
+// Limits of a key: its own overrides, or the defaults for keys
+export const keyLimits = (record: ApiKeyRecord) => ({
+  perMinute: record.limits.perMinute || limitFromEnv('API_KEY_RATE_PER_MINUTE', DEFAULT_KEY_PER_MINUTE),
+  perDay: record.limits.perDay || limitFromEnv('API_KEY_DAILY_QUOTA', DEFAULT_KEY_PER_DAY)
+});
+
+const ipLimits = () => ({
+  perMinute: limitFromEnv('IP_RATE_PER_MINUTE', DEFAULT_IP_PER_MINUTE),
+  perDay: limitFromEnv('IP_DAILY_QUOTA', DEFAULT_IP_PER_DAY)
+});
+
+export type ApiClient = { kind: 'key'; key: ApiKeyRecord } | { kind: 'ip'; ip: string };
+
+export interface AccessDenial {
+  status: 401 | 429;
+  message: string;
+  headers: Record<string, string>;
+}
+
+// Requests the server makes itself (analysis jobs), counted when they were submitted
+const internalRequests = new WeakSet<Request>();
+
+// Exempt a request built by the server from the access checks
+export function markInternal<T extends Request>(request: T): T {
+  internalRequests.add(request);
+  return request;
+}
+
+const presentedKey = (request: Request): string | null => {
+  const authorization = request.headers.get('authorization') || '';
+  const key = authorization.startsWith('Bearer ') ? authorization.substring(7) : request.headers.get('x-api-key') || '';
+  return key.trim() || null;
+};
+
+/**
+ * Identify who a request is charged to, without counting it
+ * @returns The key or client address, or the 401 to answer with for unknown keys and (when keys are
+ * required) keyless requests
+ */
+export async function identifyClient(request: NextRequest): Promise<{ client: ApiClient } | { denial: AccessDenial }> {
+  const key = presentedKey(request);
+  if (key) {
+    const record = await getApiKeyStore().verify(key);
+    if (record) return { client: { kind: 'key', key: record } };
+    return { denial: { status: 401, message: 'Invalid or revoked API key', headers: { 'WWW-Authenticate': 'Bearer' } } };
+  }
+  if (apiKeysRequired()) {
+    return {
+      denial: {
+        status: 401,
+        message: 'An API key is required. Send it as "Authorization: Bearer <key>" or in the x-api-key header.',
+        headers: { 'WWW-Authenticate': 'Bearer' }
+      }
+    };
+  }
+  // Without a trusted proxy (TRUSTED_PROXY_HOPS) the address is unknown, and keyless clients share one limit
+  return { client: { kind: 'ip', ip: clientIp(request) || 'unknown' } };
+}
+
+const nextUtcDay = (now: number) => (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+
+// The counters a client's requests are charged to: [per minute, per day]. A batch counts once towards
+// the per-minute limit, which guards against bursts of requests, and once per item towards the quota.
+function countersFor(client: ApiClient, now: number, requests: number): LimitCounter[] {
+  const limits = client.kind === 'key' ? keyLimits(client.key) : ipLimits();
+  const subject = client.kind === 'key' ? `key:${client.key.id}` : `ip:${client.ip}`;
+  return [
+    { key: `${subject}:minute`, limit: limits.perMinute, resetAt: (Math.floor(now / MINUTE_MS) + 1) * MINUTE_MS },
+    { key: `${subject}:day`, limit: limits.perDay, resetAt: nextUtcDay(now), amount: requests }
+  ];
+}
+
+const secondsUntil = (time: number, now: number) => Math.max(0, Math.ceil((time - now) / 1000));
+
+// RateLimit-* headers (IETF httpapi draft) for the counter closest to its limit, and the policy of both
+function rateLimitHeaders(counters: LimitCounter[], states: CounterState[], now: number): Record<string, string> {
+  const remaining = counters.map((counter, index) => Math.max(0, counter.limit - states[index].count));
+  const tightest = remaining.indexOf(Math.min(...remaining));
+  return {
+    'RateLimit-Limit': String(counters[tightest].limit),
+    'RateLimit-Remaining': String(remaining[tightest]),
+    'RateLimit-Reset': String(secondsUntil(states[tightest].resetAt, now)),
+    'RateLimit-Policy': `${counters[0].limit};w=${MINUTE_MS / 1000}, ${counters[1].limit};w=${DAY_MS / 1000}`
+  };
+}
+
+/**
+ * Identify a request's client and count the request against its limits
+ * @param requests - Analyses the request asks for, e.g. the items of a batch; all of them must fit in
+ * the remaining daily quota, or none is counted
+ * @returns The rate-limit headers to answer with, or the 401/429 to answer with instead
+ */
+export async function checkAccess(request: NextRequest, requests = 1): Promise<{ headers: Record<string, string> } | { denial: AccessDenial }> {
+  if (internalRequests.has(request)) return { headers: {} };
+
+  const identified = await identifyClient(request);
+  if ('denial' in identified) return identified;
+
+  const now = Date.now();
+  const counters = countersFor(identified.client, now, requests);
+  const { allowed, states } = await getRateLimitStore().consume(counters, now);
+  const headers = rateLimitHeaders(counters, states, now);
+  if (allowed) return { headers };
+
+  const [perMinute, perDay] = counters;
+  const quotaLeft = Math.max(0, perDay.limit - states[1].count);
+  const dailyQuotaUsed = quotaLeft < requests;
+  const retryAt = dailyQuotaUsed ? states[1].resetAt : states[0].resetAt;
+  console.log(`🚦 Rate limited ${identified.client.kind === 'key' ? `API key ${identified.client.key.id}` : `address ${identified.client.ip}`}`);
+  return {
+    denial: {
+      status: 429,
+      message: dailyQuotaUsed
+        ? requests > 1 && quotaLeft > 0
+          ? `The batch has ${requests} items but only ${quotaLeft} of the daily quota of ${perDay.limit} requests are left; it resets at 00:00 UTC`
+          : `Daily quota of ${perDay.limit} requests used up; it resets at 00:00 UTC`
+        : `Too many requests; at most ${perMinute.limit} per minute are allowed`,
+      headers: { ...headers, 'Retry-After': String(secondsUntil(retryAt, now)) }
+    }
+  };
+}
+
+/**
+ * Run a handler of the detection API behind the access checks
+ * @returns The handler's response with the rate-limit headers, or a 401/429 { message } answer
+ */
+export async function withAccessControl(request: NextRequest, handler: () => Promise<Response>): Promise<Response> {
+  let access: Awaited<ReturnType<typeof checkAccess>>;
+  try {
+    access = await checkAccess(request);
+  } catch (error) {
+    console.error('❌ Access check failed:', error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+  if ('denial' in access) {
+    return NextResponse.json({ message: access.denial.message }, { status: access.denial.status, headers: access.denial.headers });
+  }
+
+  const response = await handler();
+  Object.entries(access.headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+export interface KeyUsage {
+  minute: { used: number; limit: number };
+  day: { used: number; limit: number; resetAt: string };
+}
+
+// Current usage of keys against their limits, for the admin listing
+export async function keyUsage(records: ApiKeyRecord[]): Promise<KeyUsage[]> {
+  const now = Date.now();
+  const states = await getRateLimitStore().peek(records.flatMap(record => [`key:${record.id}:minute`, `key:${record.id}:day`]), now);
+  return records.map((record, index) => {
+    const limits = keyLimits(record);
+    return {
+      minute: { used: states[index * 2]?.count || 0, limit: limits.perMinute },
+      day: { used: states[index * 2 + 1]?.count || 0, limit: limits.perDay, resetAt: new Date(nextUtcDay(now)).toISOString() }
+    };
+  });
+}
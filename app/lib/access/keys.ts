@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import path from 'path';
+import { JsonFileDocument } from '../storage/jsonDocument';
+
+// API keys for the detection API. Only a SHA-256 hash of each key is stored; the key itself is shown once,
+// when it is issued through the admin API.
+
+const KEY_PREFIX = 'tsk_';
+
+// Per-key overrides of the default limits (see app/lib/access/control.ts)
+export interface ApiKeyLimits {
+  perMinute?: number;
+  perDay?: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string; // Who the key was issued to, e.g. "Barangay hotline bot"
+  keyHash: string; // SHA-256 of the key
+  keyPreview: string; // First characters of the key, to recognise it in listings
+  limits: ApiKeyLimits;
+  createdAt: string;
+  createdBy: string; // Admin actor that issued the key
+  revokedAt?: string;
+}
+
+interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export class ApiKeyStore {
+  private readonly document: JsonFileDocument<ApiKeyFile>;
+
+  constructor(filePath: string) {
+    this.document = new JsonFileDocument<ApiKeyFile>(filePath, () => ({ keys: [] }), 'API key');
+  }
+
+  /**
+   * Issue a new key
+   * @returns The stored record and the key itself, which cannot be recovered later
+   */
+  async issue(name: string, limits: ApiKeyLimits, createdBy: string): Promise<{ record: ApiKeyRecord; key: string }> {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name,
+      keyHash: hashKey(key),
+      keyPreview: key.substring(0, KEY_PREFIX.length + 6),
+      limits,
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+    await this.document.update(file => {
+      file.keys.push(record);
+    });
+    return { record: { ...record }, key };
+  }
+
+  // The active key matching a presented key, or null for unknown and revoked keys
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+    const keyHash = hashKey(key);
+    return this.document.read(file => {
+      const record = file.keys.find(candidate => candidate.keyHash === keyHash && !candidate.revokedAt);
+      return record ? { ...record } : null;
+    });
+  }
+
+  list(): Promise<ApiKeyRecord[]> {
+    return this.document.read(file => file.keys.map(record => ({ ...record })));
+  }
+
+  // Revoke a key; returns null when there is no key with that id
+  revoke(id: string): Promise<ApiKeyRecord | null> {
+    return this.document.update(file => {
+      const record = file.keys.find(candidate => candidate.id === id);
+      if (!record) return null;
+      record.revokedAt = record.revokedAt || new Date().toISOString();
+      return { ...record };
+    });
+  }
+}
+
+export const apiKeysPath = () => process.env.API_KEYS_PATH || path.join(process.cwd(), '.data', 'api-keys.json');
+
+// Global store instance, kept on globalThis so dev-server hot reloads reuse it
+const globalForKeys = globalThis as unknown as { apiKeyStore?: ApiKeyStore };
+
+export function getApiKeyStore(): ApiKeyStore {
+  if (!globalForKeys.apiKeyStore) {
+    globalForKeys.apiKeyStore = new ApiKeyStore(apiKeysPath());
+  }
+  return globalForKeys.apiKeyStore;
+}
@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Fixed-window request counters behind the rate limits and daily quotas. Stores only count; which
+// counters a request is charged to, and their limits, are decided in app/lib/access/control.ts.
+
+// A counter a request is charged to, e.g. "key:<id>:day", with its limit and the end of its window
+export interface LimitCounter {
+  key: string;
+  limit: number;
+  resetAt: number; // Unix time in milliseconds; the count starts again from 0 at this time
+  amount?: number; // Requests to count at once (default 1), e.g. the items of a batch
+}
+
+export interface CounterState {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  // Identifier used in configuration (RATE_LIMIT_BACKEND) and logs
+  name: string;
+  // Count a request against every counter (its amount, default 1), unless that would take one of them
+  // past its limit; in that case nothing is counted. Returns the state of each counter afterwards, in order.
+  consume(counters: LimitCounter[], now: number): Promise<{ allowed: boolean; states: CounterState[] }>;
+  // Current state of counters, without counting; expired and unknown counters are null
+  peek(keys: string[], now: number): Promise<Array<CounterState | null>>;
+}
+
+interface CounterTable {
+  counters: Record<string, CounterState>;
+}
+
+// Shared by both stores, so they behave the same. Expired counters are dropped on every change.
+function consumeCounters(table: CounterTable, counters: LimitCounter[], now: number) {
+  for (const [key, state] of Object.entries(table.counters)) {
+    if (state.resetAt <= now) delete table.counters[key];
+  }
+
+  const current = counters.map(counter => table.counters[counter.key] || { count: 0, resetAt: counter.resetAt });
+  const allowed = counters.every((counter, index) => current[index].count + (counter.amount ?? 1) <= counter.limit);
+  if (allowed) {
+    counters.forEach((counter, index) => {
+      table.counters[counter.key] = { count: current[index].count + (counter.amount ?? 1), resetAt: current[index].resetAt };
+    });
+  }
+  return { allowed, states: counters.map(counter => ({ ...(table.counters[counter.key] || { count: 0, resetAt: counter.resetAt }) })) };
+}
+
+const peekCounters = (table: CounterTable, keys: string[], now: number) =>
+  keys.map(key => {
+    const state = table.counters[key];
+    return state && state.resetAt > now ? { ...state } : null;
+  });
+
+// Process-local counters; limits apply per server instance and restart with it
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private table: CounterTable = { counters: {} };
+
+  async consume(counters: LimitCounter[], now: number) {
+    return consumeCounters(this.table, counters, now);
+  }
+
+  async peek(keys: string[], now: number) {
+    return peekCounters(this.table, keys, now);
+  }
+}
+
+// Changed counters are written to the file at most this often
+const FILE_FLUSH_MS = 5000;
+
+// Counters kept in memory and saved to a JSON file, so quotas survive restarts. The file is read once,
+// on first use, and written at most every FILE_FLUSH_MS after a change, so up to that much counting is
+// lost when the process stops. Meant for one server instance: there is no lock, and instances sharing
+// the file overwrite each other's counts.
+export class FileRateLimitStore implements RateLimitStore {
+  readonly name = 'file';
+  private loading: Promise<CounterTable> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve(); // Serialises writes to the file
+
+  constructor(private readonly filePath: string) {}
+
+  private load(): Promise<CounterTable> {
+    if (!this.loading) this.loading = this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<CounterTable> {
+    try {
+      return { counters: JSON.parse(await fs.readFile(this.filePath, 'utf8')).counters || {} };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.error(`Rate limit file ${this.filePath} is unreadable, starting empty:`, error);
+      return { counters: {} };
+    }
+  }
+
+  private scheduleFlush(table: CounterTable): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.writing = this.writing
+        .then(() => this.persist(table))
+        .catch(error => console.error(`Rate limit file ${this.filePath} could not be written:`, error));
+    }, FILE_FLUSH_MS);
+    this.flushTimer.unref();
+  }
+
+  private async persist(table: CounterTable): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(table));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async consume(counters: LimitCounter[], now: number) {
+    const table = await this.load();
+    const result = consumeCounters(table, counters, now);
+    if (result.allowed) this.scheduleFlush(table);
+    return result;
+  }
+
+  async peek(keys: string[], now: number) {
+    return peekCounters(await this.load(), keys, now);
+  }
+}
+
+const DEFAULT_BACKEND = 'memory';
+const DEFAULT_RATE_LIMIT_FILE = path.join(process.cwd(), '.data', 'rate-limits.json');
+
+// Build the store selected through the RATE_LIMIT_BACKEND environment variable
+export function createRateLimitStore(): RateLimitStore {
+  const backend = (process.env.RATE_LIMIT_BACKEND || DEFAULT_BACKEND).trim().toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'file':
+      return new FileRateLimitStore(process.env.RATE_LIMIT_PATH || DEFAULT_RATE_LIMIT_FILE);
+    default:
+      console.warn(`Unknown RATE_LIMIT_BACKEND "${backend}", falling back to "${DEFAULT_BACKEND}"`);
+      return new MemoryRateLimitStore();
+  }
+}
+
+// Global store instance, kept on globalThis so dev-server hot reloads keep the counts
+const globalForLimits = globalThis as unknown as { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForLimits.rateLimitStore) {
+    globalForLimits.rateLimitStore = createRateLimitStore();
+    console.log(`🚦 Rate limit store initialised (${globalForLimits.rateLimitStore.name})`);
+  }
+  return globalForLimits.rateLimitStore;
+}
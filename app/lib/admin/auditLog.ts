@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface AuditLogEntry {
+  timestamp: string;
+  actor: string; // "token" or the session subject; "anonymous" for rejected requests
+  action: string; // e.g. "cache.purge"
+  outcome: 'success' | 'denied' | 'error';
+  ip: string | null;
+  target?: string; // Cache key or content hash the action applied to
+  details?: Record<string, unknown>;
+}
+
+const DEFAULT_AUDIT_LOG = path.join(process.cwd(), '.data', 'admin-audit.jsonl');
+
+const auditLogPath = () => process.env.ADMIN_AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG;
+
+/**
+ * Append an entry to the admin audit log (one JSON object per line)
+ * @param entry - The action to record; the timestamp is added automatically
+ */
+export async function recordAuditEvent(entry: Omit<AuditLogEntry, 'timestamp'>): Promise<void> {
+  const record: AuditLogEntry = { timestamp: new Date().toISOString(), ...entry };
+  console.log(`📝 Admin audit: ${record.actor} ${record.action} -> ${record.outcome}`);
+
+  try {
+    const filePath = auditLogPath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify(record) + '\n');
+  } catch (error) {
+    // Losing an audit line should be visible in the server logs but must not fail the action itself
+    console.error('Failed to write admin audit log:', error);
+  }
+}
+
+/**
+ * Read the most recent audit log entries
+ * @param limit - Maximum number of entries to return
+ * @returns Entries, newest first
+ */
+export async function readAuditLog(limit = 100): Promise<AuditLogEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(auditLogPath(), 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: AuditLogEntry[] = [];
+  const lines = raw.split('\n').filter(line => line.trim());
+  for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+    try {
+      entries.push(JSON.parse(lines[i]));
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return entries;
+}
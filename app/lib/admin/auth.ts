@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60; // 8 hours
+
+export type AdminAuthResult =
+  | { ok: true; actor: string }
+  | { ok: false; status: 401 | 503; message: string };
+
+const adminToken = () => process.env.ADMIN_TOKEN || '';
+// Sessions are signed with ADMIN_SESSION_SECRET, or the admin token when no separate secret is set
+const sessionSecret = () => process.env.ADMIN_SESSION_SECRET || adminToken();
+
+export const sessionTtlSeconds = () => Number(process.env.ADMIN_SESSION_TTL_SECONDS) || DEFAULT_SESSION_TTL_SECONDS;
+
+// Constant-time string comparison to avoid leaking the token through timing
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+const sign = (payload: string) => crypto.createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+
+export const isAdminEnabled = () => adminToken().length > 0;
+
+export const isValidAdminToken = (token: string) => isAdminEnabled() && safeEqual(token, adminToken());
+
+/**
+ * Create a signed session value for the admin session cookie
+ * @param subject - Name recorded as the actor in the audit log
+ * @returns "<payload>.<signature>" where payload is base64url JSON { sub, exp }
+ */
+export function createAdminSession(subject: string): string {
+  const payload = Buffer.from(JSON.stringify({
+    sub: subject,
+    exp: Math.floor(Date.now() / 1000) + sessionTtlSeconds()
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the session subject, or null for missing, tampered or expired sessions
+function verifyAdminSession(value: string): string | null {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp * 1000 < Date.now()) return null;
+    return sub;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Authenticate an admin request by bearer token, x-admin-token header or signed session cookie
+ * @param request - The incoming request
+ * @returns The actor name on success, or the status and message to respond with
+ */
+export function authenticateAdmin(request: NextRequest): AdminAuthResult {
+  if (!isAdminEnabled()) {
+    return { ok: false, status: 503, message: 'Admin API is disabled. Set ADMIN_TOKEN to enable it.' };
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const token = authorization.startsWith('Bearer ')
+    ? authorization.substring(7).trim()
+    : request.headers.get('x-admin-token') || '';
+  if (token && isValidAdminToken(token)) {
+    return { ok: true, actor: 'token' };
+  }
+
+  const session = request.cookies.get(ADMIN_SESSION_COOKIE)?.value;
+  const subject = session ? verifyAdminSession(session) : null;
+  if (subject) {
+    return { ok: true, actor: subject };
+  }
+
+  return { ok: false, status: 401, message: 'Admin authentication required' };
+}
+
+const trustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+// Client address for rate limits, report deduplication and the audit log, or null when it is unknown.
+// Each of the TRUSTED_PROXY_HOPS proxies in front of the server appends the address it was connected
+// from to x-forwarded-for, so the entry that many places from the right is the client's; entries further
+// left are sent by the client and can be forged. Without a trusted proxy the whole header comes from the
+// client (Next.js only fills it in when it is missing) and route handlers cannot see the socket address,
+// so the address is unknown.
+export const clientIp = (request: NextRequest): string | null => {
+  const trustedHops = trustedProxyHops();
+  if (trustedHops === 0) return null;
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  // Fewer entries than proxies: the request did not come through all of them
+  return hops.length >= trustedHops ? hops[hops.length - trustedHops] : null;
+};
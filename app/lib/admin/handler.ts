@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, clientIp } from './auth';
+import { recordAuditEvent } from './auditLog';
+
+// Thrown inside admin actions for invalid input; becomes a 4xx response instead of a 500
+export class AdminRequestError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'AdminRequestError';
+  }
+}
+
+export interface AdminActionResult {
+  body: any;
+  status?: number;
+  target?: string; // Recorded in the audit log
+  details?: Record<string, unknown>; // Recorded in the audit log
+}
+
+/**
+ * Authenticate an admin request, run the action and record the outcome in the audit log
+ * @param request - The incoming request
+ * @param action - Audit log action name, e.g. "cache.purge"
+ * @param handler - The action itself, given the authenticated actor
+ * @returns JSON response from the action, or an error response
+ */
+export async function runAdminAction(
+  request: NextRequest,
+  action: string,
+  handler: (actor: string) => Promise<AdminActionResult>
+): Promise<NextResponse> {
+  const ip = clientIp(request);
+  const auth = authenticateAdmin(request);
+
+  if (!auth.ok) {
+    if (auth.status === 401) {
+      await recordAuditEvent({ actor: 'anonymous', action, outcome: 'denied', ip });
+    }
+    return NextResponse.json({ message: auth.message }, { status: auth.status });
+  }
+
+  try {
+    const result = await handler(auth.actor);
+    await recordAuditEvent({
+      actor: auth.actor,
+      action,
+      outcome: 'success',
+      ip,
+      target: result.target,
+      details: result.details
+    });
+    return NextResponse.json(result.body, { status: result.status || 200 });
+  } catch (error: any) {
+    const status = error instanceof AdminRequestError ? error.status : 500;
+    await recordAuditEvent({
+      actor: auth.actor,
+      action,
+      outcome: 'error',
+      ip,
+      details: { message: error?.message || 'Unknown error' }
+    });
+    if (status === 500) {
+      console.error(`Error in admin action ${action}:`, error);
+    }
+    return NextResponse.json({ message: error?.message || 'Internal Server Error' }, { status });
+  }
+}
+
+// Parse a JSON request body, treating an empty body as {}
+export async function readJsonBody(request: NextRequest): Promise<any> {
+  const text = await request.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AdminRequestError('Request body must be valid JSON');
+  }
+}
@@ -0,0 +1,33 @@
+import type { AnalyzeRequest, ApiErrorDetail } from './types';
+
+const MAX_SENDER_LENGTH = 64;
+const MEDIA_FIELDS = ['imageBase64', 'audioBase64'] as const;
+
+/**
+ * Check the body of POST /api/v1/analyze; unlike the legacy route every problem is reported, per field
+ * @returns The request, or the problems found
+ */
+export function validateAnalyzeRequest(body: any): { request: AnalyzeRequest } | { details: ApiErrorDetail[] } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { details: [{ field: '(body)', message: 'The body must be a JSON object' }] };
+  }
+
+  const details: ApiErrorDetail[] = [];
+  const { content, imageBase64, audioBase64, sender } = body;
+  if (content !== undefined && typeof content !== 'string') {
+    details.push({ field: 'content', message: 'content must be a string' });
+  }
+  for (const field of MEDIA_FIELDS) {
+    if (body[field] !== undefined && (typeof body[field] !== 'string' || body[field].startsWith('data:'))) {
+      details.push({ field, message: `${field} must be a base64 string without the "data:" prefix` });
+    }
+  }
+  if (sender !== undefined && (typeof sender !== 'string' || sender.length > MAX_SENDER_LENGTH)) {
+    details.push({ field: 'sender', message: `sender must be a string of at most ${MAX_SENDER_LENGTH} characters` });
+  }
+  if (!(typeof content === 'string' && content.trim()) && !imageBase64 && !audioBase64) {
+    details.push({ field: 'content', message: 'Either content, imageBase64 or audioBase64 is required' });
+  }
+
+  return details.length > 0 ? { details } : { request: { content, imageBase64, audioBase64, sender } };
+}
@@ -0,0 +1,29 @@
+/**
+ * Read a small JSON request body (reports, feedback). A body over the limit is refused before it is
+ * parsed, whether or not the client declared its length
+ * @returns The parsed body, or the 400/413 { message } to answer with
+ */
+export async function readJsonBody(request: Request, maxBytes: number): Promise<{ body: any } | { status: 400 | 413; message: string }> {
+  const tooLarge = { status: 413 as const, message: `Request body must be at most ${maxBytes} bytes` };
+  if (Number(request.headers.get('content-length')) > maxBytes) return tooLarge;
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return tooLarge;
+      }
+      chunks.push(chunk.value);
+    }
+  }
+
+  try {
+    return { body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+  } catch {
+    return { status: 400, message: 'Request body must be valid JSON' };
+  }
+}
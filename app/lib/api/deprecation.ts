@@ -0,0 +1,23 @@
+// Deprecation of the unversioned /api/detect-scam route, which stays available as an alias of
+// /api/v1/analyze with its original request and response shapes. Answers carry the Deprecation header
+// (RFC 9745) and a link to the successor; once a removal date is set with LEGACY_API_SUNSET (an HTTP
+// date, announced at least six months ahead) they also carry the Sunset header (RFC 8594).
+
+// When /api/v1/analyze was introduced
+const LEGACY_DEPRECATED_AT = Date.UTC(2026, 9, 18);
+
+export const LEGACY_SUCCESSOR = '/api/v1/analyze';
+
+/**
+ * Add the deprecation headers to an answer of the legacy route
+ * @returns The same response, for chaining
+ */
+export function withLegacyHeaders<T extends Response>(response: T): T {
+  response.headers.set('Deprecation', `@${Math.floor(LEGACY_DEPRECATED_AT / 1000)}`);
+  response.headers.set('Link', `<${LEGACY_SUCCESSOR}>; rel="successor-version"`);
+  const sunset = process.env.LEGACY_API_SUNSET;
+  if (sunset && !Number.isNaN(Date.parse(sunset))) {
+    response.headers.set('Sunset', new Date(sunset).toUTCString());
+  }
+  return response;
+}
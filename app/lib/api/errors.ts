@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import type { ApiError, ApiErrorCode, ApiErrorDetail } from './types';
+
+// Error answers of the v1 API: { "error": { "code", "message", "status", "details"? } }
+
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  429: 'rate_limited',
+  503: 'service_unavailable'
+};
+
+// Error code for an HTTP status, used for answers passed on from the legacy route
+export const errorCodeForStatus = (status: number): ApiErrorCode =>
+  CODE_BY_STATUS[status] || (status >= 500 ? 'internal_error' : 'invalid_request');
+
+/**
+ * Build a v1 error answer
+ * @param details - Field-level problems, for invalid_request
+ */
+export function apiErrorResponse(
+  code: ApiErrorCode,
+  message: string,
+  status: number,
+  details?: ApiErrorDetail[],
+  headers?: HeadersInit
+): NextResponse<ApiError> {
+  return NextResponse.json({
+    error: { code, message, status, ...(details && details.length > 0 ? { details } : {}) }
+  }, { status, headers });
+}
@@ -0,0 +1,45 @@
+import type { ScamDetectionResult } from '../../analysis/interfaces';
+import type { StageEvent } from '../streaming/stages';
+
+// Contract of the public, versioned API (/api/v1). The OpenAPI document (app/lib/api/openapi.json) is
+// generated from these types with `npm run api:openapi`; regenerate it whenever they, or the types they
+// refer to, change. Within v1 only additive changes are allowed: new optional request fields, new response
+// fields and new error codes. Anything else needs a new version (see "Public API" in the README).
+
+export const API_VERSION = 'v1';
+
+// Body of POST /api/v1/analyze; at least one of content, imageBase64 and audioBase64 is required
+export interface AnalyzeRequest {
+  content?: string; // Message text, or a URL to check
+  imageBase64?: string; // Screenshot or photo, base64 without the "data:" prefix
+  audioBase64?: string; // Voice recording, base64 without the "data:" prefix
+  sender?: string; // SMS sender ID or short code shown by the phone, at most 64 characters
+}
+
+// Successful answer of POST /api/v1/analyze
+export type AnalyzeResponse = ScamDetectionResult;
+
+// One line of the application/x-ndjson answer of POST /api/v1/analyze
+export type AnalyzeStageEvent = StageEvent;
+
+export type ApiErrorCode =
+  | 'invalid_request' // The body is not valid JSON or a field is missing or malformed (see details)
+  | 'unauthorized' // Unknown or revoked API key, or no key while keys are required
+  | 'rate_limited' // Rate limit or daily quota reached; retry after the Retry-After header
+  | 'service_unavailable' // The analysis provider is not configured or temporarily unavailable
+  | 'internal_error';
+
+export interface ApiErrorDetail {
+  field: string; // Request field the problem is about, e.g. "sender"
+  message: string;
+}
+
+// Body of every error answer of the v1 API
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string; // Human-readable, may change between releases; match on code instead
+    status: number; // HTTP status of the answer
+    details?: ApiErrorDetail[];
+  };
+}
@@ -0,0 +1,125 @@
+// Bulk triage: many submissions analyzed in one request (an exported inbox of reported SMS, for example).
+// Every item goes through the regular detection pipeline, so cached verdicts, the blocklist and the
+// allowlist apply exactly as they do for single requests; this module only validates the batch, bounds
+// how many items are analyzed at once and summarises the results.
+
+export interface BatchItem {
+  id: string; // Caller's identifier, or the item's position in the batch
+  content?: string;
+  imageBase64?: string;
+  audioBase64?: string;
+  sender?: string;
+}
+
+export interface BatchItemResult {
+  id: string;
+  index: number;
+  status: 'ok' | 'error';
+  result?: any; // The detection response, as /api/detect-scam returns it
+  error?: { status: number; message: string };
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  likelyScams: number; // Items with a probability of 50 or more
+  byRiskLevel: Record<string, number>;
+  byCategory: Record<string, number>; // Risk categories reported for the items (an item can have several)
+  byAnalysisMode: Record<string, number>; // "ai", "heuristic" or "blocklist"
+  durationMs: number;
+}
+
+const DEFAULT_MAX_ITEMS = 500;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_ID_LENGTH = 100;
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const batchMaxItems = () => positiveInt(process.env.BATCH_MAX_ITEMS, DEFAULT_MAX_ITEMS);
+export const batchConcurrency = () => positiveInt(process.env.BATCH_CONCURRENCY, DEFAULT_CONCURRENCY);
+
+/**
+ * Check the shape of a batch request body
+ * @returns The items, or a message describing what is wrong with the batch as a whole. Problems with a
+ * single item's content (missing text, oversized sender) are reported by the detection route for that item
+ */
+export function parseBatchItems(body: any): { items: BatchItem[] } | { error: string } {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'items must be a non-empty array of { content, imageBase64?, audioBase64?, sender?, id? }' };
+  }
+  if (items.length > batchMaxItems()) {
+    return { error: `A batch can contain at most ${batchMaxItems()} items` };
+  }
+
+  const parsed: BatchItem[] = [];
+  const ids = new Set<string>();
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { error: `items[${index}] must be an object` };
+    }
+    if (item.id !== undefined && (typeof item.id !== 'string' || !item.id.trim() || item.id.length > MAX_ID_LENGTH)) {
+      return { error: `items[${index}].id must be a non-empty string of at most ${MAX_ID_LENGTH} characters` };
+    }
+    const id = item.id?.trim() || String(index);
+    if (ids.has(id)) {
+      return { error: `items[${index}].id "${id}" is used more than once` };
+    }
+    ids.add(id);
+    parsed.push({ id, content: item.content, imageBase64: item.imageBase64, audioBase64: item.audioBase64, sender: item.sender });
+  }
+  return { items: parsed };
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// Aggregate counts over the items that were analyzed
+export function summarizeBatch(results: BatchItemResult[], durationMs: number): BatchSummary {
+  const summary: BatchSummary = {
+    total: results.length,
+    succeeded: 0,
+    failed: 0,
+    likelyScams: 0,
+    byRiskLevel: {},
+    byCategory: {},
+    byAnalysisMode: {},
+    durationMs
+  };
+  const count = (counts: Record<string, number>, key: string) => {
+    counts[key] = (counts[key] || 0) + 1;
+  };
+
+  for (const item of results) {
+    if (item.status !== 'ok') {
+      summary.failed++;
+      continue;
+    }
+    summary.succeeded++;
+    const result = item.result || {};
+    if (Number(result.probability) >= 50) summary.likelyScams++;
+    count(summary.byRiskLevel, result.riskLevel || 'Unknown');
+    count(summary.byAnalysisMode, result.analysisMode || 'unknown');
+    const categories: string[] = Array.isArray(result.detectedRiskCategories) ? result.detectedRiskCategories : [];
+    new Set(categories.filter(name => typeof name === 'string' && name.trim()).map(name => name.trim()))
+      .forEach(name => count(summary.byCategory, name));
+  }
+  return summary;
+}
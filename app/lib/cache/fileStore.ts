@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheEntry, CacheStore } from './types';
+
+interface CacheFileContents {
+  entries: Record<string, CacheEntry>;
+  counters: Record<string, number>;
+}
+
+const emptyContents = (): CacheFileContents => ({ entries: {}, counters: {} });
+
+// Hit and miss counts are collected in memory and written at most this often
+const COUNTER_FLUSH_MS = 5000;
+
+// Store backed by a single JSON file, so cached verdicts survive restarts. Meant for one server
+// instance: the file is rewritten atomically (temp file + rename) after every change, but there is no
+// lock between processes, so instances sharing the file overwrite each other's changes - use the redis
+// backend for several instances. Counter increments are batched, so up to COUNTER_FLUSH_MS of hit and
+// miss counts are lost when the process stops.
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+  private contents: CacheFileContents = emptyContents();
+  private loadedMtime = -1;
+  private queue: Promise<unknown> = Promise.resolve(); // Serialises file access within this process
+  private pendingCounters: Record<string, number> = {}; // Increments not written yet
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  // Run an operation after all earlier ones, with the latest file contents loaded
+  private run<T>(operation: () => T, write: boolean): Promise<T> {
+    const next = this.queue.then(async () => {
+      await this.reloadIfChanged();
+      const result = operation();
+      if (write) {
+        this.applyPendingCounters();
+        await this.persist();
+      }
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.contents = emptyContents();
+        this.loadedMtime = -1;
+        return;
+      }
+      throw error;
+    }
+
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.contents = {
+        entries: parsed.entries || {},
+        counters: parsed.counters || {}
+      };
+    } catch (error) {
+      console.error(`Cache file ${this.filePath} is unreadable, starting with an empty cache:`, error);
+      this.contents = emptyContents();
+    }
+    this.loadedMtime = mtime;
+  }
+
+  private applyPendingCounters(): void {
+    for (const [field, amount] of Object.entries(this.pendingCounters)) {
+      this.contents.counters[field] = (this.contents.counters[field] || 0) + amount;
+    }
+    this.pendingCounters = {};
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.contents));
+    await fs.rename(tempPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+
+  get(key: string): Promise<CacheEntry | null> {
+    return this.run(() => this.contents.entries[key] || null, false);
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    return this.run(() => {
+      this.contents.entries[key] = entry;
+    }, true);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.run(() => {
+      delete this.contents.entries[key];
+    }, true);
+  }
+
+  entries(): Promise<Array<[string, CacheEntry]>> {
+    return this.run(() => Object.entries(this.contents.entries), false);
+  }
+
+  size(): Promise<number> {
+    return this.run(() => Object.keys(this.contents.entries).length, false);
+  }
+
+  clear(): Promise<void> {
+    return this.run(() => {
+      this.contents.entries = {};
+    }, true);
+  }
+
+  // Counted in memory; written with the next change or after COUNTER_FLUSH_MS, whichever comes first
+  async incrementCounters(counters: Record<string, number>): Promise<void> {
+    for (const [field, amount] of Object.entries(counters)) {
+      this.pendingCounters[field] = (this.pendingCounters[field] || 0) + amount;
+    }
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.run(() => undefined, true).catch(error => console.error(`Cache file ${this.filePath} counters could not be written:`, error));
+    }, COUNTER_FLUSH_MS);
+    this.flushTimer.unref();
+  }
+
+  getCounters(): Promise<Record<string, number>> {
+    return this.run(() => {
+      const counters = { ...this.contents.counters };
+      for (const [field, amount] of Object.entries(this.pendingCounters)) {
+        counters[field] = (counters[field] || 0) + amount;
+      }
+      return counters;
+    }, false);
+  }
+
+  resetCounters(): Promise<void> {
+    return this.run(() => {
+      this.contents.counters = {};
+      this.pendingCounters = {};
+    }, true);
+  }
+}
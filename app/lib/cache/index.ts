@@ -0,0 +1,62 @@
+import path from 'path';
+import { CacheStore } from './types';
+import { MemoryCacheStore } from './memoryStore';
+import { FileCacheStore } from './fileStore';
+import { RedisCacheStore } from './redisStore';
+import { ResponseCache } from './responseCache';
+
+export type {
+  CacheEntry,
+  CacheEntryMeta,
+  CacheEntrySummary,
+  CacheLookup,
+  CacheMigrationResult,
+  CacheSnapshot,
+  CachePurgeCriteria,
+  CacheStore,
+  CacheStats,
+  CacheVersionGroup,
+  NearDuplicateMatch
+} from './types';
+export { ResponseCache, hashContent } from './responseCache';
+export { resolveCachePolicy } from './policy';
+export type { CachePolicyDecision } from './policy';
+
+const DEFAULT_BACKEND = 'memory';
+const DEFAULT_CACHE_FILE = path.join(process.cwd(), '.cache', 'response-cache.json');
+const DEFAULT_REDIS_URL = 'redis://127.0.0.1:6379';
+
+// Build the storage backend selected through the CACHE_BACKEND environment variable
+export function createCacheStore(): CacheStore {
+  const backend = (process.env.CACHE_BACKEND || DEFAULT_BACKEND).trim().toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryCacheStore();
+    case 'file':
+      return new FileCacheStore(process.env.CACHE_FILE_PATH || DEFAULT_CACHE_FILE);
+    case 'redis':
+      return new RedisCacheStore(
+        process.env.REDIS_URL || DEFAULT_REDIS_URL,
+        process.env.REDIS_KEY_PREFIX || undefined,
+        Number(process.env.REDIS_COMMAND_TIMEOUT_MS) || undefined
+      );
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${backend}", falling back to "${DEFAULT_BACKEND}"`);
+      return new MemoryCacheStore();
+  }
+}
+
+// Global cache instance, kept on globalThis so dev-server hot reloads reuse the same store
+const globalForCache = globalThis as unknown as { responseCache?: ResponseCache };
+
+export function getResponseCache(): ResponseCache {
+  if (!globalForCache.responseCache) {
+    globalForCache.responseCache = new ResponseCache(createCacheStore(), {
+      nearDuplicates: process.env.CACHE_NEAR_DUPLICATES !== 'false',
+      similarityThreshold: Number(process.env.CACHE_SIMILARITY_THRESHOLD) || undefined
+    });
+    console.log('📦 Response cache initialised');
+  }
+  return globalForCache.responseCache;
+}
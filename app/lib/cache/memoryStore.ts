@@ -0,0 +1,46 @@
+import { CacheEntry, CacheStore } from './types';
+
+// Process-local store. Entries and statistics are lost on restart or cold start.
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private cache = new Map<string, CacheEntry>();
+  private counters = new Map<string, number>();
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.cache.get(key) || null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.cache.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    return Array.from(this.cache.entries());
+  }
+
+  async size(): Promise<number> {
+    return this.cache.size;
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  async incrementCounters(counters: Record<string, number>): Promise<void> {
+    for (const [field, amount] of Object.entries(counters)) {
+      this.counters.set(field, (this.counters.get(field) || 0) + amount);
+    }
+  }
+
+  async getCounters(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.counters);
+  }
+
+  async resetCounters(): Promise<void> {
+    this.counters.clear();
+  }
+}
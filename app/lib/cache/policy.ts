@@ -0,0 +1,63 @@
+// Decides how long a formatted detection response may be cached, based on its verdict.
+
+const HOUR = 60 * 60 * 1000;
+
+export interface CachePolicyDecision {
+  cacheable: boolean;
+  ttl: number; // Milliseconds the entry is fresh
+  staleTtl: number; // Milliseconds after expiry the entry may still be served while it is re-analyzed
+  reason: string; // Which rule applied, for logs and admin listings
+}
+
+// TTLs per verdict class; override with CACHE_TTL_<CLASS>_HOURS / CACHE_STALE_<CLASS>_HOURS
+const POLICY_DEFAULTS = {
+  HIGH_RISK: { ttlHours: 7 * 24, staleHours: 24 }, // Confirmed scams rarely stop being scams
+  DEFAULT: { ttlHours: 24, staleHours: 6 },
+  LOW_CONFIDENCE: { ttlHours: 1, staleHours: 0 } // Re-check soon; never serve a stale uncertain verdict
+};
+
+type PolicyClass = keyof typeof POLICY_DEFAULTS;
+
+function hoursFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function decisionFor(policyClass: PolicyClass, reason: string): CachePolicyDecision {
+  const defaults = POLICY_DEFAULTS[policyClass];
+  return {
+    cacheable: true,
+    ttl: hoursFromEnv(`CACHE_TTL_${policyClass}_HOURS`, defaults.ttlHours) * HOUR,
+    staleTtl: hoursFromEnv(`CACHE_STALE_${policyClass}_HOURS`, defaults.staleHours) * HOUR,
+    reason
+  };
+}
+
+// Results that did not come from a completed AI analysis must never be cached
+function isIncomplete(response: any): boolean {
+  return (response?.analysisMode !== undefined && response.analysisMode !== 'ai') ||
+    String(response?.assessment || '').includes('Analysis Incomplete') ||
+    String(response?.status || '').includes('Analysis Incomplete');
+}
+
+/**
+ * Resolve the caching policy for a formatted detection response
+ * @param response - The response body that would be cached
+ * @returns Whether to cache it, and for how long it is fresh and may be served stale
+ */
+export function resolveCachePolicy(response: any): CachePolicyDecision {
+  if (!response || isIncomplete(response)) {
+    return { cacheable: false, ttl: 0, staleTtl: 0, reason: 'incomplete-analysis' };
+  }
+
+  const confidence = String(response.confidence || '').toLowerCase();
+  const probability = typeof response.probability === 'number' ? response.probability : 0;
+
+  if (confidence === 'low' || response.modelValidation?.repaired) {
+    return decisionFor('LOW_CONFIDENCE', response.modelValidation?.repaired ? 'repaired-output' : 'low-confidence');
+  }
+  if (response.isScam && probability >= 75 && confidence === 'high') {
+    return decisionFor('HIGH_RISK', 'confirmed-high-risk');
+  }
+  return decisionFor('DEFAULT', 'default');
+}
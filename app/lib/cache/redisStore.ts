@@ -0,0 +1,103 @@
+import { CacheEntry, CacheStore } from './types';
+import { RespClient } from './respClient';
+
+// Store backed by a Redis-compatible server, shared by every instance that points at it.
+// Entries live under "<prefix>entry:<key>" with a matching server-side expiry, a sorted set
+// ("<prefix>index", scored by timestamp) tracks them for listing and eviction, and statistics
+// are kept in the "<prefix>counters" hash.
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+  private readonly client: RespClient;
+
+  constructor(url: string, private readonly prefix = 'scam-detect:cache:', commandTimeoutMs?: number) {
+    this.client = new RespClient(url, undefined, commandTimeoutMs);
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}entry:${key}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.prefix}index`;
+  }
+
+  private get countersKey(): string {
+    return `${this.prefix}counters`;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const raw = await this.client.command('GET', this.entryKey(key));
+    if (raw === null) {
+      // Expired on the server - drop it from the index too
+      await this.client.command('ZREM', this.indexKey, key);
+      return null;
+    }
+    return JSON.parse(raw);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    // The server-side expiry is only a safety net; ResponseCache still checks TTLs itself
+    const remaining = Math.max(1, entry.timestamp + entry.ttl + (entry.staleTtl || 0) - Date.now());
+    await this.client.command('SET', this.entryKey(key), JSON.stringify(entry), 'PX', remaining);
+    await this.client.command('ZADD', this.indexKey, entry.timestamp, key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.entryKey(key));
+    await this.client.command('ZREM', this.indexKey, key);
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    const keys: string[] = await this.client.command('ZRANGE', this.indexKey, 0, -1);
+    if (keys.length === 0) return [];
+
+    const values: Array<string | null> = await this.client.command('MGET', ...keys.map(key => this.entryKey(key)));
+    const result: Array<[string, CacheEntry]> = [];
+    const missing: string[] = [];
+    keys.forEach((key, index) => {
+      const raw = values[index];
+      if (raw === null) {
+        missing.push(key);
+      } else {
+        result.push([key, JSON.parse(raw)]);
+      }
+    });
+
+    if (missing.length > 0) {
+      await this.client.command('ZREM', this.indexKey, ...missing);
+    }
+    return result;
+  }
+
+  async size(): Promise<number> {
+    return this.client.command('ZCARD', this.indexKey);
+  }
+
+  async clear(): Promise<void> {
+    const keys: string[] = await this.client.command('ZRANGE', this.indexKey, 0, -1);
+    // Delete in batches to keep individual commands small
+    for (let i = 0; i < keys.length; i += 500) {
+      await this.client.command('DEL', ...keys.slice(i, i + 500).map(key => this.entryKey(key)));
+    }
+    await this.client.command('DEL', this.indexKey);
+  }
+
+  async incrementCounters(counters: Record<string, number>): Promise<void> {
+    for (const [field, amount] of Object.entries(counters)) {
+      await this.client.command('HINCRBY', this.countersKey, field, amount);
+    }
+  }
+
+  async getCounters(): Promise<Record<string, number>> {
+    const flat: string[] = await this.client.command('HGETALL', this.countersKey);
+    const counters: Record<string, number> = {};
+    for (let i = 0; i < flat.length; i += 2) {
+      counters[flat[i]] = Number(flat[i + 1]);
+    }
+    return counters;
+  }
+
+  async resetCounters(): Promise<void> {
+    await this.client.command('DEL', this.countersKey);
+  }
+}
@@ -0,0 +1,247 @@
+import net from 'net';
+
+// Error reply from the server (e.g. "-ERR unknown command")
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+// One step of a reply: a complete value, the header of an array whose items follow, or the number of
+// bytes the buffer must hold before the value at offset can be read
+type ParseStep =
+  | { value: RespValue | RespError; next: number }
+  | { arrayLength: number; next: number }
+  | { needed: number };
+
+// An array reply whose items are still arriving
+interface ArrayFrame {
+  length: number;
+  items: RespValue[];
+}
+
+// Read one RESP value or array header starting at offset
+function parseStep(buffer: Buffer, offset: number): ParseStep {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return { needed: buffer.length + 1 };
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RespError(line), next: afterLine };
+    case ':':
+      return { value: parseInt(line, 10), next: afterLine };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return { needed: afterLine + length + 2 };
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next: afterLine };
+      return { arrayLength: length, next: afterLine };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type "${prefix}"`);
+  }
+}
+
+const encodeCommand = (args: Array<string | number>): string =>
+  `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }).join('');
+
+// Minimal Redis protocol (RESP2) client over a single TCP connection.
+// Supports exactly what the cache needs; works with Redis, Valkey, KeyDB and the local stand-in.
+// A command without a reply within commandTimeoutMs fails together with every command waiting behind it,
+// and the connection is dropped: replies arrive in order, so a late one would answer the wrong command.
+// Replies are parsed as they arrive and parsing resumes where it stopped, so a large reply split over many
+// chunks is read once.
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private chunks: Buffer[] = []; // Received bytes not parsed yet
+  private buffered = 0; // Their total length
+  private needed = 0; // Bytes needed before the value at the start of the chunks can be read
+  private frames: ArrayFrame[] = []; // Arrays being received, innermost last
+  private pending: PendingReply[] = [];
+
+  constructor(private readonly url: string, private readonly timeoutMs = 5000, private readonly commandTimeoutMs = 2000) {}
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    const { hostname, port, password, username, pathname } = new URL(this.url);
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: hostname || '127.0.0.1', port: Number(port) || 6379 });
+      socket.setTimeout(this.timeoutMs);
+
+      socket.once('connect', async () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        this.connecting = null;
+        try {
+          if (password) {
+            await this.send(username ? ['AUTH', decodeURIComponent(username), decodeURIComponent(password)] : ['AUTH', decodeURIComponent(password)]);
+          }
+          const database = pathname.replace('/', '');
+          if (database) {
+            await this.send(['SELECT', database]);
+          }
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+      // A socket dropped after a command timeout may still emit events; only the current one counts
+      socket.on('data', chunk => {
+        if (this.socket === socket) this.onData(chunk);
+      });
+      socket.on('timeout', () => socket.destroy(new Error(`Connection to ${hostname}:${port} timed out`)));
+      socket.on('error', error => {
+        if (this.socket === socket) this.failPending(error);
+        if (this.connecting) {
+          this.connecting = null;
+          reject(error);
+        }
+      });
+      socket.on('close', () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        this.clearReceived();
+        this.failPending(new Error('Connection closed'));
+      });
+    });
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+    if (this.buffered < this.needed) return;
+
+    const buffer = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks, this.buffered);
+    let offset = 0;
+    this.needed = 0;
+    try {
+      while (offset < buffer.length) {
+        const step = parseStep(buffer, offset);
+        if ('needed' in step) {
+          this.needed = step.needed - offset;
+          break;
+        }
+        offset = step.next;
+        if ('arrayLength' in step) {
+          if (step.arrayLength > 0) {
+            this.frames.push({ length: step.arrayLength, items: [] });
+            continue;
+          }
+          this.deliver([]);
+        } else {
+          this.deliver(step.value);
+        }
+      }
+    } catch (error: any) {
+      this.reset(error);
+      return;
+    }
+    const rest = buffer.subarray(offset);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.buffered = rest.length;
+  }
+
+  // Add a value to the array being received, or hand a complete reply to the oldest waiting command
+  private deliver(value: RespValue | RespError): void {
+    let reply = value;
+    while (this.frames.length > 0) {
+      const frame = this.frames[this.frames.length - 1];
+      frame.items.push(reply instanceof RespError ? null : reply);
+      if (frame.items.length < frame.length) return;
+      this.frames.pop();
+      reply = frame.items;
+    }
+    const waiter = this.pending.shift();
+    if (!waiter) return;
+    if (reply instanceof RespError) {
+      waiter.reject(reply);
+    } else {
+      waiter.resolve(reply);
+    }
+  }
+
+  // Forget a partly received reply
+  private clearReceived(): void {
+    this.chunks = [];
+    this.buffered = 0;
+    this.needed = 0;
+    this.frames = [];
+  }
+
+  private failPending(error: Error): void {
+    const waiters = this.pending;
+    this.pending = [];
+    waiters.forEach(waiter => waiter.reject(error));
+  }
+
+  // Fail every waiting command and drop the connection; the next command reconnects
+  private reset(error: Error): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.clearReceived();
+    this.failPending(error);
+    socket?.destroy();
+  }
+
+  // Write a command on the open socket
+  private send(args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.reset(new Error(`Redis command ${args[0]} got no reply within ${this.commandTimeoutMs}ms`)),
+        this.commandTimeoutMs
+      );
+      this.pending.push({
+        resolve: value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * Send a command and wait for its reply, connecting first if needed
+   * @param args - Command name followed by its arguments, e.g. ["SET", "key", "value"]
+   * @returns The decoded reply (string, number, null or array)
+   */
+  async command(...args: Array<string | number>): Promise<any> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,615 @@
+import crypto from 'crypto';
+import os from 'os';
+import { linkProfile, minHashSignature, normalizeForSimilarity, signatureBands, signatureSimilarity } from './similarity';
+import { resolveCachePolicy } from './policy';
+import {
+  AnalysisVersion,
+  CacheEntry,
+  CacheEntrySummary,
+  CacheLookup,
+  CacheMigrationResult,
+  CachePurgeCriteria,
+  CacheSnapshot,
+  CacheStats,
+  CacheStore,
+  CacheVersionGroup,
+  NearDuplicateMatch
+} from './types';
+
+/**
+ * Hash text content the same way cache entries record it, for invalidation by content hash
+ * @param content - The submitted text content
+ * @returns Hex SHA-256 of the trimmed content
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content.trim()).digest('hex');
+}
+
+export interface ResponseCacheOptions {
+  nearDuplicates?: boolean; // Match similar text-only messages (default true)
+  similarityThreshold?: number; // Minimum estimated similarity (0-1) for a near-duplicate match
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.75;
+// Short messages ("ok", "Sino to?") share too little text for similarity to mean anything
+const MIN_SIMILARITY_LENGTH = 40;
+// Near-duplicate lookups only compare entries sharing an LSH bucket, at most this many
+const MAX_NEAR_DUPLICATE_CANDIDATES = 50;
+// The bucket index is rebuilt from the store this often, to pick up entries written by other instances
+const SIMILARITY_INDEX_REFRESH_MS = 60 * 1000;
+
+// Response cache with TTL (Time To Live) on top of a pluggable storage backend
+export class ResponseCache {
+  private readonly maxCacheSize = 1000; // Maximum number of cached entries
+  private readonly cleanupThreshold = 0.8; // Clean up when cache reaches 80% capacity
+  private readonly cleanupBatchSize = 0.2; // Remove 20% of entries during cleanup
+  private operationCount = 0; // Track operations for deterministic cleanup timing
+  // Identifies this server instance in the shared hit/miss counters
+  private readonly instanceId = `${os.hostname()}-${process.pid}`;
+
+  // Analyses currently running in this process, keyed by cache key
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private readonly nearDuplicates: boolean;
+  private readonly similarityThreshold: number;
+  // LSH bucket -> cache keys of the entries with a signature in it
+  private similarityIndex = new Map<string, Set<string>>();
+  private similarityIndexBuiltAt = 0;
+
+  constructor(private readonly store: CacheStore, options: ResponseCacheOptions = {}) {
+    this.nearDuplicates = options.nearDuplicates ?? true;
+    this.similarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  }
+
+  // Near-duplicate matching only applies to text-only submissions with enough text to compare
+  private supportsSimilarity(content: string, imageBase64?: string, audioBase64?: string): boolean {
+    return this.nearDuplicates && !imageBase64 && !audioBase64 &&
+      normalizeForSimilarity(content).length >= MIN_SIMILARITY_LENGTH;
+  }
+
+  // Generate a hash of the query parameters, independent of model and prompt version
+  private generateBaseKey(content: string, imageBase64?: string, audioBase64?: string): string {
+    const data = {
+      content: content.trim(),
+      hasImage: !!imageBase64,
+      hasAudio: !!audioBase64,
+      // Include hashes of binary data to detect differences without storing full data
+      imageHash: imageBase64 ? crypto.createHash('sha256').update(imageBase64).digest('hex').substring(0, 16) : null,
+      audioHash: audioBase64 ? crypto.createHash('sha256').update(audioBase64).digest('hex').substring(0, 16) : null
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+  }
+
+  // Combine the query hash with the model and prompt version so a new prompt or model never reuses old verdicts
+  private versionedKey(baseKey: string, version: AnalysisVersion): string {
+    return crypto.createHash('sha256').update(`${baseKey}:${version.model}:${version.promptVersion}`).digest('hex');
+  }
+
+  // Generate the cache key for the query parameters
+  private generateKey(content: string, version: AnalysisVersion, imageBase64?: string, audioBase64?: string): string {
+    return this.versionedKey(this.generateBaseKey(content, imageBase64, audioBase64), version);
+  }
+
+  // Cache key for a request; returned to clients as the analysis ID so reports and feedback can refer to a verdict
+  keyFor(content: string, version: AnalysisVersion, imageBase64?: string, audioBase64?: string): string {
+    return this.generateKey(content, version, imageBase64, audioBase64);
+  }
+
+  // Check if cache entry is still fresh
+  private isValid(entry: CacheEntry): boolean {
+    return Date.now() - entry.timestamp < entry.ttl;
+  }
+
+  // Check if cache entry can still be served, fresh or within its stale-while-revalidate window
+  private isServable(entry: CacheEntry): boolean {
+    return Date.now() - entry.timestamp < entry.ttl + (entry.staleTtl || 0);
+  }
+  // Clean up expired entries and manage cache size deterministically
+  private async cleanup(): Promise<void> {
+    const now = Date.now();
+    let removedExpired = 0;
+    const liveEntries: Array<[string, CacheEntry]> = [];
+
+    // First pass: Remove all expired entries (past their stale window)
+    for (const [key, entry] of await this.store.entries()) {
+      if (now - entry.timestamp >= entry.ttl + (entry.staleTtl || 0)) {
+        await this.store.delete(key);
+        removedExpired++;
+      } else {
+        liveEntries.push([key, entry]);
+      }
+    }
+
+    console.log(`🧹 Removed ${removedExpired} expired entries from cache`);
+
+    // Second pass: If cache is still over capacity, remove oldest entries
+    if (liveEntries.length > this.maxCacheSize) {
+      // Sort by timestamp (oldest first) for deterministic removal
+      liveEntries.sort((a, b) => a[1].timestamp - b[1].timestamp);
+
+      const entriesToRemove = liveEntries.length - this.maxCacheSize;
+      const removedEntries = liveEntries.slice(0, entriesToRemove);
+
+      for (const [key] of removedEntries) {
+        await this.store.delete(key);
+      }
+      console.log(`🧹 Removed ${entriesToRemove} oldest entries to maintain cache size limit`);
+    }
+  }
+
+  // Perform maintenance check - deterministic based on cache size and operation count
+  private async performMaintenanceCheck(): Promise<void> {
+    this.operationCount++;
+    const size = await this.store.size();
+
+    // Check if we need cleanup based on deterministic conditions
+    const shouldCleanup =
+      size >= Math.floor(this.maxCacheSize * this.cleanupThreshold) || // Cache is 80% full
+      this.operationCount % 100 === 0; // Every 100 operations for regular maintenance
+
+    if (shouldCleanup) {
+      await this.cleanup();
+      console.log(`🧹 Deterministic cache cleanup performed (size: ${await this.store.size()}/${this.maxCacheSize}, operations: ${this.operationCount})`);
+    }
+  }
+
+  // Record a hit or miss under this instance so stats can be aggregated across instances
+  private async recordLookup(outcome: 'hits' | 'staleHits' | 'misses'): Promise<void> {
+    await this.store.incrementCounters({ [`${this.instanceId}:${outcome}`]: 1 });
+  }
+
+  private indexSignature(index: Map<string, Set<string>>, key: string, signature: number[]): void {
+    for (const band of signatureBands(signature)) {
+      if (!index.has(band)) index.set(band, new Set());
+      index.get(band)!.add(key);
+    }
+  }
+
+  // Rebuild the bucket index from the store when it is older than SIMILARITY_INDEX_REFRESH_MS
+  private async refreshSimilarityIndex(): Promise<void> {
+    if (Date.now() - this.similarityIndexBuiltAt < SIMILARITY_INDEX_REFRESH_MS) return;
+    const index = new Map<string, Set<string>>();
+    for (const [key, entry] of await this.store.entries()) {
+      if (entry.meta?.signature) this.indexSignature(index, key, entry.meta.signature);
+    }
+    this.similarityIndex = index;
+    this.similarityIndexBuiltAt = Date.now();
+  }
+
+  /**
+   * Find an earlier analysis of a near-identical text-only message (same model and prompt version).
+   * Only entries whose links have the same hosts and URL forensics qualify: a clone of a genuine message
+   * that swaps its link must not get the genuine message's verdict. Candidates come from the LSH buckets
+   * the message falls in, so a lookup reads a bounded number of entries.
+   * Call after an exact miss; a match moves that lookup from the misses to the near-duplicate hits.
+   * @returns The most similar entry at or above the similarity threshold, or null
+   */
+  async findNearDuplicate(content: string, version: AnalysisVersion, imageBase64?: string, audioBase64?: string): Promise<NearDuplicateMatch | null> {
+    if (!this.supportsSimilarity(content, imageBase64, audioBase64)) return null;
+
+    try {
+      const signature = minHashSignature(content);
+      const links = linkProfile(content);
+      let best: NearDuplicateMatch | null = null;
+
+      await this.refreshSimilarityIndex();
+      // Entries sharing more buckets are likely more similar, so they are checked first
+      const sharedBands = new Map<string, number>();
+      for (const band of signatureBands(signature)) {
+        this.similarityIndex.get(band)?.forEach(key => sharedBands.set(key, (sharedBands.get(key) || 0) + 1));
+      }
+      const candidates = Array.from(sharedBands).sort((a, b) => b[1] - a[1]).slice(0, MAX_NEAR_DUPLICATE_CANDIDATES);
+
+      for (const [key] of candidates) {
+        const entry = await this.store.get(key);
+        const meta = entry?.meta;
+        if (!entry || !meta?.signature || !this.isValid(entry)) continue;
+        if (meta.model !== version.model || meta.promptVersion !== version.promptVersion) continue;
+        // Entries cached before link profiles were recorded never qualify
+        if (meta.linkProfile !== links) continue;
+
+        const similarity = signatureSimilarity(signature, meta.signature);
+        if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { data: entry.data, key, similarity };
+        }
+      }
+
+      if (best) {
+        await this.store.incrementCounters({
+          [`${this.instanceId}:misses`]: -1,
+          [`${this.instanceId}:nearHits`]: 1
+        });
+        console.log(`🔁 Near-duplicate cache hit (similarity ${best.similarity.toFixed(2)}) for query:`, content.substring(0, 100) + '...');
+      }
+      return best;
+    } catch (error) {
+      console.error(`Cache backend "${this.store.name}" failed on near-duplicate lookup:`, error);
+      return null;
+    }
+  }
+
+  // Get cached response; stale entries are returned flagged so the caller can re-analyze in the background
+  async get(content: string, version: AnalysisVersion, imageBase64?: string, audioBase64?: string): Promise<CacheLookup | null> {
+    const key = this.generateKey(content, version, imageBase64, audioBase64);
+
+    try {
+      const entry = await this.store.get(key);
+
+      if (entry && this.isServable(entry)) {
+        const stale = !this.isValid(entry);
+        await this.recordLookup(stale ? 'staleHits' : 'hits');
+        console.log(stale ? 'Stale cache hit for query:' : 'Cache hit for query:', content.substring(0, 100) + '...');
+        // Perform maintenance check on every cache operation
+        await this.performMaintenanceCheck();
+        return { data: entry.data, stale };
+      }
+
+      await this.recordLookup('misses');
+      if (entry) {
+        // Remove expired entry
+        await this.store.delete(key);
+      }
+
+      // Perform maintenance check on every cache operation
+      await this.performMaintenanceCheck();
+    } catch (error) {
+      // A broken cache backend must never block analysis - treat it as a miss
+      console.error(`Cache backend "${this.store.name}" failed on read:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Re-analyze a stale entry unless a refresh for the same key is already running in this process
+   * @param compute - Produces the response and caches it (same function as for a cache miss)
+   */
+  async revalidate(
+    content: string,
+    version: AnalysisVersion,
+    imageBase64: string | undefined,
+    audioBase64: string | undefined,
+    compute: () => Promise<unknown>
+  ): Promise<void> {
+    const key = this.generateKey(content, version, imageBase64, audioBase64);
+    if (this.inFlight.has(key)) return;
+
+    console.log('♻️ Revalidating stale cache entry for query:', content.substring(0, 100) + '...');
+    const promise = compute();
+    this.inFlight.set(key, promise);
+    try {
+      await promise;
+    } catch (error) {
+      console.error('Background revalidation failed:', error);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Run compute once per cache key: concurrent identical requests in this process await the
+   * same promise instead of each calling the provider. A coalesced lookup moves from the misses
+   * to the coalesced count.
+   * @param compute - Produces the response (and caches it) for a cache miss
+   * @returns The computed value and whether it was shared with an earlier in-flight request
+   */
+  async coalesce<T>(
+    content: string,
+    version: AnalysisVersion,
+    imageBase64: string | undefined,
+    audioBase64: string | undefined,
+    compute: () => Promise<T>
+  ): Promise<{ value: T; coalesced: boolean }> {
+    const key = this.generateKey(content, version, imageBase64, audioBase64);
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+
+    if (pending) {
+      try {
+        await this.store.incrementCounters({
+          [`${this.instanceId}:misses`]: -1,
+          [`${this.instanceId}:coalesced`]: 1
+        });
+      } catch (error) {
+        console.error(`Cache backend "${this.store.name}" failed to record a coalesced request:`, error);
+      }
+      console.log(`🤝 Coalesced with in-flight analysis for query:`, content.substring(0, 100) + '...');
+      return { value: await pending, coalesced: true };
+    }
+
+    const promise = compute();
+    this.inFlight.set(key, promise);
+    try {
+      return { value: await promise, coalesced: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  // Store response in cache; the TTL comes from the caching policy for the verdict unless given explicitly
+  async set(content: string, data: any, version: AnalysisVersion, imageBase64?: string, audioBase64?: string, ttl?: number): Promise<void> {
+    const policy = resolveCachePolicy(data);
+    if (!policy.cacheable) {
+      console.log(`⏭️ Not caching response (${policy.reason})`);
+      return;
+    }
+
+    const baseKey = this.generateBaseKey(content, imageBase64, audioBase64);
+    const key = this.versionedKey(baseKey, version);
+    const similar = this.supportsSimilarity(content, imageBase64, audioBase64);
+    const entry: CacheEntry = {
+      data,
+      timestamp: Date.now(),
+      ttl: ttl || policy.ttl,
+      staleTtl: ttl ? 0 : policy.staleTtl,
+      meta: {
+        contentHash: hashContent(content),
+        contentPreview: content.trim().substring(0, 100),
+        hasImage: !!imageBase64,
+        hasAudio: !!audioBase64,
+        riskLevel: typeof data?.riskLevel === 'string' ? data.riskLevel : undefined,
+        probability: typeof data?.probability === 'number' ? data.probability : undefined,
+        baseKey,
+        model: version.model,
+        promptVersion: version.promptVersion,
+        signature: similar ? minHashSignature(content) : undefined,
+        linkProfile: similar ? linkProfile(content) : undefined,
+        policy: ttl ? 'explicit' : policy.reason
+      }
+    };
+
+    try {
+      await this.store.set(key, entry);
+      if (entry.meta?.signature) this.indexSignature(this.similarityIndex, key, entry.meta.signature);
+      const contentPreview = content.length > 100 ? content.substring(0, 100) + '...' : content;
+      console.log('💾 Cached response for query:', contentPreview);
+
+      // Perform deterministic maintenance check after every set operation
+      await this.performMaintenanceCheck();
+    } catch (error) {
+      console.error(`Cache backend "${this.store.name}" failed on write:`, error);
+    }
+  }
+
+  // Get cache statistics, aggregated over every instance sharing the backend
+  async getStats(): Promise<CacheStats> {
+    const counters = await this.store.getCounters();
+    let hits = 0;
+    let staleHits = 0;
+    let nearDuplicateHits = 0;
+    let coalescedRequests = 0;
+    let misses = 0;
+    const instances = new Set<string>();
+
+    for (const [field, value] of Object.entries(counters)) {
+      const separator = field.lastIndexOf(':');
+      const outcome = field.substring(separator + 1);
+      instances.add(field.substring(0, separator));
+      if (outcome === 'hits') hits += value;
+      if (outcome === 'staleHits') staleHits += value;
+      if (outcome === 'nearHits') nearDuplicateHits += value;
+      if (outcome === 'coalesced') coalescedRequests += value;
+      if (outcome === 'misses') misses += value;
+    }
+
+    const totalRequests = hits + staleHits + nearDuplicateHits + coalescedRequests + misses;
+    const hitRate = totalRequests > 0 ? ((hits + staleHits + nearDuplicateHits) / totalRequests) * 100 : 0;
+
+    return {
+      backend: this.store.name,
+      size: await this.store.size(),
+      maxSize: this.maxCacheSize,
+      hitRate: Number(hitRate.toFixed(2)),
+      totalRequests,
+      hits,
+      staleHits,
+      nearDuplicateHits,
+      coalescedRequests,
+      misses,
+      inFlight: this.inFlight.size,
+      instances: instances.size
+    };
+  }
+
+  // Clear cache manually
+  async clear(): Promise<void> {
+    await this.store.clear();
+    await this.store.resetCounters();
+    this.operationCount = 0;
+    this.similarityIndex = new Map();
+    console.log('Cache cleared and statistics reset');
+  }
+
+  // Reset statistics only
+  async resetStats(): Promise<void> {
+    await this.store.resetCounters();
+    this.operationCount = 0;
+    console.log('Cache statistics reset');
+  }
+
+  // Summarise an entry for admin listings without exposing the full response
+  private summarize(key: string, entry: CacheEntry): CacheEntrySummary {
+    const riskLevel = entry.meta?.riskLevel ?? entry.data?.riskLevel;
+    const probability = entry.meta?.probability ?? entry.data?.probability;
+    return {
+      key,
+      contentHash: entry.meta?.contentHash || null,
+      contentPreview: entry.meta?.contentPreview ?? String(entry.data?.explanation || '').substring(0, 100),
+      hasImage: entry.meta?.hasImage ?? false,
+      hasAudio: entry.meta?.hasAudio ?? false,
+      riskLevel: typeof riskLevel === 'string' ? riskLevel : null,
+      probability: typeof probability === 'number' ? probability : null,
+      model: entry.meta?.model || null,
+      promptVersion: entry.meta?.promptVersion || null,
+      policy: entry.meta?.policy || null,
+      createdAt: new Date(entry.timestamp).toISOString(),
+      expiresAt: new Date(entry.timestamp + entry.ttl).toISOString(),
+      staleUntil: new Date(entry.timestamp + entry.ttl + (entry.staleTtl || 0)).toISOString(),
+      stale: !this.isValid(entry) && this.isServable(entry),
+      expired: !this.isServable(entry)
+    };
+  }
+
+  // List entries (newest first) for cache administration
+  async listEntries(): Promise<CacheEntrySummary[]> {
+    const entries = await this.store.entries();
+    entries.sort((a, b) => b[1].timestamp - a[1].timestamp);
+    return entries.map(([key, entry]) => this.summarize(key, entry));
+  }
+
+  // Inspect a single entry by cache key
+  async getEntry(key: string): Promise<(CacheEntrySummary & { data: any }) | null> {
+    const entry = await this.store.get(key);
+    return entry ? { ...this.summarize(key, entry), data: entry.data } : null;
+  }
+
+  // Remove a single entry by cache key; returns whether it existed
+  async deleteEntry(key: string): Promise<boolean> {
+    const entry = await this.store.get(key);
+    if (!entry) return false;
+    await this.store.delete(key);
+    return true;
+  }
+
+  // Remove every entry recorded for the given content hash (text with different images/audio share a hash)
+  async invalidateByContentHash(contentHash: string): Promise<string[]> {
+    const normalizedHash = contentHash.trim().toLowerCase();
+    const removed: string[] = [];
+    for (const [key, entry] of await this.store.entries()) {
+      if (entry.meta?.contentHash === normalizedHash) {
+        await this.store.delete(key);
+        removed.push(key);
+      }
+    }
+    console.log(`🗑️ Invalidated ${removed.length} cache entries for content hash ${normalizedHash.substring(0, 12)}...`);
+    return removed;
+  }
+
+  // Remove entries older than a given age and/or with given risk levels
+  async purge(criteria: CachePurgeCriteria): Promise<string[]> {
+    const now = Date.now();
+    const riskLevels = (criteria.riskLevels || []).map(level => level.toLowerCase());
+    const removed: string[] = [];
+
+    for (const [key, entry] of await this.store.entries()) {
+      const summary = this.summarize(key, entry);
+      const tooOld = criteria.olderThanMs !== undefined && now - entry.timestamp > criteria.olderThanMs;
+      const riskMatch = summary.riskLevel !== null && riskLevels.includes(summary.riskLevel.toLowerCase());
+      if (tooOld || riskMatch) {
+        await this.store.delete(key);
+        removed.push(key);
+      }
+    }
+    console.log(`🧹 Purged ${removed.length} cache entries`);
+    return removed;
+  }
+
+  // Export all entries that can still be served
+  async exportSnapshot(): Promise<CacheSnapshot> {
+    const entries = (await this.store.entries())
+      .filter(([, entry]) => this.isServable(entry))
+      .map(([key, entry]) => ({ key, entry }));
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      backend: this.store.name,
+      entries
+    };
+  }
+
+  /**
+   * Load entries from a snapshot. Expired and malformed entries are skipped.
+   * @param snapshot - Snapshot produced by exportSnapshot
+   * @param replace - Clear existing entries first instead of merging
+   * @returns Counts of imported and skipped entries
+   */
+  async importSnapshot(snapshot: CacheSnapshot, replace = false): Promise<{ imported: number; skipped: number }> {
+    if (replace) {
+      await this.store.clear();
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const item of snapshot.entries) {
+      const entry = item?.entry;
+      const wellFormed = typeof item?.key === 'string' && entry && entry.data !== undefined &&
+        typeof entry.timestamp === 'number' && typeof entry.ttl === 'number';
+      if (!wellFormed || !this.isServable(entry)) {
+        skipped++;
+        continue;
+      }
+      await this.store.set(item.key, entry);
+      imported++;
+    }
+
+    // Imports can push the cache over its size limit - apply the usual eviction
+    await this.cleanup();
+    this.similarityIndexBuiltAt = 0;
+    console.log(`📥 Imported ${imported} cache entries (${skipped} skipped)`);
+    return { imported, skipped };
+  }
+
+  // Count entries per model and prompt version
+  async versionBreakdown(): Promise<CacheVersionGroup[]> {
+    const groups = new Map<string, CacheVersionGroup>();
+    for (const [key, entry] of await this.store.entries()) {
+      const { model, promptVersion } = this.summarize(key, entry);
+      const groupKey = `${model}|${promptVersion}`;
+      const group = groups.get(groupKey) || { model, promptVersion, entries: 0 };
+      group.entries++;
+      groups.set(groupKey, group);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.entries - a.entries);
+  }
+
+  // Remove every entry the predicate selects
+  async invalidateWhere(predicate: (summary: CacheEntrySummary) => boolean): Promise<string[]> {
+    const removed: string[] = [];
+    for (const [key, entry] of await this.store.entries()) {
+      if (predicate(this.summarize(key, entry))) {
+        await this.store.delete(key);
+        removed.push(key);
+      }
+    }
+    console.log(`🗑️ Invalidated ${removed.length} cache entries by version`);
+    return removed;
+  }
+
+  /**
+   * Move selected entries to another model/prompt version, keeping their verdicts and expiry.
+   * Use when a prompt change does not affect verdicts; otherwise invalidate instead.
+   * @param predicate - Selects the entries to migrate
+   * @param targetVersion - Version each selected entry should be stored under
+   * @returns Counts of migrated and skipped entries
+   */
+  async migrateWhere(
+    predicate: (summary: CacheEntrySummary) => boolean,
+    targetVersion: (summary: CacheEntrySummary) => AnalysisVersion
+  ): Promise<CacheMigrationResult> {
+    let migrated = 0;
+    let skipped = 0;
+
+    for (const [key, entry] of await this.store.entries()) {
+      const summary = this.summarize(key, entry);
+      if (!predicate(summary)) continue;
+
+      const baseKey = entry.meta?.baseKey;
+      if (!baseKey) {
+        skipped++;
+        continue;
+      }
+
+      const version = targetVersion(summary);
+      const newKey = this.versionedKey(baseKey, version);
+      if (newKey === key) continue;
+
+      await this.store.set(newKey, {
+        ...entry,
+        meta: { ...entry.meta!, model: version.model, promptVersion: version.promptVersion }
+      });
+      await this.store.delete(key);
+      migrated++;
+    }
+
+    this.similarityIndexBuiltAt = 0;
+    console.log(`🔁 Migrated ${migrated} cache entries (${skipped} skipped without a base key)`);
+    return { migrated, skipped };
+  }
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { extractUrls } from '../rules/heuristics';
+import { analyzeUrls } from '../forensics/urls';
+
+// MinHash signatures over normalised, shingled text, used to recognise mass-forwarded scam
+// messages that differ only in the recipient name, amount or link suffix.
+
+const SIGNATURE_SIZE = 64; // Number of hash functions; the Jaccard estimate has ~1/8 standard error at this size
+const SHINGLE_SIZE = 5; // Characters per shingle
+// Signatures are split into bands of 4 values for LSH bucketing: two messages at 0.75 similarity share
+// at least one band 99.8% of the time, at 0.3 only 13% of the time
+const SIGNATURE_BANDS = 16;
+
+/**
+ * Normalise text so that per-recipient details do not affect similarity
+ * @param content - Raw message text
+ * @returns Lowercased text with links reduced to their host, numbers masked and punctuation removed
+ */
+export function normalizeForSimilarity(content: string): string {
+  return content
+    .toLowerCase()
+    // Keep only the host of links: "https://bit.ly/3xYz?u=juan" -> "bit.ly"
+    .replace(/(?:https?:\/\/)?(?:www\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})(?:[/?#]\S*)?/g, ' $1 ')
+    // Amounts, reference numbers and phone numbers
+    .replace(/\d[\d,.]*/g, '#')
+    .replace(/[^\p{L}\p{N}#.\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// 32-bit FNV-1a hash of a string
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Cheap 32-bit mixer (murmur3 finaliser) used to derive the independent hash functions
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function shingles(text: string): Set<string> {
+  const result = new Set<string>();
+  if (text.length <= SHINGLE_SIZE) {
+    if (text) result.add(text);
+    return result;
+  }
+  for (let i = 0; i <= text.length - SHINGLE_SIZE; i++) {
+    result.add(text.substring(i, i + SHINGLE_SIZE));
+  }
+  return result;
+}
+
+/**
+ * Compute the MinHash signature of a message
+ * @param content - Raw message text (normalised internally)
+ * @returns Signature of SIGNATURE_SIZE unsigned 32-bit values
+ */
+export function minHashSignature(content: string): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles(normalizeForSimilarity(content))) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(base, i + 1);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * LSH bucket keys of a signature: messages that share a bucket are candidates for a similarity check
+ * @returns One key per band, e.g. "3:1234,5678,9012,3456"
+ */
+export function signatureBands(signature: number[]): string[] {
+  const rows = Math.ceil(signature.length / SIGNATURE_BANDS);
+  return Array.from({ length: SIGNATURE_BANDS }, (_, band) => `${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`);
+}
+
+/**
+ * Fingerprint of a message's links as the URL forensics see them: the host, impersonated brand and
+ * signals of each link. A host is only a few shingles of the normalised text, so a clone that only
+ * swaps the link would otherwise match the genuine message
+ * @returns Hex hash, the same for messages whose links differ only in path or query
+ */
+export function linkProfile(content: string): string {
+  const links = analyzeUrls(extractUrls(content)).map(finding =>
+    [finding.host, finding.impersonatedBrand || '', ...finding.signals.map(signal => signal.code).sort()].join(' ')
+  );
+  return crypto.createHash('sha256').update(Array.from(new Set(links)).sort().join('\n')).digest('hex').substring(0, 16);
+}
+
+/**
+ * Estimate the Jaccard similarity of two messages from their signatures
+ * @returns Similarity between 0 and 1 (0 when the signatures are incompatible)
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
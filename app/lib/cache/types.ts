@@ -0,0 +1,121 @@
+import type { AnalysisVersion } from '../providers/types';
+
+// Descriptive fields recorded with each entry for cache administration (never the full content)
+export interface CacheEntryMeta {
+  contentHash: string; // SHA-256 of the trimmed text content
+  contentPreview: string; // First 100 characters of the text content
+  hasImage: boolean;
+  hasAudio: boolean;
+  riskLevel?: string;
+  probability?: number;
+  baseKey?: string; // Hash of content and media without the version, used to re-key entries on migration
+  model?: string; // Model that produced the verdict
+  promptVersion?: string; // Prompt template version that produced the verdict
+  signature?: number[]; // MinHash signature for near-duplicate matching (text-only entries)
+  linkProfile?: string; // linkProfile() of the text; near-duplicates must have the same one
+  policy?: string; // Caching policy rule that chose the TTL, e.g. "confirmed-high-risk"
+}
+
+// A cached API response together with its expiry information
+export interface CacheEntry {
+  data: any;
+  timestamp: number;
+  ttl: number; // Time to live in milliseconds
+  staleTtl?: number; // Milliseconds after expiry the entry may still be served while being re-analyzed
+  meta?: CacheEntryMeta; // Absent on entries written before metadata was recorded
+}
+
+// Result of a near-duplicate lookup
+export interface NearDuplicateMatch {
+  data: any;
+  key: string; // Cache key of the matched entry
+  similarity: number; // Estimated Jaccard similarity, 0-1
+}
+
+// One row of the admin entry listing
+export interface CacheEntrySummary {
+  key: string;
+  contentHash: string | null;
+  contentPreview: string;
+  hasImage: boolean;
+  hasAudio: boolean;
+  riskLevel: string | null;
+  probability: number | null;
+  model: string | null; // null for entries cached before versions were recorded
+  promptVersion: string | null;
+  policy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  staleUntil: string;
+  stale: boolean; // Past expiry but still served while being re-analyzed
+  expired: boolean; // Past the stale window; no longer served
+}
+
+// Result of an exact cache lookup
+export interface CacheLookup {
+  data: any;
+  stale: boolean; // Served after expiry; the caller should re-analyze in the background
+}
+
+// Portable copy of the cache used by admin export/import
+export interface CacheSnapshot {
+  version: 1;
+  exportedAt: string;
+  backend: string;
+  entries: Array<{ key: string; entry: CacheEntry }>;
+}
+
+// Criteria for removing entries in bulk; entries matching ANY given criterion are removed
+export interface CachePurgeCriteria {
+  olderThanMs?: number; // Remove entries created more than this long ago
+  riskLevels?: string[]; // Remove entries with one of these risk levels (case-insensitive)
+}
+
+// Storage backend behind ResponseCache. Stores only persist entries and counters;
+// TTL checks, size limits and eviction are applied by ResponseCache so every backend behaves the same.
+export interface CacheStore {
+  // Identifier used in configuration (CACHE_BACKEND), logs and stats
+  name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  // All stored entries, including expired ones that have not been cleaned up yet
+  entries(): Promise<Array<[string, CacheEntry]>>;
+  size(): Promise<number>;
+  // Remove all entries (statistics are kept)
+  clear(): Promise<void>;
+  // Add to shared counters, e.g. { "instance-a:hits": 1 }
+  incrementCounters(counters: Record<string, number>): Promise<void>;
+  getCounters(): Promise<Record<string, number>>;
+  resetCounters(): Promise<void>;
+}
+
+export interface CacheStats {
+  backend: string;
+  size: number;
+  maxSize: number;
+  hitRate: number;
+  totalRequests: number;
+  hits: number; // Exact matches (fresh)
+  staleHits: number; // Exact matches served stale while being re-analyzed
+  nearDuplicateHits: number; // Served from a similar earlier message
+  coalescedRequests: number; // Shared the upstream call of an identical in-flight request
+  misses: number;
+  inFlight: number; // Analyses currently running in the instance answering the stats request
+  instances: number; // Number of server instances that have recorded hits or misses
+}
+
+// Number of cached entries per model and prompt version
+export interface CacheVersionGroup {
+  model: string | null;
+  promptVersion: string | null;
+  entries: number;
+}
+
+// Outcome of moving entries to another model/prompt version
+export interface CacheMigrationResult {
+  migrated: number;
+  skipped: number; // Entries without a recorded base key cannot be re-keyed
+}
+
+export type { AnalysisVersion };
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import path from 'path';
+import { JsonFileDocument } from '../storage/jsonDocument';
+import { hashReporter } from './reports';
+
+// User corrections to verdicts ("this is my actual bank" / "this was a scam and you said it was safe").
+// Each entry keeps the verdict the user saw, their correction and the cache key (analysisId) of the
+// verdict, so an admin can review disputes and invalidate or override the cached answer. At most
+// FEEDBACK_MAX_ENTRIES are kept: past that, the oldest resolved entries are dropped first, then the oldest open ones.
+
+export type FeedbackCorrection = 'false-positive' | 'false-negative';
+export type FeedbackStatus = 'open' | 'confirmed' | 'rejected';
+export type FeedbackResolution = 'invalidate' | 'override';
+
+export interface FeedbackVerdict {
+  isScam: boolean;
+  probability: number | null;
+  riskLevel: string | null;
+}
+
+export interface VerdictFeedback {
+  id: string;
+  createdAt: string; // ISO timestamp
+  analysisId: string; // Cache key of the verdict
+  correction: FeedbackCorrection;
+  verdict: FeedbackVerdict; // What the user was shown
+  contentHash: string | null; // From the cache entry, when it was still cached
+  contentPreview: string | null;
+  comment?: string;
+  reporter: string; // Salted hash of the submitter's IP, used only to drop duplicates
+  status: FeedbackStatus;
+  resolution?: FeedbackResolution;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+// Feedback grouped by verdict for the admin view
+export interface DisputedVerdict {
+  analysisId: string;
+  contentPreview: string | null;
+  verdict: FeedbackVerdict;
+  falsePositives: number;
+  falseNegatives: number;
+  openCount: number;
+  lastSubmitted: string;
+  feedback: VerdictFeedback[];
+}
+
+export interface NewFeedback {
+  analysisId: string;
+  correction: FeedbackCorrection;
+  verdict: FeedbackVerdict;
+  contentHash: string | null;
+  contentPreview: string | null;
+  comment?: string;
+  reporterIp: string | null;
+}
+
+interface FeedbackFileContents {
+  feedback: VerdictFeedback[];
+}
+
+const DEFAULT_FEEDBACK_FILE = path.join(process.cwd(), '.data', 'verdict-feedback.json');
+const DEFAULT_MAX_ENTRIES = 5000;
+
+const maxEntries = () => Math.max(1, Math.floor(Number(process.env.FEEDBACK_MAX_ENTRIES)) || DEFAULT_MAX_ENTRIES);
+
+// The entries left after dropping those over the cap, resolved before open and oldest first, in their order
+function pruneFeedback(feedback: VerdictFeedback[]): VerdictFeedback[] {
+  const excess = feedback.length - maxEntries();
+  if (excess <= 0) return feedback;
+  const dropped = new Set(
+    [...feedback]
+      .sort((a, b) => Number(b.status !== 'open') - Number(a.status !== 'open') || a.createdAt.localeCompare(b.createdAt))
+      .slice(0, excess)
+  );
+  return feedback.filter(item => !dropped.has(item));
+}
+
+export class FeedbackStore {
+  private readonly document: JsonFileDocument<FeedbackFileContents>;
+
+  constructor(filePath: string) {
+    this.document = new JsonFileDocument(filePath, () => ({ feedback: [] }), 'Verdict feedback');
+  }
+
+  /**
+   * Store a correction; a repeat submission for the same verdict from the same IP replaces the earlier one.
+   * Entries over FEEDBACK_MAX_ENTRIES are dropped at the same time
+   * @returns The stored feedback and whether it replaced an earlier submission
+   */
+  submit(input: NewFeedback): Promise<{ feedback: VerdictFeedback; replaced: boolean }> {
+    const reporter = hashReporter(input.reporterIp);
+    return this.document.update(document => {
+      const { feedback } = document;
+      const index = feedback.findIndex(item => item.analysisId === input.analysisId && item.reporter === reporter && item.status === 'open');
+      const entry: VerdictFeedback = {
+        id: index >= 0 ? feedback[index].id : crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        analysisId: input.analysisId,
+        correction: input.correction,
+        verdict: input.verdict,
+        contentHash: input.contentHash,
+        contentPreview: input.contentPreview,
+        ...(input.comment ? { comment: input.comment } : {}),
+        reporter,
+        status: 'open'
+      };
+      if (index >= 0) {
+        feedback[index] = entry;
+      } else {
+        feedback.push(entry);
+        document.feedback = pruneFeedback(feedback);
+      }
+      return { feedback: entry, replaced: index >= 0 };
+    });
+  }
+
+  /**
+   * List verdicts that received corrections, most disputed first
+   * @param status - Only include feedback with this status (all statuses when omitted)
+   */
+  listDisputed(status?: FeedbackStatus): Promise<DisputedVerdict[]> {
+    return this.document.read(({ feedback }) => {
+      const groups = new Map<string, DisputedVerdict>();
+      for (const item of feedback) {
+        if (status && item.status !== status) continue;
+        const group = groups.get(item.analysisId) || {
+          analysisId: item.analysisId,
+          contentPreview: item.contentPreview,
+          verdict: item.verdict,
+          falsePositives: 0,
+          falseNegatives: 0,
+          openCount: 0,
+          lastSubmitted: item.createdAt,
+          feedback: []
+        };
+        group.feedback.push(item);
+        group.contentPreview = group.contentPreview || item.contentPreview;
+        if (item.correction === 'false-positive') group.falsePositives++;
+        else group.falseNegatives++;
+        if (item.status === 'open') group.openCount++;
+        if (item.createdAt > group.lastSubmitted) group.lastSubmitted = item.createdAt;
+        groups.set(item.analysisId, group);
+      }
+      return Array.from(groups.values()).sort((a, b) =>
+        b.openCount - a.openCount || b.feedback.length - a.feedback.length || b.lastSubmitted.localeCompare(a.lastSubmitted));
+    });
+  }
+
+  // The correction to apply to a verdict: the most recently confirmed one, if the admin chose to override
+  overrideFor(analysisId: string): Promise<VerdictFeedback | null> {
+    return this.document.read(({ feedback }) => {
+      const latest = feedback
+        .filter(item => item.analysisId === analysisId && item.status === 'confirmed')
+        .sort((a, b) => (b.resolvedAt || '').localeCompare(a.resolvedAt || ''))[0];
+      return latest?.resolution === 'override' ? latest : null;
+    });
+  }
+
+  get(id: string): Promise<VerdictFeedback | null> {
+    return this.document.read(({ feedback }) => feedback.find(item => item.id === id) || null);
+  }
+
+  /**
+   * Confirm or reject every open correction of the same kind for a verdict
+   * @param id - Any feedback entry for the verdict
+   * @returns The updated entries, or null if the id is unknown
+   */
+  resolve(id: string, status: 'confirmed' | 'rejected', actor: string, resolution?: FeedbackResolution): Promise<VerdictFeedback[] | null> {
+    return this.document.update(({ feedback }) => {
+      const target = feedback.find(item => item.id === id);
+      if (!target) return null;
+      const resolvedAt = new Date().toISOString();
+      const updated = feedback.filter(item =>
+        item.analysisId === target.analysisId && item.correction === target.correction && (item.status === 'open' || item.id === id));
+      for (const item of updated) {
+        item.status = status;
+        item.resolvedAt = resolvedAt;
+        item.resolvedBy = actor;
+        if (resolution) item.resolution = resolution;
+        else delete item.resolution;
+      }
+      return updated;
+    });
+  }
+}
+
+// Verdict fields replaced by a reviewed correction
+const CORRECTED_VERDICTS: Record<FeedbackCorrection, Record<string, unknown>> = {
+  'false-positive': {
+    isScam: false,
+    probability: 5,
+    confidence: 'High',
+    riskLevel: 'Low',
+    assessment: 'Verified Legitimate (Reviewed)',
+    riskSummary: '✅ Our team reviewed user feedback and confirmed this content is legitimate.'
+  },
+  'false-negative': {
+    isScam: true,
+    probability: 95,
+    confidence: 'High',
+    riskLevel: 'Very High',
+    assessment: 'Confirmed Scam (Reviewed)',
+    riskSummary: '🚨 Our team reviewed user feedback and confirmed this content is a scam. Do not act on it.'
+  }
+};
+
+/**
+ * Apply a confirmed correction to a detection response
+ * @param response - The response as analyzed (possibly from the cache)
+ * @param feedback - Confirmed feedback with the "override" resolution
+ * @returns The response with the reviewed verdict and a verdictOverride note
+ */
+export function applyVerdictOverride(response: any, feedback: VerdictFeedback): any {
+  return {
+    ...response,
+    ...CORRECTED_VERDICTS[feedback.correction],
+    verdictOverride: {
+      correction: feedback.correction,
+      reviewedAt: feedback.resolvedAt || null,
+      originalProbability: typeof response.probability === 'number' ? response.probability : null
+    }
+  };
+}
+
+// Global store instance, kept on globalThis so dev-server hot reloads reuse it
+const globalForFeedback = globalThis as unknown as { verdictFeedback?: FeedbackStore };
+
+export function getFeedbackStore(): FeedbackStore {
+  if (!globalForFeedback.verdictFeedback) {
+    globalForFeedback.verdictFeedback = new FeedbackStore(process.env.FEEDBACK_PATH || DEFAULT_FEEDBACK_FILE);
+  }
+  return globalForFeedback.verdictFeedback;
+}
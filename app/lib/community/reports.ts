@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hashContent } from '../cache/responseCache';
+import { minHashSignature, normalizeForSimilarity, signatureSimilarity } from '../cache/similarity';
+import { extractUrls } from '../rules/heuristics';
+import { analyzeUrl, SHORTENER_HOSTS } from '../forensics/urls';
+import { extractContacts } from '../forensics/contacts';
+import { getContactReputationStore } from '../forensics/reputation';
+import { isOfficialDomain } from '../rules/allowlist';
+
+// Community scam reports: users confirming "I received this and it is a scam". Reports are appended
+// to a JSONL file (COMMUNITY_REPORTS_PATH) and indexed by URL, host, contact and text fingerprint
+// so the detection route and the lookup endpoint can find earlier reports of the same scam.
+
+export interface CommunityReport {
+  id: string;
+  createdAt: string; // ISO timestamp
+  analysisId: string | null; // Cache key of the verdict the user was shown
+  contentHash: string; // SHA-256 of the trimmed content
+  contentPreview: string;
+  signature: number[] | null; // MinHash signature for near-duplicate lookups (long text only)
+  urls: string[]; // Normalised URLs: host + path, no scheme, query or fragment
+  hosts: string[];
+  contacts: string[]; // Normalised numbers and accounts
+  verdict: { probability: number | null; riskLevel: string | null } | null; // Snapshot of the cached verdict, if still cached
+  reporter: string; // Salted hash of the reporter's IP, used only to drop duplicate reports
+  comment?: string;
+}
+
+export type ReportMatchType = 'url' | 'host' | 'contact' | 'text' | 'similar-text';
+
+export interface CommunityReportSummary {
+  reportCount: number;
+  firstReported: string | null;
+  lastReported: string | null;
+  matchedBy: ReportMatchType[];
+  reports: Array<Pick<CommunityReport, 'id' | 'createdAt' | 'contentPreview' | 'verdict'> & { matchedBy: ReportMatchType[] }>;
+}
+
+export interface ReportQuery {
+  url?: string;
+  phone?: string; // Mobile number or account
+  text?: string; // Full text; matched exactly and by similarity
+  fingerprint?: string; // Content hash (hex SHA-256 of the trimmed text)
+}
+
+export interface NewCommunityReport {
+  content: string;
+  analysisId?: string | null;
+  verdict?: CommunityReport['verdict'];
+  reporterIp: string | null;
+  comment?: string;
+}
+
+const DEFAULT_REPORTS_FILE = path.join(process.cwd(), '.data', 'community-reports.jsonl');
+// Similar text counts as the same scam at the cache's near-duplicate threshold
+const SIMILAR_TEXT_THRESHOLD = 0.75;
+const MIN_SIMILARITY_LENGTH = 40;
+const MAX_LISTED_REPORTS = 20;
+// Distinct reporters needed before a reported number or account counts towards its reputation, and
+// before a reported host flags other links on it
+const DEFAULT_REPUTATION_MIN_REPORTERS = 3;
+
+const reportsPath = () => process.env.COMMUNITY_REPORTS_PATH || DEFAULT_REPORTS_FILE;
+
+const reputationMinReporters = () => {
+  const minimum = Number(process.env.COMMUNITY_REPUTATION_MIN_REPORTERS);
+  return Number.isInteger(minimum) && minimum > 0 ? minimum : DEFAULT_REPUTATION_MIN_REPORTERS;
+};
+
+interface NormalizedReportUrl {
+  url: string;
+  host: string;
+  official: boolean; // Host of an allowlisted organization, e.g. bdo.com.ph
+}
+
+// Reduce a URL to host + path so tracking parameters and schemes don't split reports
+export function normalizeReportUrl(rawUrl: string): NormalizedReportUrl | null {
+  const finding = analyzeUrl(rawUrl);
+  if (!finding) return null;
+  const pathPart = rawUrl.replace(/^[a-z]+:\/\//i, '').replace(/^[^/?#]*/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  return { url: `${finding.host}${pathPart}`, host: finding.host, official: isOfficialDomain(finding.host, finding.registrableDomain) };
+}
+
+const normalizedUrls = (urls: string[]) => urls.map(normalizeReportUrl).filter((url): url is NormalizedReportUrl => url !== null);
+
+const textSignature = (text: string) => normalizeForSimilarity(text).length >= MIN_SIMILARITY_LENGTH ? minHashSignature(text) : null;
+
+// Salted hash of a submitter's IP: enough to drop duplicate submissions without storing the address
+export const hashReporter = (ip: string | null) =>
+  crypto.createHash('sha256').update(`${process.env.COMMUNITY_REPORT_SALT || 'community-reports'}:${ip || 'unknown'}`).digest('hex').substring(0, 16);
+
+// In-memory copy of the report file, reloaded when the file's mtime changes
+let loaded: { mtime: number; reports: CommunityReport[] } | null = null;
+
+async function loadReports(): Promise<CommunityReport[]> {
+  let mtime: number;
+  try {
+    mtime = (await fs.stat(reportsPath())).mtimeMs;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  if (loaded && loaded.mtime === mtime) return loaded.reports;
+
+  const reports: CommunityReport[] = [];
+  for (const line of (await fs.readFile(reportsPath(), 'utf8')).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      reports.push(JSON.parse(line));
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  loaded = { mtime, reports };
+  return reports;
+}
+
+/**
+ * Store a community report, ignoring repeat reports of the same content from the same reporter
+ * @param report - The submitted content, the analysis it refers to and the reporter's IP
+ * @returns The stored report and whether it was a duplicate
+ */
+export async function submitCommunityReport(report: NewCommunityReport): Promise<{ report: CommunityReport; duplicate: boolean }> {
+  const contentHash = hashContent(report.content);
+  const reporter = hashReporter(report.reporterIp);
+
+  const reports = await loadReports();
+  const existing = reports.find(item => item.contentHash === contentHash && item.reporter === reporter);
+  if (existing) {
+    return { report: existing, duplicate: true };
+  }
+
+  const urls = normalizedUrls(extractUrls(report.content));
+  const stored: CommunityReport = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    analysisId: report.analysisId || null,
+    contentHash,
+    contentPreview: report.content.trim().substring(0, 100),
+    signature: textSignature(report.content),
+    urls: Array.from(new Set(urls.map(url => url.url))),
+    hosts: Array.from(new Set(urls.map(url => url.host))),
+    contacts: extractContacts(report.content).map(contact => contact.normalized),
+    verdict: report.verdict || null,
+    reporter,
+    ...(report.comment ? { comment: report.comment } : {})
+  };
+
+  await fs.mkdir(path.dirname(reportsPath()), { recursive: true });
+  await fs.appendFile(reportsPath(), JSON.stringify(stored) + '\n');
+  // Reported numbers and accounts count towards their reputation once enough different people reported
+  // them: a single anonymous report would otherwise mark any number as a scam (and cancel allowlist
+  // matches). Each reporter counts once per number; reaching the threshold adds all reports so far.
+  const minReporters = reputationMinReporters();
+  for (const contact of new Set(stored.contacts)) {
+    const reporters = new Set(reports.filter(earlier => earlier.contacts.includes(contact)).map(earlier => earlier.reporter));
+    if (reporters.has(reporter) || reporters.size + 1 < minReporters) continue;
+    await getContactReputationStore().record({
+      identifier: contact,
+      kind: contact.startsWith('+') ? 'mobile' : 'bank-account',
+      label: 'community report',
+      source: 'community',
+      reports: reporters.size + 1 === minReporters ? minReporters : 1
+    });
+  }
+  console.log(`👥 Community report ${stored.id} stored (${stored.urls.length} URL(s), ${stored.contacts.length} contact(s))`);
+  return { report: stored, duplicate: false };
+}
+
+interface ReportMatcher {
+  urls: NormalizedReportUrl[];
+  contacts: string[];
+  fingerprint: string | null;
+  signature: number[] | null;
+  reportedHosts: Set<string>; // Result of widelyReportedHosts()
+}
+
+// Hosts reported by at least the minimum number of distinct reporters. A single report names a host
+// that may serve everyone (a social network, a marketplace), so it only identifies its own URL.
+function widelyReportedHosts(reports: CommunityReport[]): Set<string> {
+  const reporters = new Map<string, Set<string>>();
+  for (const report of reports) {
+    for (const host of report.hosts) {
+      if (!reporters.has(host)) reporters.set(host, new Set());
+      reporters.get(host)!.add(report.reporter);
+    }
+  }
+  const minReporters = reputationMinReporters();
+  return new Set(Array.from(reporters).filter(([, hostReporters]) => hostReporters.size >= minReporters).map(([host]) => host));
+}
+
+// Which lookup keys a stored report matches
+function matchReport(report: CommunityReport, matcher: ReportMatcher): ReportMatchType[] {
+  const matchedBy: ReportMatchType[] = [];
+  // A link without a path names the whole host, so it is held to the same bar as a host match
+  if (matcher.urls.some(url => url.url !== url.host && report.urls.includes(url.url))) {
+    matchedBy.push('url');
+  } else if (matcher.urls.some(url => report.hosts.includes(url.host) && matcher.reportedHosts.has(url.host) && !SHORTENER_HOSTS.includes(url.host) && !url.official)) {
+    // Every shortened link shares its host, so only the full URL identifies a scam there. Official hosts
+    // appear in scams that imitate them, so a report never flags a bank's or agency's whole domain either.
+    matchedBy.push('host');
+  }
+  if (matcher.contacts.some(contact => report.contacts.includes(contact))) {
+    matchedBy.push('contact');
+  }
+  if (matcher.fingerprint && report.contentHash === matcher.fingerprint) {
+    matchedBy.push('text');
+  } else if (matcher.signature && report.signature && signatureSimilarity(matcher.signature, report.signature) >= SIMILAR_TEXT_THRESHOLD) {
+    matchedBy.push('similar-text');
+  }
+  return matchedBy;
+}
+
+/**
+ * Find earlier community reports matching a URL, number, text or fingerprint
+ * @param query - Any combination of lookup keys; reports matching any of them are returned
+ * @returns Aggregated counts plus the most recent matching reports
+ */
+export async function lookupCommunityReports(query: ReportQuery): Promise<CommunityReportSummary> {
+  const contacts = query.phone ? extractContacts(query.phone).map(contact => contact.normalized) : [];
+  if (query.phone && contacts.length === 0) {
+    // Not recognisable as a PH mobile number - look it up as a bare account number
+    contacts.push(query.phone.replace(/\D/g, ''));
+  }
+  const reports = await loadReports();
+  const matcher: ReportMatcher = {
+    urls: query.url ? normalizedUrls([query.url]) : [],
+    contacts,
+    fingerprint: query.fingerprint?.toLowerCase() || (query.text ? hashContent(query.text) : null),
+    signature: query.text ? textSignature(query.text) : null,
+    reportedHosts: widelyReportedHosts(reports)
+  };
+  return summarize(reports, report => matchReport(report, matcher));
+}
+
+/**
+ * Find community reports for submitted content: any of its URLs or contacts, or the text itself
+ * @param content - The text submitted for analysis
+ */
+export async function findReportsForContent(content: string): Promise<CommunityReportSummary> {
+  const reports = await loadReports();
+  if (!content.trim() || reports.length === 0) return summarize([], () => []);
+
+  const matcher: ReportMatcher = {
+    urls: normalizedUrls(extractUrls(content)),
+    contacts: extractContacts(content).map(contact => contact.normalized),
+    fingerprint: hashContent(content),
+    signature: textSignature(content),
+    reportedHosts: widelyReportedHosts(reports)
+  };
+  return summarize(reports, report => matchReport(report, matcher));
+}
+
+function summarize(reports: CommunityReport[], match: (report: CommunityReport) => ReportMatchType[]): CommunityReportSummary {
+  const matches = reports
+    .map(report => ({ report, matchedBy: match(report) }))
+    .filter(item => item.matchedBy.length > 0)
+    .sort((a, b) => b.report.createdAt.localeCompare(a.report.createdAt));
+
+  return {
+    reportCount: matches.length,
+    firstReported: matches.length ? matches[matches.length - 1].report.createdAt : null,
+    lastReported: matches.length ? matches[0].report.createdAt : null,
+    matchedBy: Array.from(new Set(matches.flatMap(item => item.matchedBy))),
+    reports: matches.slice(0, MAX_LISTED_REPORTS).map(({ report, matchedBy }) => ({
+      id: report.id,
+      createdAt: report.createdAt,
+      contentPreview: report.contentPreview,
+      verdict: report.verdict,
+      matchedBy
+    }))
+  };
+}
@@ -0,0 +1,420 @@
+import fs from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { POST as detectScam } from '../../api/detect-scam/route';
+import { markInternal } from '../access/control';
+import { FieldSchema, validateAgainstSchema } from '../schema/validator';
+
+// Golden-set evaluation: a labelled corpus of scam and legitimate messages (text, screenshots and voice
+// clips) is replayed through the detection route, and the verdicts are scored - accuracy, precision and
+// recall per risk category, and how well `probability` is calibrated. Reports are plain, stably ordered
+// JSON so two runs (for example before and after a prompt change) can be diffed or compared directly.
+
+export type GoldenLabel = 'scam' | 'legitimate';
+export type MediaKind = 'text' | 'image' | 'audio';
+
+export interface GoldenItem {
+  id: string;
+  label: GoldenLabel;
+  language: string; // "en", "fil" or "taglish"
+  riskCategories: string[]; // Categories the model should report, e.g. "Phishing"; empty for legitimate items
+  content: string;
+  image?: string; // Screenshot, relative to the corpus file
+  audio?: string; // Voice clip (webm), relative to the corpus file
+  sender?: string;
+  notes?: string;
+}
+
+export interface GoldenCorpus {
+  version: string;
+  description: string;
+  items: GoldenItem[];
+}
+
+// What the detection route answered for one item; analyze() in runGoldenSet returns this
+export interface RouteAnswer {
+  status: number;
+  body: any;
+}
+
+export interface ItemResult {
+  id: string;
+  label: GoldenLabel;
+  language: string;
+  media: MediaKind;
+  predicted: GoldenLabel | null; // null when the route returned an error
+  correct: boolean;
+  probability: number | null;
+  riskLevel: string | null;
+  expectedCategories: string[];
+  detectedCategories: string[];
+  analysisMode: string | null; // "ai", "heuristic" or "blocklist"
+  cacheMatch: string | null; // Set when the verdict came from a near-duplicate or stale cache entry
+  error: string | null;
+}
+
+export interface Metrics {
+  count: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  confusion: { truePositives: number; falsePositives: number; trueNegatives: number; falseNegatives: number };
+}
+
+export interface CategoryMetrics {
+  category: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface CalibrationBin {
+  range: string; // "40-50"
+  count: number;
+  meanProbability: number | null; // Mean predicted probability in the bin (0-100)
+  scamRate: number | null; // Share of the bin's items labelled scam (0-100)
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  label: string | null; // Free-form run name, e.g. "text-v4 draft"
+  provider: { name: string; model: string; promptVersions: Record<string, string> };
+  corpus: { version: string; items: number };
+  threshold: number; // probability at or above which a verdict counts as "scam"
+  summary: Metrics & {
+    errors: number;
+    notModelAnswered: number; // Heuristic or blocklist verdicts (the model was not asked or failed)
+    cacheReused: number; // Verdicts reused from another item's cache entry, which blur the comparison
+  };
+  byRiskLevel: Record<string, Record<GoldenLabel, number>>; // Reported riskLevel -> labelled counts
+  byCategory: CategoryMetrics[];
+  byLanguage: Record<string, Metrics>;
+  byMedia: Record<string, Metrics>;
+  calibration: {
+    brierScore: number | null; // Mean squared error of probability/100 against the label (lower is better)
+    expectedCalibrationError: number | null; // Weighted gap between probability and scam rate, in points
+    bins: CalibrationBin[];
+  };
+  items: ItemResult[];
+}
+
+export interface ReportComparison {
+  previous: { generatedAt: string; label: string | null; promptVersions: Record<string, string> };
+  summary: Record<'accuracy' | 'precision' | 'recall' | 'f1', { before: number | null; after: number | null }>;
+  calibration: Record<'brierScore' | 'expectedCalibrationError', { before: number | null; after: number | null }>;
+  byCategory: Array<{ category: string; precision: { before: number | null; after: number | null }; recall: { before: number | null; after: number | null } }>;
+  changedItems: Array<{
+    id: string;
+    label: GoldenLabel;
+    before: { predicted: GoldenLabel | null; probability: number | null };
+    after: { predicted: GoldenLabel | null; probability: number | null };
+  }>;
+}
+
+const DEFAULT_CORPUS_FILE = path.join(process.cwd(), 'evaluation', 'golden-set', 'corpus.json');
+export const DEFAULT_THRESHOLD = 50;
+const CALIBRATION_BINS = 10;
+// Items whose probability moved at least this much show up in a comparison even without a verdict change
+const PROBABILITY_CHANGE = 15;
+
+const CORPUS_SCHEMA: Record<string, FieldSchema> = {
+  version: { type: 'string', required: true },
+  description: { type: 'string', default: '' },
+  items: {
+    type: 'array',
+    required: true,
+    items: {
+      type: 'object',
+      fields: {
+        id: { type: 'string', required: true },
+        label: { type: 'string', required: true, enum: ['scam', 'legitimate'] },
+        language: { type: 'string', default: 'en' },
+        riskCategories: { type: 'array', default: [], items: { type: 'string' } },
+        content: { type: 'string', default: '' },
+        image: { type: 'string' },
+        audio: { type: 'string' },
+        sender: { type: 'string' },
+        notes: { type: 'string' }
+      }
+    }
+  }
+};
+
+export const goldenCorpusPath = () => process.env.EVAL_CORPUS_PATH || DEFAULT_CORPUS_FILE;
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+const ratio = (hits: number, total: number) => (total > 0 ? round(hits / total) : null);
+const mediaOf = (item: GoldenItem): MediaKind => (item.audio ? 'audio' : item.image ? 'image' : 'text');
+
+/**
+ * Load and validate the golden-set corpus
+ * @throws Error listing every problem when the corpus is invalid
+ */
+export function loadGoldenCorpus(file: string = goldenCorpusPath()): GoldenCorpus {
+  const report = validateAgainstSchema<GoldenCorpus>(JSON.parse(fs.readFileSync(file, 'utf8')), CORPUS_SCHEMA);
+  const errors = report.issues.filter(issue => issue.severity !== 'defaulted').map(issue => `${issue.path}: ${issue.message}`);
+  const ids = new Set<string>();
+  report.value.items?.forEach((item, index) => {
+    if (ids.has(item.id)) errors.push(`items[${index}].id: duplicate id "${item.id}"`);
+    ids.add(item.id);
+    if (!item.content.trim() && !item.image && !item.audio) errors.push(`items[${index}]: needs content, image or audio`);
+  });
+  if (!report.valid || errors.length > 0) {
+    throw new Error(`Golden-set corpus ${file} is invalid: ${errors.join('; ')}`);
+  }
+  return report.value;
+}
+
+// Request body for the detection route; media files are read relative to the corpus file
+function buildPayload(item: GoldenItem, corpusDir: string): Record<string, string> {
+  const readMedia = (relative: string) => {
+    const file = path.resolve(corpusDir, relative);
+    if (!file.startsWith(corpusDir + path.sep)) {
+      throw new Error(`Media file ${relative} is outside the corpus directory`);
+    }
+    return fs.readFileSync(file).toString('base64');
+  };
+  return {
+    content: item.content,
+    ...(item.image ? { imageBase64: readMedia(item.image) } : {}),
+    ...(item.audio ? { audioBase64: readMedia(item.audio) } : {}),
+    ...(item.sender ? { sender: item.sender } : {})
+  };
+}
+
+// Case-insensitive category names, reported with the corpus spelling when there is one
+const categoryKey = (name: string) => name.trim().toLowerCase();
+
+function scoreItem(item: GoldenItem, answer: RouteAnswer | Error, threshold: number): ItemResult {
+  const base = {
+    id: item.id,
+    label: item.label,
+    language: item.language,
+    media: mediaOf(item),
+    expectedCategories: item.riskCategories
+  };
+  const failed = answer instanceof Error || answer.status !== 200;
+  if (failed) {
+    const error = answer instanceof Error ? answer.message : `HTTP ${answer.status}: ${answer.body?.message || 'error'}`;
+    return { ...base, predicted: null, correct: false, probability: null, riskLevel: null, detectedCategories: [], analysisMode: null, cacheMatch: null, error };
+  }
+
+  const body = answer.body;
+  const probability = typeof body.probability === 'number' ? body.probability : Number(body.probability) || 0;
+  const predicted: GoldenLabel = probability >= threshold ? 'scam' : 'legitimate';
+  return {
+    ...base,
+    predicted,
+    correct: predicted === item.label,
+    probability,
+    riskLevel: body.riskLevel || null,
+    detectedCategories: Array.isArray(body.detectedRiskCategories) ? body.detectedRiskCategories.filter((name: unknown) => typeof name === 'string') : [],
+    analysisMode: body.analysisMode || null,
+    cacheMatch: body.cacheMatch || null,
+    error: null
+  };
+}
+
+function computeMetrics(results: ItemResult[]): Metrics {
+  const confusion = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  for (const result of results) {
+    const scam = result.predicted === 'scam';
+    if (result.label === 'scam' && scam) confusion.truePositives++;
+    else if (result.label === 'scam') confusion.falseNegatives++;
+    else if (scam) confusion.falsePositives++;
+    else confusion.trueNegatives++;
+  }
+  const precision = ratio(confusion.truePositives, confusion.truePositives + confusion.falsePositives);
+  const recall = ratio(confusion.truePositives, confusion.truePositives + confusion.falseNegatives);
+  return {
+    count: results.length,
+    accuracy: ratio(confusion.truePositives + confusion.trueNegatives, results.length),
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : null,
+    confusion
+  };
+}
+
+// Multi-label precision and recall for each risk category named by the corpus or the model
+function computeCategoryMetrics(results: ItemResult[]): CategoryMetrics[] {
+  const names = new Map<string, string>();
+  results.forEach(result => result.detectedCategories.forEach(name => names.set(categoryKey(name), name.trim())));
+  // Corpus spelling wins over the model's
+  results.forEach(result => result.expectedCategories.forEach(name => names.set(categoryKey(name), name.trim())));
+
+  return Array.from(names.entries()).map(([key, category]) => {
+    const counts = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+    for (const result of results.filter(item => item.error === null)) {
+      const expected = result.expectedCategories.some(name => categoryKey(name) === key);
+      const detected = result.detectedCategories.some(name => categoryKey(name) === key);
+      if (expected && detected) counts.truePositives++;
+      else if (detected) counts.falsePositives++;
+      else if (expected) counts.falseNegatives++;
+    }
+    return {
+      category,
+      ...counts,
+      precision: ratio(counts.truePositives, counts.truePositives + counts.falsePositives),
+      recall: ratio(counts.truePositives, counts.truePositives + counts.falseNegatives)
+    };
+  }).sort((a, b) => a.category.localeCompare(b.category));
+}
+
+function computeCalibration(results: ItemResult[]): EvaluationReport['calibration'] {
+  const scored = results.filter(result => result.probability !== null);
+  const width = 100 / CALIBRATION_BINS;
+  const bins: CalibrationBin[] = [];
+  let gap = 0;
+  for (let index = 0; index < CALIBRATION_BINS; index++) {
+    const low = index * width;
+    const high = low + width;
+    // The last bin includes 100
+    const members = scored.filter(result => result.probability! >= low && (result.probability! < high || (index === CALIBRATION_BINS - 1 && result.probability! <= high)));
+    const meanProbability = members.length ? members.reduce((sum, result) => sum + result.probability!, 0) / members.length : null;
+    const scamRate = members.length ? (members.filter(result => result.label === 'scam').length / members.length) * 100 : null;
+    if (meanProbability !== null && scamRate !== null) {
+      gap += (members.length / scored.length) * Math.abs(meanProbability - scamRate);
+    }
+    bins.push({
+      range: `${low}-${high}`,
+      count: members.length,
+      meanProbability: meanProbability === null ? null : round(meanProbability, 1),
+      scamRate: scamRate === null ? null : round(scamRate, 1)
+    });
+  }
+  const brier = scored.reduce((sum, result) => sum + (result.probability! / 100 - (result.label === 'scam' ? 1 : 0)) ** 2, 0);
+  return {
+    brierScore: scored.length ? round(brier / scored.length, 4) : null,
+    expectedCalibrationError: scored.length ? round(gap, 1) : null,
+    bins
+  };
+}
+
+const groupBy = (results: ItemResult[], key: (result: ItemResult) => string): Record<string, Metrics> => {
+  const groups: Record<string, ItemResult[]> = {};
+  results.forEach(result => (groups[key(result)] = groups[key(result)] || []).push(result));
+  return Object.fromEntries(Object.keys(groups).sort().map(name => [name, computeMetrics(groups[name])]));
+};
+
+/**
+ * Send one item to the detection route in-process. Corpus items are run by an admin or the evaluation
+ * CLI, so they are not charged to any client's rate limits
+ */
+export async function analyzeWithRoute(payload: Record<string, string>): Promise<RouteAnswer> {
+  const response = await detectScam(markInternal(new NextRequest('http://localhost/api/detect-scam', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  })));
+  return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Replay the corpus through the detection route and score the verdicts
+ * @param corpus - Result of loadGoldenCorpus()
+ * @param analyze - Sends one request body to the detection route
+ * @param options - Corpus file (for media paths), provider details for the report, threshold and run label
+ */
+export async function runGoldenSet(
+  corpus: GoldenCorpus,
+  analyze: (payload: Record<string, string>) => Promise<RouteAnswer>,
+  options: { corpusFile: string; provider: EvaluationReport['provider']; threshold?: number; label?: string | null }
+): Promise<EvaluationReport> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const corpusDir = path.dirname(path.resolve(options.corpusFile));
+  const results: ItemResult[] = [];
+
+  // One item at a time: the provider is rate limited and recordings are written as answers arrive
+  for (const item of corpus.items) {
+    let answer: RouteAnswer | Error;
+    try {
+      answer = await analyze(buildPayload(item, corpusDir));
+    } catch (error: any) {
+      answer = error instanceof Error ? error : new Error(String(error));
+    }
+    const result = scoreItem(item, answer, threshold);
+    console.log(`🧾 ${item.id}: ${result.error ? `error (${result.error})` : `${result.probability}% ${result.correct ? '✓' : '✗'}`}`);
+    results.push(result);
+  }
+  results.sort((a, b) => a.id.localeCompare(b.id));
+
+  const answered = results.filter(result => result.error === null);
+  const byRiskLevel: EvaluationReport['byRiskLevel'] = {};
+  for (const result of answered) {
+    const level = result.riskLevel || 'Unknown';
+    byRiskLevel[level] = byRiskLevel[level] || { scam: 0, legitimate: 0 };
+    byRiskLevel[level][result.label]++;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    label: options.label || null,
+    provider: options.provider,
+    corpus: { version: corpus.version, items: corpus.items.length },
+    threshold,
+    summary: {
+      ...computeMetrics(results),
+      errors: results.length - answered.length,
+      notModelAnswered: answered.filter(result => result.analysisMode !== 'ai').length,
+      cacheReused: answered.filter(result => result.cacheMatch === 'near-duplicate').length
+    },
+    byRiskLevel,
+    byCategory: computeCategoryMetrics(results),
+    byLanguage: groupBy(results, result => result.language),
+    byMedia: groupBy(results, result => result.media),
+    calibration: computeCalibration(results),
+    items: results
+  };
+}
+
+/**
+ * Compare a run with an earlier report, e.g. one made with the previous prompt version
+ * @returns Metric changes and the items whose verdict flipped or whose probability moved noticeably
+ */
+export function compareReports(current: EvaluationReport, previous: EvaluationReport): ReportComparison {
+  const pair = <T>(before: T, after: T) => ({ before, after });
+  const previousItems = new Map(previous.items.map(item => [item.id, item]));
+  const previousCategories = new Map(previous.byCategory.map(item => [categoryKey(item.category), item]));
+
+  return {
+    previous: { generatedAt: previous.generatedAt, label: previous.label, promptVersions: previous.provider.promptVersions },
+    summary: {
+      accuracy: pair(previous.summary.accuracy, current.summary.accuracy),
+      precision: pair(previous.summary.precision, current.summary.precision),
+      recall: pair(previous.summary.recall, current.summary.recall),
+      f1: pair(previous.summary.f1, current.summary.f1)
+    },
+    calibration: {
+      brierScore: pair(previous.calibration.brierScore, current.calibration.brierScore),
+      expectedCalibrationError: pair(previous.calibration.expectedCalibrationError, current.calibration.expectedCalibrationError)
+    },
+    byCategory: current.byCategory.map(item => {
+      const before = previousCategories.get(categoryKey(item.category));
+      return {
+        category: item.category,
+        precision: pair(before?.precision ?? null, item.precision),
+        recall: pair(before?.recall ?? null, item.recall)
+      };
+    }),
+    changedItems: current.items
+      .filter(item => {
+        const before = previousItems.get(item.id);
+        if (!before) return false;
+        const moved = item.probability !== null && before.probability !== null && Math.abs(item.probability - before.probability) >= PROBABILITY_CHANGE;
+        return before.predicted !== item.predicted || moved;
+      })
+      .map(item => {
+        const before = previousItems.get(item.id)!;
+        return {
+          id: item.id,
+          label: item.label,
+          before: { predicted: before.predicted, probability: before.probability },
+          after: { predicted: item.predicted, probability: item.probability }
+        };
+      })
+  };
+}
@@ -0,0 +1,147 @@
+import type { EvaluationReport, Metrics, ReportComparison } from './goldenSet';
+
+// Self-contained HTML rendering of a golden-set evaluation report (no scripts or external assets),
+// so it can be opened from disk or attached to a pull request that changes a prompt.
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const number = (value: number | null) => (value === null ? 'n/a' : String(value));
+
+// "82.0% → 85.5%" with a colour showing whether the change is an improvement
+function change(before: number | null, after: number | null, format: (value: number | null) => string, higherIsBetter = true): string {
+  if (before === after || before === null || after === null) return escapeHtml(format(after));
+  const better = higherIsBetter ? after > before : after < before;
+  return `${escapeHtml(format(before))} → <span class="${better ? 'better' : 'worse'}">${escapeHtml(format(after))}</span>`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return `<table><thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+const metricsRow = (name: string, metrics: Metrics) => [
+  escapeHtml(name),
+  String(metrics.count),
+  percent(metrics.accuracy),
+  percent(metrics.precision),
+  percent(metrics.recall),
+  percent(metrics.f1)
+];
+
+/**
+ * Render an evaluation report as an HTML page
+ * @param report - Result of runGoldenSet()
+ * @param comparison - Optional comparison with an earlier report, shown as before → after
+ */
+export function renderEvaluationHtml(report: EvaluationReport, comparison?: ReportComparison | null): string {
+  const { summary, calibration } = report;
+  const versions = Object.entries(report.provider.promptVersions).map(([mode, version]) => `${mode}: ${version}`).join(', ');
+  const sections: string[] = [];
+
+  sections.push(`<h2>Summary</h2>${table(
+    ['Metric', 'Value'],
+    [
+      ['Accuracy', comparison ? change(comparison.summary.accuracy.before, summary.accuracy, percent) : percent(summary.accuracy)],
+      ['Precision (scam)', comparison ? change(comparison.summary.precision.before, summary.precision, percent) : percent(summary.precision)],
+      ['Recall (scam)', comparison ? change(comparison.summary.recall.before, summary.recall, percent) : percent(summary.recall)],
+      ['F1', comparison ? change(comparison.summary.f1.before, summary.f1, percent) : percent(summary.f1)],
+      ['Brier score', comparison ? change(comparison.calibration.brierScore.before, calibration.brierScore, number, false) : number(calibration.brierScore)],
+      ['Expected calibration error (points)', comparison ? change(comparison.calibration.expectedCalibrationError.before, calibration.expectedCalibrationError, number, false) : number(calibration.expectedCalibrationError)],
+      ['Confusion (TP / FP / TN / FN)', `${summary.confusion.truePositives} / ${summary.confusion.falsePositives} / ${summary.confusion.trueNegatives} / ${summary.confusion.falseNegatives}`],
+      ['Errors', String(summary.errors)],
+      ['Not answered by the model', String(summary.notModelAnswered)],
+      ['Reused near-duplicate verdicts', String(summary.cacheReused)]
+    ]
+  )}`);
+
+  const previousCategories = new Map((comparison?.byCategory || []).map(item => [item.category, item]));
+  sections.push(`<h2>Risk categories</h2>${table(
+    ['Category', 'TP', 'FP', 'FN', 'Precision', 'Recall'],
+    report.byCategory.map(item => {
+      const before = previousCategories.get(item.category);
+      return [
+        escapeHtml(item.category),
+        String(item.truePositives),
+        String(item.falsePositives),
+        String(item.falseNegatives),
+        before ? change(before.precision.before, item.precision, percent) : percent(item.precision),
+        before ? change(before.recall.before, item.recall, percent) : percent(item.recall)
+      ];
+    })
+  )}`);
+
+  sections.push(`<h2>Calibration</h2>${table(
+    ['Probability', 'Items', 'Mean probability', 'Labelled scam'],
+    calibration.bins.map(bin => [
+      escapeHtml(bin.range),
+      String(bin.count),
+      bin.meanProbability === null ? '' : `${bin.meanProbability}%`,
+      bin.scamRate === null ? '' : `${bin.scamRate}%`
+    ])
+  )}`);
+
+  sections.push(`<h2>Reported risk level</h2>${table(
+    ['Risk level', 'Labelled scam', 'Labelled legitimate'],
+    Object.entries(report.byRiskLevel).map(([level, counts]) => [escapeHtml(level), String(counts.scam), String(counts.legitimate)])
+  )}`);
+
+  const headers = ['Group', 'Items', 'Accuracy', 'Precision', 'Recall', 'F1'];
+  sections.push(`<h2>By language</h2>${table(headers, Object.entries(report.byLanguage).map(([name, metrics]) => metricsRow(name, metrics)))}`);
+  sections.push(`<h2>By media</h2>${table(headers, Object.entries(report.byMedia).map(([name, metrics]) => metricsRow(name, metrics)))}`);
+
+  if (comparison) {
+    sections.push(`<h2>Changed verdicts</h2>${comparison.changedItems.length === 0 ? '<p>No item changed verdict.</p>' : table(
+      ['Item', 'Label', 'Before', 'After'],
+      comparison.changedItems.map(item => [
+        escapeHtml(item.id),
+        escapeHtml(item.label),
+        `${escapeHtml(item.before.predicted ?? 'error')} (${number(item.before.probability)}%)`,
+        `<span class="${item.after.predicted === item.label ? 'better' : 'worse'}">${escapeHtml(item.after.predicted ?? 'error')}</span> (${number(item.after.probability)}%)`
+      ])
+    )}`);
+  }
+
+  sections.push(`<h2>Items</h2>${table(
+    ['Item', 'Label', 'Language', 'Media', 'Probability', 'Risk level', 'Mode', 'Categories (expected / detected)', 'Result'],
+    report.items.map(item => [
+      escapeHtml(item.id),
+      escapeHtml(item.label),
+      escapeHtml(item.language),
+      escapeHtml(item.media),
+      item.probability === null ? '' : `${item.probability}%`,
+      escapeHtml(item.riskLevel),
+      escapeHtml(item.analysisMode) + (item.cacheMatch ? ` (${escapeHtml(item.cacheMatch)})` : ''),
+      `${escapeHtml(item.expectedCategories.join(', ') || '-')} / ${escapeHtml(item.detectedCategories.join(', ') || '-')}`,
+      item.error ? `<span class="worse">${escapeHtml(item.error)}</span>` : item.correct ? '<span class="better">correct</span>' : '<span class="worse">wrong</span>'
+    ])
+  )}`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Golden-set evaluation - ${escapeHtml(report.label || versions)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: 0.9rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .meta { color: #6b7280; }
+  .better { color: #047857; font-weight: 600; }
+  .worse { color: #b91c1c; font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>Golden-set evaluation${report.label ? ` - ${escapeHtml(report.label)}` : ''}</h1>
+<p class="meta">${escapeHtml(report.provider.name)} (${escapeHtml(report.provider.model)}, ${escapeHtml(versions)}) · corpus ${escapeHtml(report.corpus.version)}, ${report.corpus.items} items · scam threshold ${report.threshold}% · ${escapeHtml(report.generatedAt)}</p>
+${comparison ? `<p class="meta">Compared with ${escapeHtml(comparison.previous.label || comparison.previous.generatedAt)} (${escapeHtml(Object.entries(comparison.previous.promptVersions).map(([mode, version]) => `${mode}: ${version}`).join(', '))})</p>` : ''}
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
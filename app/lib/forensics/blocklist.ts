@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonFileDocument } from '../storage/jsonDocument';
+import { normalizeReportUrl } from '../community/reports';
+import { extractUrls } from '../rules/heuristics';
+import { FeedFormat, IndicatorKind, ParsedFeed, parseFeed, refang } from './feeds';
+import type { ContactIdentifier } from './contacts';
+
+// Normalised store of blocklisted indicators imported from threat-intelligence feeds (BLOCKLIST_PATH).
+// Feed files are dropped into THREAT_FEEDS_DIR and imported through the admin API; an indicator listed
+// by several feeds is stored once with every source that listed it, so each verdict can cite them.
+
+export interface IndicatorSource {
+  name: string; // Publisher, e.g. "PNP-ACG"
+  reference: string | null; // Advisory URL or identifier
+  reportedAt: string | null; // Advisory date, when the feed gives one
+  feed: string; // Feed file the source was imported from
+  importedAt: string;
+}
+
+export interface BlocklistIndicator {
+  id: string; // "<kind>:<value>"
+  kind: IndicatorKind;
+  value: string;
+  description: string | null;
+  sources: IndicatorSource[];
+  firstImported: string;
+  lastImported: string;
+}
+
+// A blocklisted indicator found in submitted content
+export interface BlocklistMatch {
+  kind: IndicatorKind;
+  value: string; // The listed indicator
+  matched: string; // What was found in the content (a subdomain of a listed domain, a longer URL, ...)
+  description: string | null;
+  sources: Array<Pick<IndicatorSource, 'name' | 'reference' | 'reportedAt'>>;
+}
+
+export interface FeedImportResult {
+  file: string;
+  format: FeedFormat;
+  parsed: number;
+  added: number; // Indicators not listed before
+  updated: number; // Already listed, with a new source added
+  unchanged: number;
+  skipped: number; // Entries that were not a supported indicator
+}
+
+interface FeedImportRecord {
+  format: FeedFormat;
+  importedAt: string;
+  indicatorCount: number;
+  contentHash: string;
+}
+
+interface BlocklistFileContents {
+  indicators: Record<string, BlocklistIndicator>;
+  feeds: Record<string, FeedImportRecord>;
+}
+
+const DEFAULT_BLOCKLIST_FILE = path.join(process.cwd(), '.data', 'blocklist.json');
+const DEFAULT_FEEDS_DIR = path.join(process.cwd(), '.data', 'feeds');
+const FEED_EXTENSIONS = ['.csv', '.json'];
+
+// Hostnames written with or without a scheme, including defanged ones ("bdo-login[.]xyz")
+const HOST_CANDIDATE_PATTERN = /[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*\.[a-z]{2,}/gi;
+const DIGIT_RUN_PATTERN = /(?<!\d)\d(?:[\s-]?\d){9,15}(?!\d)/g;
+
+export const threatFeedsDir = () => process.env.THREAT_FEEDS_DIR || DEFAULT_FEEDS_DIR;
+
+const indicatorId = (kind: IndicatorKind, value: string) => `${kind}:${value}`;
+
+// A host and every parent domain, so "secure.bdo-login.xyz" finds a listing for "bdo-login.xyz"
+function hostAndParents(host: string): string[] {
+  const labels = host.toLowerCase().replace(/^www\./, '').split('.');
+  return labels.slice(0, -1).map((_, index) => labels.slice(index).join('.'));
+}
+
+export class BlocklistStore {
+  private readonly document: JsonFileDocument<BlocklistFileContents>;
+
+  constructor(filePath: string) {
+    this.document = new JsonFileDocument(filePath, () => ({ indicators: {}, feeds: {} }), 'Blocklist');
+  }
+
+  /**
+   * Merge a parsed feed into the store; re-importing the same feed is a no-op
+   * @param file - Feed file name, recorded with every source
+   * @param feed - Result of parseFeed()
+   * @param contentHash - Hash of the file contents, kept to show which version was imported
+   */
+  importFeed(file: string, feed: ParsedFeed, contentHash: string): Promise<FeedImportResult> {
+    return this.document.update(({ indicators, feeds }) => {
+      const importedAt = new Date().toISOString();
+      const result: FeedImportResult = { file, format: feed.format, parsed: feed.indicators.length, added: 0, updated: 0, unchanged: 0, skipped: feed.skipped };
+
+      for (const item of feed.indicators) {
+        const id = indicatorId(item.kind, item.value);
+        const source: IndicatorSource = { name: item.source, reference: item.reference, reportedAt: item.reportedAt, feed: file, importedAt };
+        const existing = indicators[id];
+        if (!existing) {
+          indicators[id] = {
+            id,
+            kind: item.kind,
+            value: item.value,
+            description: item.description,
+            sources: [source],
+            firstImported: importedAt,
+            lastImported: importedAt
+          };
+          result.added++;
+        } else if (existing.sources.some(known => known.name === source.name && known.reference === source.reference)) {
+          result.unchanged++;
+        } else {
+          existing.sources.push(source);
+          existing.description = existing.description || item.description;
+          existing.lastImported = importedAt;
+          result.updated++;
+        }
+      }
+
+      feeds[file] = { format: feed.format, importedAt, indicatorCount: feed.indicators.length, contentHash };
+      return result;
+    });
+  }
+
+  /**
+   * Find blocklisted domains, URLs, numbers and accounts in submitted content
+   * @param content - The submitted text
+   * @param contacts - Numbers and accounts already extracted from it
+   * @returns One match per listed indicator found
+   */
+  match(content: string, contacts: ContactIdentifier[]): Promise<BlocklistMatch[]> {
+    if (!content.trim()) return Promise.resolve([]);
+    const text = refang(content.replace(/hxxp/gi, 'http'));
+
+    return this.document.read(({ indicators }) => {
+      const matches = new Map<string, BlocklistMatch>();
+      const add = (indicator: BlocklistIndicator | undefined, matched: string) => {
+        if (!indicator || matches.has(indicator.id)) return;
+        matches.set(indicator.id, {
+          kind: indicator.kind,
+          value: indicator.value,
+          matched,
+          description: indicator.description,
+          sources: indicator.sources.map(({ name, reference, reportedAt }) => ({ name, reference, reportedAt }))
+        });
+      };
+
+      for (const rawUrl of extractUrls(text)) {
+        const normalized = normalizeReportUrl(rawUrl);
+        if (!normalized) continue;
+        // The listed URL or any shorter path of it ("evil.xyz/claim" lists "evil.xyz/claim/123")
+        const segments = normalized.url.split('/');
+        for (let length = segments.length; length >= 1; length--) {
+          add(indicators[indicatorId('url', segments.slice(0, length).join('/'))], rawUrl);
+        }
+      }
+      for (const host of new Set(text.match(HOST_CANDIDATE_PATTERN) || [])) {
+        for (const candidate of hostAndParents(host)) {
+          add(indicators[indicatorId('domain', candidate)], host);
+        }
+      }
+      for (const contact of contacts) {
+        const kind: IndicatorKind = contact.kind === 'bank-account' ? 'account' : 'mobile';
+        add(indicators[indicatorId(kind, contact.normalized)], contact.value);
+      }
+      // Account numbers published without a bank name or "account no." cue next to them
+      for (const digits of text.match(DIGIT_RUN_PATTERN) || []) {
+        add(indicators[indicatorId('account', digits.replace(/[\s-]/g, ''))], digits);
+      }
+      return Array.from(matches.values());
+    });
+  }
+
+  // Indicator counts by kind and the feeds imported so far
+  stats(): Promise<{ total: number; byKind: Record<IndicatorKind, number>; feeds: Record<string, FeedImportRecord> }> {
+    return this.document.read(({ indicators, feeds }) => {
+      const byKind: Record<IndicatorKind, number> = { domain: 0, url: 0, mobile: 0, account: 0 };
+      Object.values(indicators).forEach(indicator => byKind[indicator.kind]++);
+      return { total: Object.keys(indicators).length, byKind, feeds };
+    });
+  }
+}
+
+// Global store instance, kept on globalThis so dev-server hot reloads reuse it
+const globalForBlocklist = globalThis as unknown as { blocklistStore?: BlocklistStore };
+
+export function getBlocklistStore(): BlocklistStore {
+  if (!globalForBlocklist.blocklistStore) {
+    globalForBlocklist.blocklistStore = new BlocklistStore(process.env.BLOCKLIST_PATH || DEFAULT_BLOCKLIST_FILE);
+  }
+  return globalForBlocklist.blocklistStore;
+}
+
+/**
+ * Import feed files from THREAT_FEEDS_DIR into the blocklist
+ * @param files - File names inside the feeds directory (default: every .csv and .json file in it)
+ * @param defaults - Source and date for entries that don't carry their own
+ * @returns One result per file; unreadable files are reported with an error instead of failing the batch
+ */
+export async function importThreatFeeds(
+  files?: string[],
+  defaults: { source?: string; reportedAt?: string } = {}
+): Promise<Array<FeedImportResult | { file: string; error: string }>> {
+  const dir = threatFeedsDir();
+  const names = files || (await fs.readdir(dir).catch(() => [] as string[]))
+    .filter(name => FEED_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort();
+
+  const results: Array<FeedImportResult | { file: string; error: string }> = [];
+  for (const name of names) {
+    // Only plain file names: feeds are read from the feeds directory and nowhere else
+    if (path.basename(name) !== name || !FEED_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+      results.push({ file: name, error: 'Feed files must be .csv or .json files inside the feeds directory' });
+      continue;
+    }
+    try {
+      const text = await fs.readFile(path.join(dir, name), 'utf8');
+      const feed = parseFeed(name, text, defaults);
+      const contentHash = crypto.createHash('sha256').update(text).digest('hex');
+      const result = await getBlocklistStore().importFeed(name, feed, contentHash);
+      console.log(`🛡️ Imported threat feed ${name}: ${result.added} new, ${result.updated} updated, ${result.skipped} skipped`);
+      results.push(result);
+    } catch (error: any) {
+      results.push({ file: name, error: error.code === 'ENOENT' ? 'File not found' : error.message || 'Could not import feed' });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,26 @@
+// Philippine banks and e-wallets that phishing links most often impersonate.
+// officialDomains are registrable domains owned by the brand; keywords are the names
+// scammers put into lookalike hosts (matched against hostname labels).
+
+export interface ProtectedBrand {
+  name: string;
+  officialDomains: string[];
+  keywords: string[];
+}
+
+export const PROTECTED_BRANDS: ProtectedBrand[] = [
+  { name: 'BPI', officialDomains: ['bpi.com.ph', 'bpiexpressonline.com'], keywords: ['bpi'] },
+  { name: 'BDO', officialDomains: ['bdo.com.ph'], keywords: ['bdo'] },
+  { name: 'GCash', officialDomains: ['gcash.com'], keywords: ['gcash'] },
+  { name: 'Maya', officialDomains: ['maya.ph', 'paymaya.com', 'mayabank.ph'], keywords: ['maya', 'paymaya', 'mayabank'] },
+  { name: 'Landbank', officialDomains: ['landbank.com'], keywords: ['landbank'] },
+  { name: 'Metrobank', officialDomains: ['metrobank.com.ph'], keywords: ['metrobank'] },
+  { name: 'UnionBank', officialDomains: ['unionbankph.com'], keywords: ['unionbank', 'unionbankph'] },
+  { name: 'Security Bank', officialDomains: ['securitybank.com'], keywords: ['securitybank'] },
+  { name: 'PNB', officialDomains: ['pnb.com.ph'], keywords: ['pnb'] },
+  { name: 'RCBC', officialDomains: ['rcbc.com'], keywords: ['rcbc'] },
+  { name: 'China Bank', officialDomains: ['chinabank.ph'], keywords: ['chinabank'] },
+  { name: 'GoTyme', officialDomains: ['gotyme.com.ph'], keywords: ['gotyme'] },
+  { name: 'ShopeePay', officialDomains: ['shopee.ph', 'shopeepay.ph'], keywords: ['shopeepay'] },
+  { name: 'Coins.ph', officialDomains: ['coins.ph'], keywords: ['coinsph'] }
+];
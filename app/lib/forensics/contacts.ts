@@ -0,0 +1,136 @@
+// Extraction and normalisation of the contact details scammers ask victims to call or pay:
+// Philippine mobile numbers, e-wallet accounts (which are mobile numbers) and bank account numbers.
+
+export type ContactKind = 'mobile' | 'ewallet' | 'bank-account';
+
+export interface ContactIdentifier {
+  kind: ContactKind;
+  value: string; // As it appeared in the content
+  normalized: string; // +639XXXXXXXXX for mobiles and e-wallets, digits only for bank accounts
+  network: string | null; // Mobile network the prefix was originally allocated to
+  provider: string | null; // E-wallet or bank named next to the number
+}
+
+// Mobile prefixes by original network allocation. Numbers can be ported between networks,
+// so this is a hint about where a number came from, not proof of its current network.
+const NETWORK_PREFIXES: Record<string, string[]> = {
+  'Globe/TM': [
+    '0817', '0905', '0906', '0915', '0916', '0917', '0926', '0927', '0935', '0936', '0937',
+    '0945', '0953', '0954', '0955', '0956', '0965', '0966', '0967', '0975', '0976', '0977',
+    '0978', '0979', '0995', '0996', '0997'
+  ],
+  'Smart/TNT': [
+    '0907', '0908', '0909', '0910', '0911', '0912', '0913', '0914', '0918', '0919', '0920',
+    '0921', '0928', '0929', '0930', '0938', '0939', '0946', '0947', '0948', '0949', '0950',
+    '0951', '0961', '0998', '0999'
+  ],
+  'Sun': ['0922', '0923', '0924', '0925', '0931', '0932', '0933', '0934', '0940', '0941', '0942', '0943', '0944', '0973', '0974'],
+  'DITO': ['0895', '0896', '0897', '0898', '0991', '0992', '0993', '0994']
+};
+
+// Names that turn a number into a payment destination, mapped to a display name
+const EWALLET_NAMES: Record<string, string> = {
+  gcash: 'GCash',
+  maya: 'Maya',
+  paymaya: 'Maya',
+  shopeepay: 'ShopeePay',
+  grabpay: 'GrabPay',
+  'coins.ph': 'Coins.ph'
+};
+
+const BANK_NAMES: Record<string, string> = {
+  bdo: 'BDO',
+  bpi: 'BPI',
+  metrobank: 'Metrobank',
+  landbank: 'Landbank',
+  unionbank: 'UnionBank',
+  'security bank': 'Security Bank',
+  pnb: 'PNB',
+  rcbc: 'RCBC',
+  chinabank: 'China Bank',
+  'china bank': 'China Bank',
+  gotyme: 'GoTyme',
+  eastwest: 'EastWest',
+  psbank: 'PSBank'
+};
+
+// 09xx / +639xx / 639xx (and DITO's 0895-0898), with optional spaces or dashes between groups
+export const MOBILE_SOURCE = '(?:\\+?63|0)[\\s-]?(?:9\\d{2}|89[5-8])[\\s-]?\\d{3}[\\s-]?\\d{4}';
+const MOBILE_PATTERN = new RegExp(`(?<![\\d+])${MOBILE_SOURCE}(?!\\d)`, 'g');
+
+// Look up a display name, ignoring case and spacing ("Security  Bank" -> "Security Bank")
+const displayName = (names: Record<string, string>, matched: string) =>
+  Object.entries(names).find(([key]) => key.replace(/ /g, '') === matched.toLowerCase().replace(/\s+/g, ''))?.[1] || matched;
+
+const escapeName = (name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s*');
+const ACCOUNT_CUE = '(?:\\s*(?:account|acct\\.?|acc\\.?|a\\/c|savings|sa|ca))?(?:\\s*(?:number|num|no\\.?|#))?\\s*[:\\-]?\\s*';
+
+// "GCash 0917 123 4567", "send to maya: +63 917 ..."
+const EWALLET_PATTERN = new RegExp(`\\b(${Object.keys(EWALLET_NAMES).map(escapeName).join('|')})${ACCOUNT_CUE}(${MOBILE_SOURCE})`, 'gi');
+// "BDO account no. 0012-3456-7890" or a bare "account number: 1234567890"
+const BANK_ACCOUNT_PATTERN = new RegExp(
+  `\\b(?:(${Object.keys(BANK_NAMES).map(escapeName).join('|')})${ACCOUNT_CUE}|(?:account|acct\\.?|a\\/c)\\s*(?:number|num|no\\.?|#)\\s*[:\\-]?\\s*)(\\d(?:[\\s-]?\\d){9,15})(?!\\d)`,
+  'gi'
+);
+
+/**
+ * Normalise a Philippine mobile number to E.164
+ * @param raw - Number in 09xx, 639xx or +639xx form, with or without separators
+ * @returns "+639XXXXXXXXX", or null if it is not a PH mobile number
+ */
+export function normalizeMobileNumber(raw: string): string | null {
+  const digits = raw.replace(/\D/g, '');
+  const national = digits.startsWith('63') ? digits.slice(2) : digits.startsWith('0') ? digits.slice(1) : digits;
+  return /^(?:9\d{9}|89[5-8]\d{7})$/.test(national) ? `+63${national}` : null;
+}
+
+// Network whose prefix block the number belongs to
+export function identifyNetwork(normalized: string): string | null {
+  const prefix = `0${normalized.slice(3, 6)}`;
+  const match = Object.entries(NETWORK_PREFIXES).find(([, prefixes]) => prefixes.includes(prefix));
+  return match ? match[0] : null;
+}
+
+/**
+ * Extract mobile numbers, e-wallet accounts and bank account numbers from text
+ * @param content - The submitted text
+ * @returns One identifier per distinct normalised value; a number named as an e-wallet is reported once, as the e-wallet
+ */
+export function extractContacts(content: string): ContactIdentifier[] {
+  const text = content || '';
+  const found = new Map<string, ContactIdentifier>();
+
+  for (const match of text.matchAll(EWALLET_PATTERN)) {
+    const normalized = normalizeMobileNumber(match[2]);
+    if (!normalized || found.has(normalized)) continue;
+    found.set(normalized, {
+      kind: 'ewallet',
+      value: match[2].trim(),
+      normalized,
+      network: identifyNetwork(normalized),
+      provider: displayName(EWALLET_NAMES, match[1])
+    });
+  }
+
+  for (const match of text.matchAll(MOBILE_PATTERN)) {
+    const normalized = normalizeMobileNumber(match[0]);
+    if (!normalized || found.has(normalized)) continue;
+    found.set(normalized, { kind: 'mobile', value: match[0].trim(), normalized, network: identifyNetwork(normalized), provider: null });
+  }
+
+  for (const match of text.matchAll(BANK_ACCOUNT_PATTERN)) {
+    const normalized = match[2].replace(/\D/g, '');
+    // A digit run after "account" may just be a mobile number already reported above
+    const asMobile = normalizeMobileNumber(normalized);
+    if (found.has(normalized) || (asMobile && found.has(asMobile))) continue;
+    found.set(normalized, {
+      kind: 'bank-account',
+      value: match[2].trim(),
+      normalized,
+      network: null,
+      provider: match[1] ? displayName(BANK_NAMES, match[1]) : null
+    });
+  }
+
+  return Array.from(found.values());
+}
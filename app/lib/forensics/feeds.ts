@@ -0,0 +1,266 @@
+import path from 'path';
+import { normalizeMobileNumber } from './contacts';
+import { normalizeReportUrl } from '../community/reports';
+
+// Parsers for threat-intelligence feeds: blocklists of scam domains, URLs, numbers and accounts taken
+// from PNP-ACG and CICC advisories and similar sources. Three layouts are accepted - CSV with a header
+// row, JSON (a list of entries or { source, date, indicators: [...] }) and STIX 2.x bundles - and every
+// entry is reduced to a normalised indicator with its source, reference and report date.
+
+export type IndicatorKind = 'domain' | 'url' | 'mobile' | 'account';
+export type FeedFormat = 'csv' | 'json' | 'stix';
+
+export interface FeedIndicator {
+  kind: IndicatorKind;
+  value: string; // Normalised: lowercase host, host + path, +639XXXXXXXXX or account digits
+  source: string; // Publisher, e.g. "PNP-ACG"
+  reference: string | null; // Advisory URL or identifier
+  reportedAt: string | null; // ISO timestamp of the advisory, when the feed gives one
+  description: string | null;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  indicators: FeedIndicator[];
+  skipped: number; // Entries that could not be recognised as a supported indicator
+}
+
+export interface FeedDefaults {
+  source?: string; // Used for entries without their own source (default: the file name)
+  reportedAt?: string;
+}
+
+// Entry fields before normalisation, whatever the feed layout called them
+interface RawEntry {
+  kind?: string;
+  value?: string;
+  source?: string;
+  reference?: string;
+  reportedAt?: string;
+  description?: string;
+}
+
+// Column and property names accepted for each field (compared case-insensitively)
+const FIELD_ALIASES: Record<keyof RawEntry, string[]> = {
+  kind: ['type', 'kind', 'indicator_type', 'indicatortype'],
+  value: ['value', 'indicator', 'ioc'],
+  source: ['source', 'publisher', 'reported_by', 'reportedby'],
+  reference: ['reference', 'advisory', 'url_reference', 'link'],
+  reportedAt: ['date', 'reported_at', 'reportedat', 'first_seen', 'firstseen', 'published'],
+  description: ['description', 'notes', 'label', 'name']
+};
+
+// Accepted spellings of each kind
+const KIND_ALIASES: Record<string, IndicatorKind> = {
+  domain: 'domain',
+  'domain-name': 'domain',
+  hostname: 'domain',
+  url: 'url',
+  link: 'url',
+  mobile: 'mobile',
+  phone: 'mobile',
+  'phone-number': 'mobile',
+  'x-phone-number': 'mobile',
+  account: 'account',
+  'bank-account': 'account',
+  'x-bank-account': 'account',
+  ewallet: 'mobile'
+};
+
+const HOST_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// Advisories publish indicators "defanged" so they cannot be clicked: hxxps://bdo-login[.]xyz
+export const refang = (value: string) => value.trim()
+  .replace(/^hxxp/i, 'http')
+  .replace(/\[\.\]|\(\.\)|\{\.\}|\[dot\]/gi, '.')
+  .replace(/\[:\]/g, ':');
+
+const toIsoDate = (value: string | undefined) => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+function inferKind(value: string): IndicatorKind | null {
+  if (/^[a-z]+:\/\//i.test(value) || (value.includes('/') && HOST_PATTERN.test(value.split('/')[0].toLowerCase()))) return 'url';
+  if (HOST_PATTERN.test(value.toLowerCase().replace(/^www\./, ''))) return 'domain';
+  if (normalizeMobileNumber(value)) return 'mobile';
+  if (/^\d(?:[\s-]?\d){9,15}$/.test(value)) return 'account';
+  return null;
+}
+
+/**
+ * Normalise an indicator so the same domain, link, number or account always gets the same value
+ * @param kind - Declared kind (any accepted spelling), or null to infer it from the value
+ * @param raw - The indicator as published, possibly defanged
+ * @returns Kind and normalised value, or null if it is not a supported indicator
+ */
+export function normalizeIndicator(kind: string | null, raw: string): { kind: IndicatorKind; value: string } | null {
+  const value = refang(raw);
+  if (!value) return null;
+  const resolvedKind = kind ? KIND_ALIASES[kind.trim().toLowerCase()] || null : inferKind(value);
+
+  switch (resolvedKind) {
+    case 'domain': {
+      const host = value.replace(/^[a-z]+:\/\//i, '').split(/[/?#:]/)[0].toLowerCase().replace(/\.$/, '').replace(/^www\./, '');
+      return HOST_PATTERN.test(host) ? { kind: 'domain', value: host } : null;
+    }
+    case 'url': {
+      const normalized = normalizeReportUrl(value);
+      return normalized ? { kind: 'url', value: normalized.url } : null;
+    }
+    case 'mobile': {
+      const normalized = normalizeMobileNumber(value);
+      return normalized ? { kind: 'mobile', value: normalized } : null;
+    }
+    case 'account': {
+      const digits = value.replace(/[\s-]/g, '');
+      return /^\d{10,16}$/.test(digits) ? { kind: 'account', value: digits } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Read one field from an object using the accepted aliases
+function pickField(record: Record<string, unknown>, field: keyof RawEntry): string | undefined {
+  const key = Object.keys(record).find(name => FIELD_ALIASES[field].includes(name.toLowerCase()));
+  const value = key ? record[key] : undefined;
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+}
+
+const toRawEntry = (record: Record<string, unknown>): RawEntry => ({
+  kind: pickField(record, 'kind'),
+  value: pickField(record, 'value'),
+  source: pickField(record, 'source'),
+  reference: pickField(record, 'reference'),
+  reportedAt: pickField(record, 'reportedAt'),
+  description: pickField(record, 'description')
+});
+
+// Split CSV text into rows, honouring quoted fields with commas, quotes ("") and line breaks
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function parseCsv(text: string): RawEntry[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map(name => name.trim());
+  // A file without a recognisable header is a bare list of indicators, one per line
+  if (!columns.some(name => FIELD_ALIASES.value.includes(name.toLowerCase()))) {
+    return [header, ...rows].map(cells => ({ value: cells[0]?.trim() }));
+  }
+  return rows.map(cells => toRawEntry(Object.fromEntries(columns.map((name, index) => [name, cells[index] ?? '']))));
+}
+
+function parseJsonEntries(document: any): RawEntry[] {
+  const list = Array.isArray(document) ? document : Array.isArray(document?.indicators) ? document.indicators : [];
+  const feedLevel = Array.isArray(document) ? {} : toRawEntry(document || {});
+  return list.map((item: unknown) => {
+    const entry = typeof item === 'string' ? { value: item } : toRawEntry((item || {}) as Record<string, unknown>);
+    // Entries inherit the feed-level source, reference and date
+    return {
+      ...entry,
+      source: entry.source || feedLevel.source,
+      reference: entry.reference || feedLevel.reference,
+      reportedAt: entry.reportedAt || feedLevel.reportedAt
+    };
+  });
+}
+
+// "[domain-name:value = 'bdo-login.xyz' OR url:value = 'http://...']"
+const STIX_COMPARISON = /([a-z0-9-]+):value\s*=\s*'((?:[^'\\]|\\.)*)'/gi;
+
+function parseStix(bundle: any): RawEntry[] {
+  const objects: any[] = Array.isArray(bundle.objects) ? bundle.objects : [];
+  const identities = new Map(objects.filter(object => object.type === 'identity').map(object => [object.id, object.name]));
+  return objects
+    .filter(object => object.type === 'indicator' && typeof object.pattern === 'string')
+    .flatMap(object => {
+      const reference = object.external_references?.find((item: any) => item.url || item.external_id);
+      const comparisons = Array.from((object.pattern as string).matchAll(STIX_COMPARISON));
+      // An indicator without a usable comparison still counts as skipped
+      return (comparisons.length ? comparisons : [null]).map(match => ({
+        kind: match?.[1],
+        value: match?.[2].replace(/\\(.)/g, '$1'),
+        source: identities.get(object.created_by_ref) || reference?.source_name,
+        reference: reference?.url || reference?.external_id,
+        reportedAt: object.valid_from || object.created,
+        description: object.description || object.name
+      }));
+    });
+}
+
+/**
+ * Parse a feed file into normalised indicators; the layout is chosen from the extension and contents
+ * @param fileName - Name of the feed file (".csv", ".json" or ".stix.json")
+ * @param text - File contents
+ * @param defaults - Source and date for entries that don't carry their own
+ * @throws Error if the file is not valid CSV/JSON
+ */
+export function parseFeed(fileName: string, text: string, defaults: FeedDefaults = {}): ParsedFeed {
+  let format: FeedFormat;
+  let entries: RawEntry[];
+  if (path.extname(fileName).toLowerCase() === '.csv') {
+    format = 'csv';
+    entries = parseCsv(text);
+  } else {
+    const document = JSON.parse(text.replace(/^\uFEFF/, ''));
+    format = document?.type === 'bundle' ? 'stix' : 'json';
+    entries = format === 'stix' ? parseStix(document) : parseJsonEntries(document);
+  }
+
+  const fallbackSource = defaults.source || path.basename(fileName).replace(/(\.stix)?\.(csv|json)$/i, '');
+  const indicators: FeedIndicator[] = [];
+  let skipped = 0;
+  for (const entry of entries) {
+    const normalized = entry.value ? normalizeIndicator(entry.kind || null, entry.value) : null;
+    if (!normalized) {
+      skipped++;
+      continue;
+    }
+    indicators.push({
+      ...normalized,
+      source: entry.source || fallbackSource,
+      reference: entry.reference || null,
+      reportedAt: toIsoDate(entry.reportedAt) || toIsoDate(defaults.reportedAt),
+      description: entry.description || null
+    });
+  }
+  return { format, indicators, skipped };
+}
@@ -0,0 +1,120 @@
+import path from 'path';
+import { JsonFileDocument } from '../storage/jsonDocument';
+import { ContactIdentifier, ContactKind, extractContacts } from './contacts';
+
+// Locally maintained record of numbers and accounts that have been reported as used in scams.
+// Kept as a single JSON file (CONTACT_REPUTATION_PATH) so it can be reviewed, edited by hand and
+// shipped between environments; entries are keyed by normalised identifier. The file is reloaded
+// whenever it changes on disk, so hand edits take effect without a restart.
+
+export interface ContactReputation {
+  identifier: string; // Normalised number or account
+  kind: ContactKind;
+  reportCount: number;
+  firstReported: string; // ISO timestamp
+  lastReported: string; // ISO timestamp
+  labels: string[]; // Short descriptions such as "fake GCash agent"
+  sources: string[]; // Where the reports came from, e.g. "manual", "community"
+}
+
+export interface ContactFinding extends ContactIdentifier {
+  reputation: ContactReputation | null; // Null when the identifier has never been reported
+}
+
+export interface ContactReport {
+  identifier: string; // Raw or normalised; mobile numbers are normalised before storing
+  kind?: ContactKind;
+  label?: string;
+  source?: string;
+  reports?: number; // Number of reports to add at once (default 1)
+}
+
+interface ReputationFileContents {
+  contacts: Record<string, ContactReputation>;
+}
+
+const DEFAULT_REPUTATION_FILE = path.join(process.cwd(), '.data', 'contact-reputation.json');
+
+export class ContactReputationStore {
+  private readonly document: JsonFileDocument<ReputationFileContents>;
+
+  constructor(filePath: string) {
+    this.document = new JsonFileDocument(filePath, () => ({ contacts: {} }), 'Contact reputation');
+  }
+
+  /**
+   * Attach reputation records to extracted contacts
+   * @param contacts - Identifiers from extractContacts
+   * @returns The same contacts with their reputation (null when never reported)
+   */
+  lookup(contacts: ContactIdentifier[]): Promise<ContactFinding[]> {
+    if (contacts.length === 0) return Promise.resolve([]);
+    return this.document.read(({ contacts: reputations }) => contacts.map(contact => ({
+      ...contact,
+      reputation: reputations[contact.normalized] || null
+    })));
+  }
+
+  /**
+   * Record a report against a number or account
+   * @param report - The reported identifier with an optional label and source
+   * @returns The updated reputation record
+   */
+  record(report: ContactReport): Promise<ContactReputation> {
+    const parsed = extractContacts(report.identifier)[0];
+    const identifier = parsed?.normalized || report.identifier.replace(/[^\d+]/g, '');
+    const kind = report.kind || parsed?.kind || 'mobile';
+    const source = report.source || 'manual';
+
+    return this.document.update(({ contacts }) => {
+      const now = new Date().toISOString();
+      const existing = contacts[identifier];
+      const updated: ContactReputation = existing
+        ? {
+          ...existing,
+          reportCount: existing.reportCount + (report.reports || 1),
+          lastReported: now,
+          labels: report.label && !existing.labels.includes(report.label) ? [...existing.labels, report.label] : existing.labels,
+          sources: existing.sources.includes(source) ? existing.sources : [...existing.sources, source]
+        }
+        : {
+          identifier,
+          kind,
+          reportCount: report.reports || 1,
+          firstReported: now,
+          lastReported: now,
+          labels: report.label ? [report.label] : [],
+          sources: [source]
+        };
+      contacts[identifier] = updated;
+      return updated;
+    });
+  }
+}
+
+// Global store instance, kept on globalThis so dev-server hot reloads reuse it
+const globalForReputation = globalThis as unknown as { contactReputation?: ContactReputationStore };
+
+export function getContactReputationStore(): ContactReputationStore {
+  if (!globalForReputation.contactReputation) {
+    globalForReputation.contactReputation = new ContactReputationStore(process.env.CONTACT_REPUTATION_PATH || DEFAULT_REPUTATION_FILE);
+  }
+  return globalForReputation.contactReputation;
+}
+
+/**
+ * Render contact findings as an evidence block for the model prompt
+ * @param findings - Findings from ContactReputationStore.lookup
+ * @returns Plain-text evidence, or an empty string when no contacts were found
+ */
+export function formatContactEvidence(findings: ContactFinding[]): string {
+  if (findings.length === 0) return '';
+  return findings.map(finding => {
+    const label = finding.kind === 'ewallet' ? `${finding.provider} e-wallet` : finding.kind === 'bank-account' ? `${finding.provider || 'bank'} account` : 'mobile number';
+    const network = finding.network ? `, ${finding.network} prefix` : '';
+    const reputation = finding.reputation
+      ? `REPORTED ${finding.reputation.reportCount} time(s) as used in scams${finding.reputation.labels.length ? ` (${finding.reputation.labels.join(', ')})` : ''}`
+      : 'no prior reports in the local reputation store';
+    return `- ${label} ${finding.value} (${finding.normalized}${network}): ${reputation}`;
+  }).join('\n');
+}
@@ -0,0 +1,232 @@
+import { domainToUnicode } from 'url';
+import { PROTECTED_BRANDS, ProtectedBrand } from './brands';
+
+// Deterministic URL analysis run on every link in the submitted text before the model sees it.
+// Everything here is derived from the URL string alone - no network lookups.
+
+export type UrlSignalCode =
+  | 'official-domain'
+  | 'punycode'
+  | 'homoglyph'
+  | 'lookalike'
+  | 'typosquat'
+  | 'suspicious-tld'
+  | 'ip-literal'
+  | 'credentials'
+  | 'shortener'
+  | 'insecure';
+
+export interface UrlSignal {
+  code: UrlSignalCode;
+  severity: 'high' | 'medium' | 'low' | 'info';
+  message: string;
+  weight: number; // Contribution to the URL's risk score (0-100)
+}
+
+export interface UrlFinding {
+  url: string; // As it appeared in the content
+  host: string; // Hostname as parsed (punycode for IDNs)
+  displayHost: string; // Unicode form of the hostname
+  registrableDomain: string; // e.g. "bdo.com.ph" for "online.bdo.com.ph"
+  impersonatedBrand: string | null; // Brand the host appears to imitate
+  signals: UrlSignal[];
+  riskScore: number; // 0-100, capped sum of signal weights
+}
+
+// Link shorteners commonly used to hide the real destination in scam SMS
+export const SHORTENER_HOSTS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'is.gd', 'ow.ly', 'cutt.ly', 's.id',
+  'rb.gy', 'tiny.cc', 'buff.ly', 'shorturl.at', 'rebrand.ly'
+];
+
+// Cheap or abuse-prone TLDs frequently seen in phishing campaigns
+export const SUSPICIOUS_TLDS = [
+  'xyz', 'top', 'online', 'site', 'info', 'click', 'link', 'live', 'icu',
+  'buzz', 'shop', 'vip', 'cc', 'club', 'work', 'rest', 'cyou'
+];
+
+// Second-level suffixes under which the registrable domain has three labels
+const MULTI_LABEL_SUFFIXES = ['com.ph', 'net.ph', 'org.ph', 'gov.ph', 'edu.ph', 'mil.ph', 'co.uk', 'com.au', 'com.sg'];
+
+// Characters that render like Latin letters (Cyrillic, Greek, fullwidth) and common digit swaps
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ԁ': 'd',
+  'ѕ': 's', 'һ': 'h', 'ӏ': 'l', 'ɡ': 'g', 'α': 'a', 'ο': 'o', 'ρ': 'p', 'ν': 'v', 'κ': 'k', 'ι': 'i',
+  'ｇ': 'g', 'ｃ': 'c', 'ａ': 'a', 'ｓ': 's', 'ｈ': 'h', 'ｂ': 'b', 'ｄ': 'd', 'ｏ': 'o', 'ｐ': 'p', 'ｉ': 'i',
+  '0': 'o', '1': 'l', '3': 'e', '5': 's', '@': 'a'
+};
+
+const IPV4_HOST_PATTERN = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+// Parse a URL that may be missing its scheme
+function parseUrl(rawUrl: string): URL | null {
+  try {
+    return new URL(/^https?:\/\//i.test(rawUrl) ? rawUrl : `http://${rawUrl}`);
+  } catch {
+    return null;
+  }
+}
+
+function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  const lastTwo = labels.slice(-2).join('.');
+  return labels.slice(MULTI_LABEL_SUFFIXES.includes(lastTwo) ? -3 : -2).join('.');
+}
+
+// Map lookalike characters to the Latin letters they imitate; "rn" and "vv" read as "m" and "w"
+function skeleton(value: string): string {
+  return Array.from(value.normalize('NFKC').toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w');
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+// Hostname tokens split on dots and hyphens, ignoring the TLD
+const hostTokens = (host: string): string[] => host.split('.').slice(0, -1).flatMap(label => label.split('-')).filter(Boolean);
+
+// A brand keyword "appears" in a host when a token equals it, or (for longer keywords) contains it
+function containsKeyword(tokens: string[], keyword: string): boolean {
+  return tokens.some(token => token === keyword || (keyword.length >= 5 && token.includes(keyword)));
+}
+
+// Typosquats are only checked for keywords long enough that one or two edits are not a coincidence
+function typosquatDistance(tokens: string[], keyword: string): number | null {
+  if (keyword.length < 5) return null;
+  const maxDistance = keyword.length >= 8 ? 2 : 1;
+  for (const token of tokens) {
+    if (token === keyword || Math.abs(token.length - keyword.length) > maxDistance) continue;
+    const distance = editDistance(token, keyword);
+    if (distance > 0 && distance <= maxDistance) return distance;
+  }
+  return null;
+}
+
+function brandSignals(host: string, displayHost: string, domain: string): { brand: ProtectedBrand | null; signals: UrlSignal[] } {
+  const asciiTokens = hostTokens(host);
+  const skeletonTokens = hostTokens(skeleton(displayHost));
+
+  for (const brand of PROTECTED_BRANDS) {
+    if (brand.officialDomains.includes(domain)) {
+      return {
+        brand: null,
+        signals: [{ code: 'official-domain', severity: 'info', message: `Link is on an official ${brand.name} domain (${domain})`, weight: 0 }]
+      };
+    }
+
+    for (const keyword of brand.keywords) {
+      if (containsKeyword(asciiTokens, keyword)) {
+        return {
+          brand,
+          signals: [{ code: 'lookalike', severity: 'high', message: `Link uses the name "${brand.name}" but is not on an official ${brand.name} domain`, weight: 50 }]
+        };
+      }
+      if (containsKeyword(skeletonTokens, keyword)) {
+        return {
+          brand,
+          signals: [{ code: 'homoglyph', severity: 'high', message: `Link uses lookalike characters to imitate "${brand.name}" (${displayHost})`, weight: 60 }]
+        };
+      }
+      const distance = typosquatDistance(asciiTokens, keyword) ?? typosquatDistance(skeletonTokens, keyword);
+      if (distance !== null) {
+        return {
+          brand,
+          signals: [{ code: 'typosquat', severity: 'high', message: `Link name is ${distance} character(s) away from "${brand.name}" - a likely misspelling to trick you`, weight: 50 }]
+        };
+      }
+    }
+  }
+
+  return { brand: null, signals: [] };
+}
+
+/**
+ * Analyze a single URL
+ * @param rawUrl - URL as found in the content (scheme optional)
+ * @returns Structured finding, or null if the string is not a parseable URL
+ */
+export function analyzeUrl(rawUrl: string): UrlFinding | null {
+  const parsed = parseUrl(rawUrl);
+  if (!parsed) return null;
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  const isIpv6 = host.startsWith('[');
+  const isIp = isIpv6 || IPV4_HOST_PATTERN.test(host);
+  const displayHost = isIp ? host : domainToUnicode(host) || host;
+  const domain = isIp ? host : registrableDomain(host);
+  const tld = isIp ? '' : host.split('.').pop() || '';
+  const signals: UrlSignal[] = [];
+
+  let impersonatedBrand: string | null = null;
+  if (!isIp) {
+    const brandCheck = brandSignals(host, displayHost, domain);
+    impersonatedBrand = brandCheck.brand?.name || null;
+    signals.push(...brandCheck.signals);
+  }
+
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    signals.push({ code: 'punycode', severity: 'medium', message: `Internationalized domain name that displays as "${displayHost}"`, weight: 25 });
+  }
+  if (SUSPICIOUS_TLDS.includes(tld)) {
+    signals.push({ code: 'suspicious-tld', severity: 'medium', message: `Link uses a domain ending (.${tld}) common in phishing`, weight: 30 });
+  }
+  if (isIp) {
+    signals.push({ code: 'ip-literal', severity: 'high', message: 'Link points to a raw IP address instead of a domain', weight: 40 });
+  }
+  if (parsed.username || parsed.password) {
+    signals.push({ code: 'credentials', severity: 'high', message: 'Link contains embedded credentials that can disguise the real site', weight: 40 });
+  }
+  if (SHORTENER_HOSTS.includes(host)) {
+    signals.push({ code: 'shortener', severity: 'medium', message: 'Shortened link hides the real destination', weight: 30 });
+  }
+  if (/^http:\/\//i.test(rawUrl)) {
+    signals.push({ code: 'insecure', severity: 'low', message: 'Link does not use a secure (https) connection', weight: 10 });
+  }
+
+  return {
+    url: rawUrl,
+    host,
+    displayHost,
+    registrableDomain: domain,
+    impersonatedBrand,
+    signals,
+    riskScore: Math.min(100, signals.reduce((total, signal) => total + signal.weight, 0))
+  };
+}
+
+// Analyze every URL, skipping strings that do not parse
+export function analyzeUrls(urls: string[]): UrlFinding[] {
+  return urls.map(analyzeUrl).filter((finding): finding is UrlFinding => finding !== null);
+}
+
+/**
+ * Render URL findings as an evidence block for the model prompt
+ * @param findings - Findings from analyzeUrls
+ * @returns Plain-text evidence, or an empty string when there are no URLs
+ */
+export function formatUrlEvidence(findings: UrlFinding[]): string {
+  if (findings.length === 0) return '';
+  return findings.map(finding => {
+    const lines = [`- ${finding.url} (host: ${finding.displayHost}, registrable domain: ${finding.registrableDomain}, risk score: ${finding.riskScore}/100)`];
+    finding.signals.forEach(signal => lines.push(`    * [${signal.severity}] ${signal.message}`));
+    if (finding.signals.length === 0) lines.push('    * No local warning signs');
+    return lines.join('\n');
+  }).join('\n');
+}
@@ -0,0 +1,161 @@
+import { NextRequest } from 'next/server';
+import { POST as detectScam } from '../../api/detect-scam/route';
+import { markInternal } from '../access/control';
+import { AnalysisJob, JobPayload, JobStore, jobsPath } from './store';
+import { deliverWebhook, isWebhookEnabled } from './webhooks';
+
+// In-process worker for asynchronous analysis jobs. Jobs run through the regular detection route, at most
+// JOB_CONCURRENCY at a time; the queue itself lives in the job store, so jobs submitted before a restart
+// are picked up again when the queue starts (see instrumentation.ts).
+
+export type JobAnalyzer = (payload: JobPayload) => Promise<{ status: number; body: any }>;
+
+const DEFAULT_CONCURRENCY = 2;
+
+export const jobConcurrency = () => {
+  const concurrency = Number(process.env.JOB_CONCURRENCY);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+};
+
+// The job as reported by the status endpoint and in webhooks (without the submitted content)
+export function publicJob(job: AnalysisJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt || null,
+    finishedAt: job.finishedAt || null,
+    ...(job.result !== undefined ? { result: job.result } : {}),
+    ...(job.error ? { error: job.error } : {}),
+    ...(job.callback ? {
+      callback: {
+        status: job.callback.status,
+        attempts: job.callback.attempts,
+        lastAttemptAt: job.callback.lastAttemptAt || null,
+        ...(job.callback.lastError ? { lastError: job.callback.lastError } : {})
+      }
+    } : {})
+  };
+}
+
+export class JobQueue {
+  private workers = 0;
+  private wakeUp = false; // Set when a job is queued while every worker is busy
+  private started: Promise<void> | null = null;
+
+  constructor(private readonly store: JobStore, private readonly analyze: JobAnalyzer, private readonly concurrency: number) {}
+
+  // Resume after a restart: requeue interrupted jobs, resend undelivered webhooks and work through the queue
+  start(): Promise<void> {
+    if (!this.started) {
+      this.started = (async () => {
+        const { requeued, failed } = await this.store.requeueInterrupted();
+        if (requeued || failed) {
+          console.log(`🔁 Analysis jobs interrupted by a restart: ${requeued} requeued, ${failed} failed after repeated interruptions`);
+        }
+        (await this.store.pendingCallbacks()).forEach(job => this.notify(job));
+        this.pump();
+      })().catch(error => {
+        this.started = null; // Try again on the next submission
+        throw error;
+      });
+    }
+    return this.started;
+  }
+
+  async submit(payload: JobPayload, callbackUrl?: string): Promise<AnalysisJob> {
+    await this.start();
+    const job = await this.store.create(payload, callbackUrl);
+    console.log(`🧾 Queued analysis job ${job.id}${callbackUrl ? ' with a callback' : ''}`);
+    this.pump();
+    return job;
+  }
+
+  get(id: string): Promise<AnalysisJob | null> {
+    return this.store.get(id);
+  }
+
+  private pump(): void {
+    this.wakeUp = true;
+    while (this.workers < this.concurrency) {
+      this.workers++;
+      this.work()
+        .catch(error => console.error('❌ Analysis job worker stopped:', error))
+        .finally(() => this.workers--);
+    }
+  }
+
+  private async work(): Promise<void> {
+    for (;;) {
+      this.wakeUp = false;
+      const job = await this.store.claimNext();
+      if (!job) {
+        if (this.wakeUp) continue;
+        return;
+      }
+      await this.run(job);
+    }
+  }
+
+  private async run(job: AnalysisJob): Promise<void> {
+    const startedAt = Date.now();
+    let outcome: { result: any } | { error: { status: number; message: string } };
+    try {
+      const { status, body } = await this.analyze(job.payload || {});
+      outcome = status < 300 ? { result: body } : { error: { status, message: body?.message || 'Analysis failed' } };
+    } catch (error: any) {
+      outcome = { error: { status: 500, message: error.message || 'Analysis failed' } };
+    }
+
+    const finished = await this.store.finish(job.id, outcome);
+    if (!finished) return;
+    console.log(`${finished.status === 'done' ? '✅' : '❌'} Analysis job ${job.id} ${finished.status} in ${Date.now() - startedAt}ms`);
+    // Delivered in the background so slow receivers do not hold up the queue
+    if (finished.callback) this.notify(finished);
+  }
+
+  private notify(job: AnalysisJob): void {
+    const callback = job.callback!;
+    if (!isWebhookEnabled()) {
+      console.error(`❌ Cannot deliver the webhook for analysis job ${job.id}: JOB_WEBHOOK_SECRET is not set`);
+      this.store.updateCallback(job.id, { status: 'failed', lastError: 'Webhooks are disabled (JOB_WEBHOOK_SECRET is not set)' })
+        .catch(error => console.error('Failed to record webhook state:', error));
+      return;
+    }
+
+    deliverWebhook(callback.url, { event: `job.${job.status}`, job: publicJob(job) }, (attempt, error) =>
+      this.store.updateCallback(job.id, {
+        attempts: callback.attempts + attempt,
+        lastAttemptAt: new Date().toISOString(),
+        lastError: error || undefined
+      }))
+      .then(async delivered => {
+        await this.store.updateCallback(job.id, { status: delivered ? 'delivered' : 'failed' });
+        if (delivered) console.log(`📨 Webhook for analysis job ${job.id} delivered`);
+        else console.error(`❌ Webhook for analysis job ${job.id} could not be delivered to ${new URL(callback.url).host}`);
+      })
+      .catch(error => console.error(`❌ Webhook for analysis job ${job.id} failed:`, error));
+  }
+}
+
+// Global queue instance, kept on globalThis so dev-server hot reloads reuse it
+const globalForJobs = globalThis as unknown as { analysisJobs?: JobQueue };
+
+// Jobs run through the detection route in-process, exactly as a direct request to /api/detect-scam; they
+// were charged to the client's limits when submitted
+const analyzeWithRoute: JobAnalyzer = async (payload) => {
+  const response = await detectScam(markInternal(new NextRequest(new URL('/api/detect-scam', 'http://localhost'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  })));
+  return { status: response.status, body: await response.json() };
+};
+
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.analysisJobs) {
+    globalForJobs.analysisJobs = new JobQueue(new JobStore(jobsPath()), analyzeWithRoute, jobConcurrency());
+    globalForJobs.analysisJobs.start().catch(error => console.error('❌ Failed to resume analysis jobs:', error));
+  }
+  return globalForJobs.analysisJobs;
+}
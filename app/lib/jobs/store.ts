@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonFileDocument } from '../storage/jsonDocument';
+
+// Persistent store of asynchronous analysis jobs (/api/detect-scam/jobs). A job keeps its submission until
+// it has run, so queued jobs survive a restart; once finished only the result or error is kept, and
+// finished jobs are dropped after JOB_RETENTION_HOURS. Submissions (which may hold base64 images and
+// recordings) are kept in one file per job, in a directory next to the jobs file, so state changes only
+// rewrite the small job index.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// What was submitted for analysis, as /api/detect-scam accepts it
+export interface JobPayload {
+  content?: string;
+  imageBase64?: string;
+  audioBase64?: string;
+  sender?: string;
+}
+
+export interface CallbackDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  createdAt: string; // ISO timestamp
+  startedAt?: string;
+  finishedAt?: string;
+  attempts: number; // Times the job was started (more than 1 after an interrupted run)
+  payload?: JobPayload; // Loaded from the job's own file; removed once the job has finished
+  result?: any; // The detection response, when done
+  error?: { status: number; message: string }; // When failed
+  callback?: CallbackDelivery;
+}
+
+interface JobsFileContents {
+  jobs: AnalysisJob[];
+}
+
+const DEFAULT_JOBS_FILE = path.join(process.cwd(), '.data', 'analysis-jobs.json');
+const DEFAULT_RETENTION_HOURS = 72;
+const MAX_JOB_ATTEMPTS = 3;
+
+const retentionMs = () => (Number(process.env.JOB_RETENTION_HOURS) || DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000;
+
+export class JobStore {
+  private readonly document: JsonFileDocument<JobsFileContents>;
+  private readonly payloadDir: string;
+
+  constructor(filePath: string) {
+    this.document = new JsonFileDocument(filePath, () => ({ jobs: [] }), 'Analysis jobs');
+    // .data/analysis-jobs.json keeps its submissions in .data/analysis-jobs/<id>.json
+    this.payloadDir = path.join(path.dirname(filePath), path.basename(filePath, path.extname(filePath)));
+  }
+
+  private payloadPath(id: string): string {
+    return path.join(this.payloadDir, `${id}.json`);
+  }
+
+  private async writePayload(id: string, payload: JobPayload): Promise<void> {
+    await fs.mkdir(this.payloadDir, { recursive: true });
+    const tempPath = `${this.payloadPath(id)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(payload));
+    await fs.rename(tempPath, this.payloadPath(id));
+  }
+
+  // The submission of a job, or an empty one when its file is missing or unreadable
+  private async readPayload(id: string): Promise<JobPayload> {
+    try {
+      return JSON.parse(await fs.readFile(this.payloadPath(id), 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.error(`Analysis job payload ${this.payloadPath(id)} is unreadable:`, error);
+      return {};
+    }
+  }
+
+  private async deletePayloads(ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => fs.rm(this.payloadPath(id), { force: true })));
+  }
+
+  /**
+   * Queue a new job; finished jobs past the retention period are dropped at the same time
+   * @param callbackUrl - Where to send the completion webhook, if anywhere
+   */
+  async create(payload: JobPayload, callbackUrl?: string): Promise<AnalysisJob> {
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      ...(callbackUrl ? { callback: { url: callbackUrl, status: 'pending', attempts: 0 } } : {})
+    };
+    // The submission is written before the job is listed, so a listed job always has one
+    await this.writePayload(job.id, payload);
+    await this.document.update(document => {
+      const cutoff = new Date(Date.now() - retentionMs()).toISOString();
+      document.jobs = document.jobs.filter(item => !item.finishedAt || item.finishedAt >= cutoff);
+      document.jobs.push(job);
+    });
+    return { ...structuredClone(job), payload };
+  }
+
+  get(id: string): Promise<AnalysisJob | null> {
+    return this.document.read(({ jobs }) => {
+      const job = jobs.find(item => item.id === id);
+      return job ? structuredClone(job) : null;
+    });
+  }
+
+  // Mark the oldest queued job as running and return it with its submission, or null when nothing is queued
+  async claimNext(): Promise<AnalysisJob | null> {
+    const job = await this.document.update(({ jobs }) => {
+      const queued = jobs.find(item => item.status === 'queued');
+      if (!queued) return null;
+      queued.status = 'running';
+      queued.startedAt = new Date().toISOString();
+      queued.attempts++;
+      return structuredClone(queued);
+    });
+    if (!job) return null;
+    // Jobs queued before submissions moved to their own files still carry it in the index
+    return { ...job, payload: job.payload || await this.readPayload(job.id) };
+  }
+
+  /**
+   * Record the outcome of a running job and drop its submission
+   * @returns The finished job, or null if the id is unknown
+   */
+  async finish(id: string, outcome: { result: any } | { error: { status: number; message: string } }): Promise<AnalysisJob | null> {
+    const job = await this.document.update(({ jobs }) => {
+      const running = jobs.find(item => item.id === id);
+      if (!running) return null;
+      running.status = 'result' in outcome ? 'done' : 'failed';
+      running.finishedAt = new Date().toISOString();
+      Object.assign(running, outcome);
+      delete running.payload;
+      return structuredClone(running);
+    });
+    if (job) await this.deletePayloads([id]);
+    return job;
+  }
+
+  // Record a webhook delivery attempt
+  updateCallback(id: string, update: Partial<CallbackDelivery>): Promise<void> {
+    return this.document.update(({ jobs }) => {
+      const job = jobs.find(item => item.id === id);
+      if (job?.callback) Object.assign(job.callback, update);
+    });
+  }
+
+  /**
+   * Put jobs that were running when the process stopped back in the queue. A job that was already
+   * interrupted MAX_JOB_ATTEMPTS times fails instead, so a submission that crashes the server is not retried forever
+   * @returns The number of jobs requeued and failed
+   */
+  async requeueInterrupted(): Promise<{ requeued: number; failed: number }> {
+    const failedIds: string[] = [];
+    const outcome = await this.document.update(({ jobs }) => {
+      const counts = { requeued: 0, failed: 0 };
+      for (const job of jobs.filter(item => item.status === 'running')) {
+        if (job.attempts >= MAX_JOB_ATTEMPTS) {
+          job.status = 'failed';
+          job.finishedAt = new Date().toISOString();
+          job.error = { status: 500, message: `Analysis was interrupted ${job.attempts} times and was not retried` };
+          delete job.payload;
+          failedIds.push(job.id);
+          counts.failed++;
+        } else {
+          job.status = 'queued';
+          delete job.startedAt;
+          counts.requeued++;
+        }
+      }
+      return counts;
+    });
+    await this.deletePayloads(failedIds);
+    return outcome;
+  }
+
+  // Finished jobs whose webhook was not delivered before the process stopped
+  pendingCallbacks(): Promise<AnalysisJob[]> {
+    return this.document.read(({ jobs }) => jobs.filter(job => job.finishedAt && job.callback?.status === 'pending').map(job => structuredClone(job)));
+  }
+}
+
+export const jobsPath = () => process.env.JOBS_PATH || DEFAULT_JOBS_FILE;
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Completion webhooks for analysis jobs. The body is signed with HMAC-SHA256 over "<timestamp>.<body>"
+// using JOB_WEBHOOK_SECRET; receivers should recompute the signature, compare it in constant time and
+// reject timestamps more than a few minutes old so a captured delivery cannot be replayed.
+// Callback URLs are supplied by API clients, so webhooks are only sent to public addresses: hosts that
+// resolve to loopback, private, link-local (cloud metadata) or other reserved addresses are refused when
+// the job is submitted and again before every delivery, and redirects are not followed. A delivery connects
+// to the address that was checked instead of resolving the host again, so a DNS answer that changes in
+// between (DNS rebinding) cannot send it elsewhere.
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const DEFAULT_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000; // Multiplied by the attempt number
+
+export const webhookSecret = () => process.env.JOB_WEBHOOK_SECRET || '';
+export const isWebhookEnabled = () => webhookSecret().length > 0;
+
+const maxAttempts = () => {
+  const attempts = Number(process.env.JOB_WEBHOOK_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : DEFAULT_ATTEMPTS;
+};
+
+// Optional list of receiver hosts (JOB_WEBHOOK_ALLOWED_HOSTS, comma-separated); subdomains are included
+const allowedHosts = () => (process.env.JOB_WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// IPv4 ranges that are not reachable on the public internet, as [network, prefix length]
+const RESERVED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+];
+
+const ipv4ToNumber = (address: string) => address.split('.').reduce((total, part) => total * 256 + Number(part), 0);
+
+function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address);
+    return !RESERVED_IPV4.some(([network, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+    });
+  }
+  const normalized = address.toLowerCase();
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPublicAddress(mapped[1]);
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10), multicast and documentation addresses
+  return !(normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized)
+    || normalized.startsWith('ff') || normalized.startsWith('2001:db8:') || normalized.startsWith('::ffff:'));
+}
+
+/**
+ * Resolve a callback host and make sure every address it resolves to is public
+ * @returns An error message, or the address to deliver to
+ */
+async function checkCallbackHost(hostname: string): Promise<{ error: string } | { address: string }> {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return { error: 'callbackUrl must not point to this server' };
+  }
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      return { error: `callbackUrl host ${host} could not be resolved` };
+    }
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return { error: 'callbackUrl must point to a public address, not a loopback, private or link-local one' };
+  }
+  return { address: addresses[0] };
+}
+
+// Check a callback URL, returning the checked address its host resolved to
+async function checkCallbackUrl(value: unknown): Promise<{ error: string } | { url: URL; address: string }> {
+  if (typeof value !== 'string' || value.length > 2048) {
+    return { error: 'callbackUrl must be a URL of at most 2048 characters' };
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { error: 'callbackUrl must be an absolute URL' };
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { error: 'callbackUrl must use http or https' };
+  }
+  if (url.username || url.password) {
+    return { error: 'callbackUrl must not contain credentials' };
+  }
+  const allowed = allowedHosts();
+  const host = url.hostname.toLowerCase();
+  if (allowed.length > 0 && !allowed.some(entry => host === entry || host.endsWith(`.${entry}`))) {
+    return { error: `callbackUrl host ${host} is not in the list of allowed webhook receivers` };
+  }
+  const checked = await checkCallbackHost(url.hostname);
+  return 'error' in checked ? checked : { url, address: checked.address };
+}
+
+/**
+ * Check a callback URL supplied with a job
+ * @returns An error message, or null when the URL can be used
+ */
+export async function validateCallbackUrl(value: unknown): Promise<string | null> {
+  const checked = await checkCallbackUrl(value);
+  return 'error' in checked ? checked.error : null;
+}
+
+/**
+ * POST a body to a URL over a connection to the given address. The request keeps the URL's host for the
+ * Host header and TLS certificate check; only the DNS lookup is replaced. Redirects are not followed
+ * @returns The status code of the answer
+ */
+function postToAddress(url: URL, address: string, headers: Record<string, string>, body: string): Promise<number> {
+  const family = net.isIPv6(address) ? 6 : 4;
+  const lookup: net.LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Signature of a webhook body
+ * @param timestamp - Unix time in seconds, sent in the x-webhook-timestamp header
+ * @returns "sha256=<hex>", sent in the x-webhook-signature header
+ */
+export function signWebhook(body: string, timestamp: number): string {
+  return `sha256=${crypto.createHmac('sha256', webhookSecret()).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POST a signed webhook, retrying failed deliveries (network errors and non-2xx answers)
+ * @param onAttempt - Called after every attempt, to record the delivery state
+ * @returns Whether the receiver accepted the webhook
+ */
+export async function deliverWebhook(
+  url: string,
+  payload: unknown,
+  onAttempt: (attempt: number, error: string | null) => Promise<void>
+): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const attempts = maxAttempts();
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    // Signed per attempt so the timestamp stays fresh across retries
+    const timestamp = Math.floor(Date.now() / 1000);
+    // Checked before every attempt, since the host may resolve to a different address by now
+    const checked = await checkCallbackUrl(url);
+    if ('error' in checked) {
+      await onAttempt(attempt, checked.error);
+      return false;
+    }
+    let error: string | null = null;
+    try {
+      const status = await postToAddress(checked.url, checked.address, {
+        'Content-Type': 'application/json',
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhook(body, timestamp)
+      }, body);
+      // A redirect could lead to an internal address, so it counts as a failed delivery
+      if (status < 200 || status >= 300) error = `Receiver answered ${status}`;
+    } catch (requestError: any) {
+      error = requestError.message || 'Delivery failed';
+    }
+
+    await onAttempt(attempt, error);
+    if (!error) return true;
+    if (attempt < attempts) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+  return false;
+}
@@ -0,0 +1,103 @@
+import { AnalysisProvider } from './types';
+import { ModelOutputParseError } from './errors';
+import { AnalysisMode, normalizeModelOutput, describeModelOutputSchema } from '../schema/modelOutput';
+import { FieldIssue } from '../schema/validator';
+
+// How many times a malformed answer is sent back to the provider for repair
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export interface AnalysisRequest {
+  content: string;
+  imageBase64?: string;
+  audioBase64?: string;
+  evidence?: string; // Local forensic findings passed to the prompt
+}
+
+export interface ModelValidation {
+  valid: boolean;
+  repaired: boolean; // True when the accepted answer came from a repair retry
+  attempts: number; // Provider calls made, including repairs
+  issues: FieldIssue[]; // Field-level issues on the accepted answer (coercions and defaults)
+}
+
+export interface ValidatedAnalysis {
+  analysis: any;
+  validation: ModelValidation;
+}
+
+// Thrown when the provider's answer is still malformed after all repair attempts
+export class ModelOutputValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'ModelOutputValidationError';
+    this.issues = issues;
+  }
+}
+
+const formatIssue = (issue: FieldIssue) => issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+
+/**
+ * Run the provider, validate its answer against the declared output schema and ask it to repair
+ * malformed answers before giving up
+ * @param provider - The analysis provider to call
+ * @param request - Text content plus optional image and audio data
+ * @returns The normalised analysis and a validation report
+ * @throws ModelOutputValidationError when the answer cannot be repaired; other provider errors are re-thrown
+ */
+export async function analyzeWithProvider(provider: AnalysisProvider, request: AnalysisRequest): Promise<ValidatedAnalysis> {
+  const mode: AnalysisMode = request.audioBase64 ? 'audio' : 'text';
+  let attempts = 0;
+  let raw: unknown;
+  let rawOutput = '';
+  let problems: string[] = [];
+
+  for (let repairAttempt = 0; repairAttempt <= MAX_REPAIR_ATTEMPTS; repairAttempt++) {
+    attempts++;
+    try {
+      if (repairAttempt === 0) {
+        raw = mode === 'audio'
+          ? await provider.analyzeAudio(request.content, request.audioBase64!, request.imageBase64, request.evidence)
+          : await provider.analyzeText(request.content, request.imageBase64, request.evidence);
+      } else {
+        console.log(`🔧 Asking ${provider.name} to repair its output (attempt ${repairAttempt}):`, problems);
+        raw = await provider.repairOutput({
+          rawOutput,
+          issues: problems,
+          schemaDescription: describeModelOutputSchema(mode)
+        });
+      }
+    } catch (error) {
+      // Only unparseable answers are worth repairing; network and API errors go straight to the caller
+      if (!(error instanceof ModelOutputParseError)) {
+        throw error;
+      }
+      rawOutput = error.rawOutput;
+      problems = [error.message];
+      continue;
+    }
+
+    const report = normalizeModelOutput(raw, mode);
+    if (report.valid) {
+      return {
+        analysis: report.value,
+        validation: {
+          valid: true,
+          repaired: repairAttempt > 0,
+          attempts,
+          issues: report.issues
+        }
+      };
+    }
+
+    rawOutput = JSON.stringify(raw, null, 2);
+    problems = report.issues.filter(issue => issue.severity === 'error').map(formatIssue);
+    console.warn(`⚠️ ${provider.name} output failed schema validation:`, problems);
+  }
+
+  throw new ModelOutputValidationError(
+    `Model output failed schema validation after ${attempts} attempt(s): ${problems.join('; ')}`,
+    problems
+  );
+}
@@ -0,0 +1,36 @@
+// Thrown when a provider answered but its text could not be parsed as JSON.
+// Carries the raw output so the caller can ask the provider to repair it.
+export class ModelOutputParseError extends Error {
+  rawOutput: string;
+
+  constructor(message: string, rawOutput: string) {
+    super(message);
+    this.name = 'ModelOutputParseError';
+    this.rawOutput = rawOutput;
+  }
+}
+
+/**
+ * Parse model text as JSON, removing markdown code fences if present
+ * @param textContent - Raw text returned by the model
+ * @returns Parsed JSON value
+ * @throws ModelOutputParseError when the text is not valid JSON
+ */
+export function parseModelJson(textContent: string): any {
+  // Clean the text content to remove markdown backticks if present
+  let cleanedTextContent = textContent.trim();
+  if (cleanedTextContent.startsWith("```json")) {
+    cleanedTextContent = cleanedTextContent.substring(7); // Remove ```json
+  }
+  if (cleanedTextContent.endsWith("```")) {
+    cleanedTextContent = cleanedTextContent.substring(0, cleanedTextContent.length - 3); // Remove ```
+  }
+  cleanedTextContent = cleanedTextContent.trim(); // Trim any remaining whitespace
+
+  try {
+    return JSON.parse(cleanedTextContent);
+  } catch (error) {
+    console.error('Error parsing JSON from model response:', error);
+    throw new ModelOutputParseError(`Failed to parse JSON from model response: ${(error as Error).message}`, textContent);
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MOBILE_SOURCE } from '../forensics/contacts';
+
+// Record-and-replay of Gemini generateContent calls, so the detection route can be tested without network
+// access. With GEMINI_EXCHANGE_MODE=record every successful request/response pair is saved as a fixture in
+// GEMINI_EXCHANGES_DIR, keyed by a hash of the request; with GEMINI_EXCHANGE_MODE=replay the fixtures are
+// served instead of calling the API, and a request without a fixture fails instead of reaching Gemini.
+// Fixtures are sanitised before they are written: API keys, e-mail addresses, mobile numbers and long
+// digit runs (account and card numbers) are replaced by placeholders, and inline media by its hash.
+// The committed fixtures are checked by npm run test:replay (see replayCheck.ts); the golden-set evaluation
+// records and replays its own set in a separate directory.
+
+export type ExchangeMode = 'live' | 'record' | 'replay';
+
+export interface GeminiExchange {
+  key: string;
+  label: string; // e.g. "Text/Image Analysis"
+  model: string;
+  recordedAt: string;
+  request: unknown; // Sanitised request body
+  response: any; // Sanitised response body
+}
+
+// Thrown in replay mode when a request has no recorded fixture - usually because the prompt changed
+export class MissingExchangeError extends Error {
+  key: string;
+
+  constructor(key: string, label: string, dir: string) {
+    super(`No recorded Gemini exchange for this ${label} request (${key}) in ${dir}. The prompt or content no longer matches the fixtures; record them again with GEMINI_EXCHANGE_MODE=record.`);
+    this.name = 'MissingExchangeError';
+    this.key = key;
+  }
+}
+
+const DEFAULT_EXCHANGES_DIR = path.join(process.cwd(), 'app', 'lib', 'providers', 'fixtures', 'gemini');
+
+// Applied in order; placeholders are stable so a request with the same shape always gets the same key
+const REDACTIONS: Array<[RegExp, string]> = [
+  [/AIza[0-9A-Za-z_-]{35}/g, '<api-key>'],
+  [/([?&]key=)[^&\s"]+/g, '$1<api-key>'],
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '<email>'],
+  [new RegExp(`(?<![\\d+])${MOBILE_SOURCE}(?!\\d)`, 'g'), '<mobile>'],
+  [/(?<!\d)\d(?:[\s-]?\d){9,18}(?!\d)/g, '<number>']
+];
+
+export const exchangesDir = () => process.env.GEMINI_EXCHANGES_DIR || DEFAULT_EXCHANGES_DIR;
+
+export function exchangeMode(): ExchangeMode {
+  const mode = (process.env.GEMINI_EXCHANGE_MODE || '').trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+const redact = (text: string) => REDACTIONS.reduce((value, [pattern, placeholder]) => value.replace(pattern, placeholder), text);
+
+/**
+ * Copy of a request or response body with personal data and secrets replaced by placeholders
+ * and inline media (base64 images and audio) replaced by its hash
+ */
+export function sanitizeExchange(value: unknown): unknown {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map(sanitizeExchange);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => {
+      const isMedia = (name === 'inline_data' || name === 'inlineData') && item && typeof (item as any).data === 'string';
+      if (isMedia) {
+        const data = (item as any).data as string;
+        return [name, { ...(item as object), data: `sha256:${crypto.createHash('sha256').update(data).digest('hex')}` }];
+      }
+      return [name, sanitizeExchange(item)];
+    }));
+  }
+  return value;
+}
+
+// Fixture key: hash of the sanitised request, so recording and replaying agree without storing secrets
+export function exchangeKey(requestBody: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(sanitizeExchange(requestBody))).digest('hex').slice(0, 32);
+}
+
+const fixtureFile = (key: string) => path.join(exchangesDir(), `${key}.json`);
+
+// Keys of the exchanges this process recorded or replayed, so the replay check can find unused fixtures
+const usedKeys = new Set<string>();
+
+export const usedExchangeKeys = (): ReadonlySet<string> => usedKeys;
+
+/**
+ * Save a successful exchange as a fixture (record mode)
+ * @param requestBody - The body sent to generateContent
+ * @param responseBody - The parsed JSON answer
+ */
+export async function recordExchange(requestBody: unknown, responseBody: unknown, label: string, model: string): Promise<void> {
+  const key = exchangeKey(requestBody);
+  const exchange: GeminiExchange = {
+    key,
+    label,
+    model,
+    recordedAt: new Date().toISOString(),
+    request: sanitizeExchange(requestBody),
+    response: sanitizeExchange(responseBody)
+  };
+  await fs.mkdir(exchangesDir(), { recursive: true });
+  const tempFile = `${fixtureFile(key)}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(exchange, null, 2) + '\n');
+  await fs.rename(tempFile, fixtureFile(key));
+  usedKeys.add(key);
+  console.log(`📼 Recorded Gemini exchange ${key} (${label})`);
+}
+
+/**
+ * Serve the recorded response for a request (replay mode)
+ * @throws MissingExchangeError when no fixture matches the request
+ */
+export async function replayExchange(requestBody: unknown, label: string): Promise<any> {
+  const key = exchangeKey(requestBody);
+  let exchange: GeminiExchange;
+  try {
+    exchange = JSON.parse(await fs.readFile(fixtureFile(key), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      const missing = new MissingExchangeError(key, label, exchangesDir());
+      console.error(`❌ ${missing.message}`);
+      throw missing;
+    }
+    throw error;
+  }
+  usedKeys.add(key);
+  console.log(`📼 Replaying Gemini exchange ${key} (${label}, recorded ${exchange.recordedAt})`);
+  return exchange.response;
+}
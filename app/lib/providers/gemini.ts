@@ -0,0 +1,347 @@
+import { AnalysisProvider, RepairRequest } from './types';
+import { parseModelJson } from './errors';
+import { exchangeMode, recordExchange, replayExchange } from './exchanges';
+
+// API key is now expected to be in an environment variable
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+// Updated to use gemini-2.0-flash model for improved performance and capabilities
+const GEMINI_MODEL = 'gemini-2.0-flash';
+// Construct the URL only if the API key is present
+const GEMINI_API_URL = GEMINI_API_KEY ? `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}` : '';
+
+// Bump these whenever the matching prompt template changes. They are part of the cache key,
+// so verdicts produced by an older prompt are no longer served.
+export const AUDIO_PROMPT_VERSION = 'audio-v3';
+export const TEXT_PROMPT_VERSION = 'text-v3';
+
+interface GeminiResponsePart {
+  text: string;
+}
+
+interface GeminiResponseCandidate {
+  content: {
+    parts: GeminiResponsePart[];
+    role: string;
+  };
+  // Add other candidate properties if needed, like finishReason, safetyRatings, etc.
+}
+
+interface GeminiApiResponse {
+  candidates?: GeminiResponseCandidate[];
+  // Add other top-level response properties if needed, like promptFeedback
+}
+
+// Replayed exchanges need no API key
+const isGeminiAvailable = () => !!GEMINI_API_URL || exchangeMode() === 'replay';
+
+// Deterministic generation settings shared by every Gemini request
+const GENERATION_CONFIG = {
+  temperature: 0,
+  topK: 1,
+  topP: 0,
+  maxOutputTokens: 8192,
+  candidateCount: 1,
+  stopSequences: [],
+  responseMimeType: "application/json"
+};
+
+// Send the prompt parts to Gemini and parse the JSON answer
+async function generateJson(parts: any[], logLabel: string): Promise<any> {
+  try {
+    const requestBody = {
+      contents: [{ parts }],
+      generationConfig: GENERATION_CONFIG
+    };
+
+    let data: GeminiApiResponse;
+    if (exchangeMode() === 'replay') {
+      // Serve the recorded answer for this exact request instead of calling the API
+      data = await replayExchange(requestBody, logLabel);
+    } else {
+      const response = await fetch(GEMINI_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`Gemini API Error Response for ${logLabel}:`, errorBody);
+        throw new Error(`Gemini API request failed with status ${response.status}: ${errorBody}`);
+      }
+      
+      data = await response.json();
+      if (exchangeMode() === 'record') {
+        await recordExchange(requestBody, data, logLabel, GEMINI_MODEL);
+      }
+    }
+    console.log(`Gemini API Full Raw Response Object for ${logLabel}:`, JSON.stringify(data, null, 2));
+    
+    // Extract the text content from the response
+    const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!textContent) {
+      throw new Error('No text content found in Gemini response');
+    }
+    
+    return parseModelJson(textContent);
+  } catch (error) {
+    console.error(`Error calling Gemini API for ${logLabel}:`, error);
+    throw error; // Re-throw the error to be caught by the POST handler
+  }
+}
+
+// Prompt section carrying the local link and contact forensics, so the model reasons from facts instead of guessing
+function evidenceSection(evidence?: string): string {
+  if (!evidence) return '';
+  return `LOCAL FORENSICS FOR LINKS, NUMBERS AND ACCOUNTS (computed deterministically before this request - treat as verified facts):
+${evidence}
+Base your assessment of these links, phone numbers and accounts on the evidence above. A number or account reported in the local reputation store is strong evidence of a scam. You have no access to WHOIS, DNS, or domain age data, so do not guess about registration history or ownership; say so when it matters.
+`;
+}
+
+// Function for audio analysis with Gemini - updated to match the same pattern as text/image analysis
+// Prompt template version: AUDIO_PROMPT_VERSION
+export async function analyzeWithGeminiAudio(content: string, audioBase64: string, imageBase64?: string, evidence?: string): Promise<any> {
+  if (!isGeminiAvailable()) {
+    throw new Error('Gemini API URL is not configured due to missing API key.');
+  }  
+  
+  const prompt = `You are an elite cybersecurity, fraud detection, and risk assessment specialist with expertise in Philippine scams, global digital threats, and potentially harmful content. Your task is to thoroughly analyze the provided audio recording for any signs of scam, phishing, fraudulent activity, misinformation, dangerous content, or other potential risks. The user is likely in the Philippines and needs a comprehensive assessment of all potential hazards.
+
+${content.trim() ? `Additional context provided by user: "${content}"` : "No additional text context provided by the user."}
+${imageBase64 ? "An image has also been provided for analysis alongside the audio, which may provide additional context or supplementary information." : ""}
+${evidenceSection(evidence)}
+SPECIAL INSTRUCTIONS FOR AUDIO CONTENT ANALYSIS:
+Analyze the audio content to assess its purpose, authenticity, and potential risks. Consider:
+
+1. Voice characteristics: natural vs. synthetic speech patterns, emotional cues, accent authenticity
+2. Communication intent: information sharing, persuasion, requesting action, soliciting information
+3. Risk indicators: urgency, emotional manipulation, requests for personal/financial information, pressure tactics
+4. Content credibility: factual consistency, verifiable claims, suspicious promises or threats
+5. Cultural context: Filipino-specific references, targeting of vulnerable demographics
+6. Technical assessment: audio quality, editing marks, background elements that provide context
+7. Voice authenticity: AI-generated or edited speech detection, voice consistency throughout message
+
+Conduct a comprehensive risk assessment of the audio with particular attention to scams and deception techniques common in the Philippines and Southeast Asia. Consider language patterns, urgency indicators, request types, technical elements, contextual red flags, psychological manipulation tactics, and potential harm vectors.
+
+For all audio content, conduct a full-spectrum risk assessment:
+- RISK IDENTIFICATION: Identify ALL potential risks - scams, phishing, fraud, misinformation, harmful content, malicious requests, privacy violations, etc.
+- RISK PROBABILITY: Assess the likelihood of each identified risk using multiple indicators
+- RISK SEVERITY: Evaluate the potential negative impact and consequences if the user engages with this content
+- RISK URGENCY: Determine how immediately dangerous this content might be (immediate vs. latent risks)
+- RISK CLASSIFICATION: Categorize the type of danger (financial, privacy, personal safety, misinformation, etc.)
+
+Provide a structured JSON response with the following fields:
+
+- "isRisky": boolean (true if the content contains ANY potential risks, scams, harmful elements, or misinformation, false only if completely safe).
+- "riskCategories": array of strings (list all risk categories detected: "Scam", "Phishing", "Misinformation", "Privacy Risk", "Financial Risk", "Identity Theft Risk", "Manipulation", "Harmful Content", etc. If none, provide empty array).
+- "overallRiskProbability": number (a percentage from 0 to 100 indicating the overall likelihood of ANY risk being present, being precise in your assessment).
+- "scamProbability": number (a percentage from 0 to 100 indicating the likelihood of it being a scam specifically).
+- "confidenceLevel": string (your confidence level in your overall assessment: "Low", "Medium", or "High", based on the quality and quantity of indicators present).
+- "detailedRiskAnalysis": string (a comprehensive explanation of your findings in English, highlighting ALL potential risks. Clearly identify ALL red flags, linguistic patterns, technical indicators, suspicious elements, and potential harm vectors. Include your reasoning process for each risk identified. Format for readability with clear sections, paragraphs and bullet points as needed).
+- "detailedRiskAnalysisTagalog": string (an accurate and natural-sounding Tagalog translation of the "detailedRiskAnalysis" that preserves all technical details but adapts to local context).
+- "overallRiskLevel": string (categorize the HIGHEST risk detected based on probability AND severity: "Low", "Medium", "High", "Very High", or "Critical").
+- "riskBreakdown": object with the following fields (analyze each major risk category separately):
+    - "scamRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "misinformationRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "privacyRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "technicalRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "manipulationRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "otherRisks": array of objects, each with "name" (string), "level" (string), "probability" (number), "indicators" (array of strings)
+- "safetyAdvice": string (provide detailed, actionable safety advice in English specific to ALL risks identified).
+- "contentClassification": object with the following fields:
+    - "contentType": string (Classify what type of audio this is: phone call, voice message, advertisement, public announcement, educational content, etc.)
+    - "contentPurpose": string (Detailed explanation of what this audio is trying to accomplish, including potential hidden purposes)
+    - "audienceAnalysis": object with the following fields:
+        - "targetAudience": string (Who is the target audience for this content)
+        - "vulnerabilityFactors": array of strings (Specific factors that might make the target audience vulnerable)
+        - "potentialImpact": string (The potential effect or harm this content could have on its audience)
+
+- "audioAnalysis": string (Thorough analysis of the voice recording including transcription of key statements, analysis of voice characteristics, communication techniques employed, and linguistic pattern analysis)
+- "contentVerification": string (A balanced perspective on how to verify or investigate the claims or information presented in the audio)
+- "contentVerificationTagalog": string (A natural Tagalog translation of the content verification explanation)
+- "contentDetails": object with the following fields:
+    - "format": string (The format of the audio: conversation, monologue, interview, advertisement, etc.)
+    - "speakers": number (Estimated number of distinct speakers in the audio)
+    - "languages": array of strings (Languages or dialects used in the audio)
+    - "contentSummary": string (Concise summary of what the audio is about in plain language)
+    - "voiceAuthenticity": object with the following fields:
+        - "isLikelySynthetic": boolean (Whether the voice appears to be AI-generated or heavily edited)
+        - "authenticityIndicators": array of strings (Evidence supporting your authenticity assessment)
+        - "confidenceLevel": string (Confidence in your synthetic voice assessment: "Low", "Medium", or "High")
+
+Ensure your entire response is ONLY the JSON object, with no additional text, comments, or markdown formatting like \`\`\`json ... \`\`\` around it. The JSON must be properly formatted with all string values properly escaped. Each required field must be present in your response even if some have minimal information due to audio limitations or ambiguity.`;
+
+  // Audio data (webm is the format we use for browser recordings) and optional image
+  const parts: any[] = [
+    { text: prompt },
+    { inline_data: { mime_type: 'audio/webm', data: audioBase64 } }
+  ];
+  if (imageBase64) {
+    parts.push({ inline_data: { mime_type: 'image/jpeg', data: imageBase64 } });
+  }
+
+  return generateJson(parts, 'Audio Analysis');
+}
+
+// Prompt template version: TEXT_PROMPT_VERSION
+export async function analyzeWithGemini(content: string, imageBase64?: string, evidence?: string): Promise<any> {  
+  if (!isGeminiAvailable()) { // Check if the URL is empty (meaning API key was missing)
+    throw new Error('Gemini API URL is not configured due to missing API key.');
+  }    const prompt = `You are an elite cybersecurity, fraud detection, and risk assessment specialist with expertise in Philippine scams, global digital threats, and potentially harmful content. Your task is to thoroughly analyze the ${content.trim() ? "following text" : "provided image"} for any signs of scam, phishing, fraudulent activity, misinformation, dangerous content, or other potential risks. The user is likely in the Philippines and needs a comprehensive assessment of all potential hazards.
+
+${content.trim() ? `Content to analyze: "${content}"` : "No text provided for analysis."}
+${imageBase64 ? (content.trim() ? "An image has also been provided for analysis alongside the text." : "Only an image has been provided for analysis.") : ""}
+${evidenceSection(evidence)}
+SPECIAL INSTRUCTIONS FOR WEBSITE ANALYSIS AND RISK ASSESSMENT:
+If the content appears to be a website URL or description of a website, provide an in-depth analysis including:
+1. Website purpose identification - what the site claims to be for and its potential risks
+2. Website legitimacy assessment - whether it appears to be what it claims with multiple verification points
+3. Domain analysis - use the local link forensics (lookalike brands, punycode, typosquats, TLD, IP hosts, shorteners); do not speculate about domain age or ownership
+4. Content analysis - professional vs. suspicious elements, misleading information, dangerous content
+5. Security indicators - https, certificates, privacy policies, data collection practices, permissions requested
+6. Risk patterns analysis - comparison with known scam, phishing, and malicious website patterns
+7. Target audience vulnerability assessment - why specific demographics might be at risk and impact level
+8. Filipino-specific risk indicators - cultural, linguistic or regional factors that increase danger to local users
+9. Technical risk assessment - potential malware, phishing infrastructure, suspicious redirects, data harvesting
+10. Safe browsing recommendations specific to the identified risks
+11. Content trustworthiness evaluation - accuracy, source credibility, factual consistency
+12. Potential harm classification - financial, personal data, misinformation, illegal activities, malicious software
+
+Conduct a comprehensive forensic analysis and risk assessment of the ${content.trim() ? "text" : "image"} with particular attention to all types of potential dangers including scams, misinformation, harmful content, privacy threats, technical vulnerabilities, and manipulation tactics prevalent in the Philippines and Southeast Asia. Consider language patterns, urgency indicators, request types, technical elements, contextual red flags, psychological manipulation tactics, and potential harm vectors. 
+
+For all content, conduct a full-spectrum risk assessment:
+- RISK IDENTIFICATION: Identify ALL potential risks - scams, phishing, fraud, misinformation, dangerous advice, harmful content, malicious links/software, privacy violations, etc.
+- RISK PROBABILITY: Assess the likelihood of each identified risk using multiple indicators
+- RISK SEVERITY: Evaluate the potential negative impact and consequences if the user engages with this content
+- RISK URGENCY: Determine how immediately dangerous this content might be (immediate vs. latent risks)
+- RISK CLASSIFICATION: Categorize the type of danger (financial, privacy, personal safety, misinformation, etc.)
+
+For text content, especially analyze:
+- CONTEXT PURPOSE: What is this text attempting to accomplish? Identify both stated and potential hidden purposes.
+- CONTENT TYPE: Is this a message, email, website text, advertisement, news article, or something else?
+- LANGUAGE ANALYSIS: Evaluate both English and Filipino language elements (Tagalog, Bisaya, etc.), including grammar, style, formality, and manipulation tactics
+- TARGET IDENTIFICATION: Who is this content targeting and why? Assess vulnerability factors for the target audience
+- CULTURAL ELEMENTS: Filipino-specific references, cultural touchpoints, or localized approaches that might be exploited
+- TRUTH ASSESSMENT: Evaluate factual accuracy, source credibility, consistency, and potential misinformation
+- REQUEST ANALYSIS: What is the content asking for? Identify explicit and implicit requests that pose risk
+- TECHNICAL INDICATORS: Analyze URLs, formatting, technical elements for malicious components
+- MANIPULATION TACTICS: Identify psychological tactics like urgency, authority abuse, scarcity, social proof, reciprocity
+- THREAT MODELING: What would happen if a user fully trusted and acted on this content? Map potential harm vectors
+
+For URLs and website descriptions, provide comprehensive explanation of what the website is for, whether it's legitimate, and what users should know about it in both English and Tagalog.
+
+Provide a structured JSON response with the following fields:
+
+- "isRisky": boolean (true if the content contains ANY potential risks, scams, harmful elements, or misinformation, false only if completely safe).
+- "riskCategories": array of strings (list all risk categories detected: "Scam", "Phishing", "Misinformation", "Privacy Risk", "Malware", "Financial Risk", "Identity Theft Risk", "Manipulation", "Harmful Content", "Data Collection", etc. If none, provide empty array).
+- "overallRiskProbability": number (a percentage from 0 to 100 indicating the overall likelihood of ANY risk being present, being precise in your assessment).
+- "scamProbability": number (a percentage from 0 to 100 indicating the likelihood of it being a scam specifically).
+- "confidenceLevel": string (your confidence level in your overall assessment: "Low", "Medium", or "High", based on the quality and quantity of indicators present).
+- "detailedRiskAnalysis": string (a comprehensive explanation of your findings in English, highlighting ALL potential risks including scams, misinformation, harmful content, technical threats, manipulation tactics, etc. Clearly identify ALL red flags, linguistic patterns, technical indicators, suspicious elements, factual inaccuracies, and potential harm vectors. Include your reasoning process for each risk identified. Format for readability with clear sections, paragraphs and bullet points as needed).
+- "detailedRiskAnalysisTagalog": string (an accurate and natural-sounding Tagalog translation of the "detailedRiskAnalysis" that preserves all technical details but adapts to local context).
+- "overallRiskLevel": string (categorize the HIGHEST risk detected based on probability AND severity: "Low", "Medium", "High", "Very High", or "Critical").
+- "riskBreakdown": object with the following fields (analyze each major risk category separately):
+    - "scamRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "misinformationRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "privacyRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "technicalRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "manipulationRisk": object with "level" (string), "probability" (number), "indicators" (array of strings)
+    - "otherRisks": array of objects, each with "name" (string), "level" (string), "probability" (number), "indicators" (array of strings)
+- "safetyAdvice": string (provide detailed, actionable safety advice in English specific to ALL risks identified. For high risk scenarios, include specific protective actions the user should take immediately. For medium-low risk, provide contextual safety practices. Include both immediate steps and longer-term protective measures).
+- "safetyTutorials": array of strings (provide 6-8 detailed, actionable tutorials in English on how to identify and protect against ALL types of risks identified. Each tutorial should be comprehensive yet concise, include the reasoning behind it, examples of what to look for, and be directly relevant to the specific risks in the analyzed content. Cover different risk categories - not just scams but also misinformation, harmful content, technical threats, etc. Tailor to the Philippine context when relevant).
+- "preventionStrategies": object with the following fields (provide strategies for different risk types):
+    - "scamPrevention": array of strings (specific strategies for avoiding scams)
+    - "misinformationDefense": array of strings (methods to verify information accuracy)
+    - "privacyProtection": array of strings (ways to safeguard personal information)
+    - "technicalSafeguards": array of strings (technical measures to protect devices/accounts)
+    - "generalSafetyPractices": array of strings (broader digital safety practices)
+- "reportingInfo": object with the following fields:
+    - "introduction": string (A detailed introduction in English on the importance of reporting ALL types of harmful content, the impact of reporting, and the general process. Include information on what evidence to gather before reporting different types of harmful content).
+    - "agencies": array of objects, where each object has:
+        - "name": string (The official name of the agency or organization, prioritizing Philippine agencies followed by relevant international bodies).
+        - "riskTypes": array of strings (The types of risks this agency handles: "scams", "cybercrime", "misinformation", "harmful content", etc.)
+        - "url": string (The direct URL to their complaint filing page or relevant information page. Verify this is a valid, working URL).
+        - "description": string (A detailed description of which types of risks the agency handles, their jurisdiction, and any special reporting requirements or procedures. Prioritize agencies relevant to the Philippines).
+- "contentEvaluation": string (Provide a detailed explanation in English on how to critically evaluate content safety and truthfulness, specifically related to the analyzed content. Include verification techniques for multiple risk dimensions - not just scams but also factual accuracy, source credibility, manipulation tactics, technical threats, etc. Include warning signs, critical thinking strategies, and content verification methods tailored to the specific types of risks identified. Use concrete examples where possible).
+- "contentEvaluationTagalog": string (A natural, culturally-appropriate Tagalog translation of the "contentEvaluation" explanation that preserves all technical advice).
+- "contentClassification": object with the following fields:
+    - "contentType": string (Classify what type of content this is: website URL, social media post, SMS, email, advertisement, news, etc.)
+    - "contentPurpose": string (Detailed explanation of what this content is trying to accomplish, including potential hidden purposes)
+    - "audienceAnalysis": object with the following fields:
+        - "targetAudience": string (Who is the target audience for this content)
+        - "vulnerabilityFactors": array of strings (Specific factors that might make the target audience vulnerable)
+        - "potentialImpact": string (The potential effect or harm this content could have on its audience)
+    - "trustworthinessIndicators": object with the following fields:
+        - "positiveIndicators": array of strings (Elements that suggest the content may be legitimate or trustworthy)
+        - "negativeIndicators": array of strings (Elements that raise concerns about trustworthiness)
+        - "overallAssessment": string (Final evaluation of content trustworthiness)
+    - "contentExplanation": string (A concise yet thorough explanation of what this content is, its purpose, legitimacy concerns, and ALL potential risks in plain language that non-technical users will understand. For websites, include what the site is for and potential dangers)
+    - "contentExplanationTagalog": string (A natural Tagalog translation of the content explanation that ordinary Filipino users can easily understand)
+    - "riskSummary": string (A brief, clear summary of ALL risks identified that a user should be aware of before engaging with this content)
+
+${imageBase64 ? "When analyzing the provided image, perform a comprehensive risk assessment including: digital manipulation indicators, inconsistent lighting/shadows, misaligned text elements, false/edited logos, suspicious QR codes, harmful URLs, malicious instructions, dangerous advice, manipulated documents, false health claims, misleading statistics/charts, hidden data, steganography, malicious code embedding attempts, tracking pixels, inappropriate material, personal data exposure, confidential information, and visual persuasion techniques. Pay special attention to text in the image for risk indicators in both English and Filipino/Tagalog." : ""}
+
+Additional analysis instructions:
+1. For borderline cases, err on the side of caution and provide more detailed warnings and verification steps.
+2. If you identify a novel scam technique not widely documented, highlight this in your analysis.
+3. If the content appears to be testing your capabilities rather than a real scam, still provide a thorough analysis as if it were a genuine submission.
+4. If the content is extremely short or ambiguous, note the limitations in your confidence assessment but provide best-effort analysis.
+5. For content in Filipino languages/dialects other than Tagalog, identify the language if possible and include this information in your analysis.
+6. If you detect a question like "Para saan ito?" (What is this for?) or "Ano ito?" (What is this?), focus your analysis on explaining the nature and purpose of the content/website in simple, accessible language in both English and Tagalog.
+7. For website URLs, explain the domain's purpose and security status using the local link forensics; do not invent registration history.
+8. Pay special attention to Filipino cultural context that might make certain scams more effective in the Philippines (remittance services, OFW targeting, local payment systems).
+9. Provide practical, step-by-step advice for typical Filipino internet users who may have varying levels of technical knowledge.
+
+Ensure your entire response is ONLY the JSON object, with no additional text, comments, or markdown formatting like \`\`\`json ... \`\`\` around it. The JSON must be properly formatted and all string values properly escaped. Each field must be present in your response even if some have minimal information due to the nature of the content.
+
+Text to analyze:
+"""
+${content}
+"""`;
+
+  const parts: any[] = [{ text: prompt }];
+  // If image is provided, add it to the request
+  if (imageBase64) {
+    parts.push({ inline_data: { mime_type: 'image/jpeg', data: imageBase64 } }); // Assuming JPEG format - adjust as needed
+  }
+
+  return generateJson(parts, 'Text/Image Analysis');
+}
+
+// Ask Gemini to fix a malformed answer so it matches the declared output schema
+export async function repairWithGemini({ rawOutput, issues, schemaDescription }: RepairRequest): Promise<any> {
+  if (!isGeminiAvailable()) {
+    throw new Error('Gemini API URL is not configured due to missing API key.');
+  }
+
+  const prompt = `Your previous answer to a risk analysis request was not valid for the required JSON format.
+
+Problems found:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+The JSON object must contain these fields:
+${schemaDescription}
+
+Return the corrected analysis as ONLY the JSON object, with no additional text, comments, or markdown formatting. Keep the original findings and wording wherever possible; only fix the structure, types, and missing fields.
+
+Previous answer:
+"""
+${rawOutput}
+"""`;
+
+  return generateJson([{ text: prompt }], 'Output Repair');
+}
+
+// Gemini-backed provider used in production
+export const geminiProvider: AnalysisProvider = {
+  name: 'gemini',
+  model: GEMINI_MODEL,
+  promptVersions: { text: TEXT_PROMPT_VERSION, audio: AUDIO_PROMPT_VERSION },
+  isConfigured: isGeminiAvailable,
+  analyzeText: analyzeWithGemini,
+  analyzeAudio: analyzeWithGeminiAudio,
+  repairOutput: repairWithGemini
+};
@@ -0,0 +1,34 @@
+import { AnalysisProvider, AnalysisVersion } from './types';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+
+export type { AnalysisProvider, AnalysisVersion } from './types';
+
+// Registered providers, selectable through the ANALYSIS_PROVIDER environment variable
+const providers: Record<string, AnalysisProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [mockProvider.name]: mockProvider
+};
+
+const DEFAULT_PROVIDER = geminiProvider.name;
+
+// Resolve the configured provider, falling back to Gemini for unknown names
+export function getAnalysisProvider(): AnalysisProvider {
+  const configuredName = (process.env.ANALYSIS_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const provider = providers[configuredName];
+
+  if (!provider) {
+    console.warn(`Unknown ANALYSIS_PROVIDER "${configuredName}", falling back to "${DEFAULT_PROVIDER}"`);
+    return providers[DEFAULT_PROVIDER];
+  }
+
+  return provider;
+}
+
+// Resolve the model and prompt version a request with (or without) audio will be analyzed with
+export function getAnalysisVersion(provider: AnalysisProvider, hasAudio: boolean): AnalysisVersion {
+  return {
+    model: provider.model,
+    promptVersion: provider.promptVersions[hasAudio ? 'audio' : 'text']
+  };
+}
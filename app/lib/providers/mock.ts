@@ -0,0 +1,70 @@
+import { AnalysisProvider, RepairRequest } from './types';
+import { parseModelJson } from './errors';
+import scamTextFixture from './fixtures/scam-text.json';
+import safeTextFixture from './fixtures/safe-text.json';
+import imageFixture from './fixtures/image.json';
+import audioFixture from './fixtures/audio.json';
+
+// Cues that make the mock provider answer with the scam fixture instead of the safe one.
+// Kept intentionally small - the mock only needs to be deterministic, not accurate.
+const MOCK_SCAM_CUES = [
+  'http', 'www.', 'bit.ly', 'verify', 'otp', 'mpin', 'password', 'gcash', 'maya',
+  'prize', 'winner', 'won', 'claim', 'urgent', 'suspend', 'loan', 'investment',
+  'padala', 'send money', 'click'
+];
+
+// Set MOCK_PROVIDER_FAIL=true to simulate an outage and exercise the heuristic-only fallback
+const simulateFailure = () => {
+  if (process.env.MOCK_PROVIDER_FAIL === 'true') {
+    throw new Error('Mock provider failure (MOCK_PROVIDER_FAIL=true)');
+  }
+};
+
+// Return a fresh copy so callers can patch fields without mutating the fixture module
+const cloneFixture = (fixture: object): any => JSON.parse(JSON.stringify(fixture));
+
+// Pick the text fixture based on simple keyword cues
+function selectTextFixture(content: string, imageBase64?: string): object {
+  const lowerContent = content.toLowerCase();
+  if (MOCK_SCAM_CUES.some(cue => lowerContent.includes(cue))) {
+    return scamTextFixture;
+  }
+  // Image-only submissions get the image fixture so the image sections can be exercised
+  if (imageBase64) {
+    return imageFixture;
+  }
+  return safeTextFixture;
+}
+
+// Deterministic offline provider that answers from local fixture files.
+// Enable with ANALYSIS_PROVIDER=mock to develop or run CI without a Gemini key.
+export const mockProvider: AnalysisProvider = {
+  name: 'mock',
+  model: 'mock-fixtures',
+  // Bump when the fixture files change so cached fixture verdicts are refreshed
+  promptVersions: { text: 'fixtures-v1', audio: 'fixtures-v1' },
+  isConfigured: () => true,
+  analyzeText: async (content: string, imageBase64?: string) => {
+    simulateFailure();
+    console.log('🧪 Mock provider answering text/image analysis from fixtures');
+    return cloneFixture(selectTextFixture(content, imageBase64));
+  },
+  analyzeAudio: async (_content: string, _audioBase64: string, _imageBase64?: string) => {
+    simulateFailure();
+    console.log('🧪 Mock provider answering audio analysis from fixtures');
+    return cloneFixture(audioFixture);
+  },
+  // "Repair" by filling whatever is missing from the safe fixture so the retry path can be exercised offline
+  repairOutput: async ({ rawOutput }: RepairRequest) => {
+    simulateFailure();
+    console.log('🧪 Mock provider repairing output from fixtures');
+    let parsed: unknown = null;
+    try {
+      parsed = parseModelJson(rawOutput);
+    } catch {
+      // Unparseable output is replaced entirely by the fixture
+    }
+    const base = cloneFixture(safeTextFixture);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? { ...base, ...parsed } : base;
+  }
+};
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { exchangesDir } from './exchanges';
+import type { RouteAnswer } from '../evaluation/goldenSet';
+
+// Replay check (npm run test:replay): a small set of requests whose Gemini exchanges are committed to
+// GEMINI_EXCHANGES_DIR. Replaying them through the detection route catches prompt or request changes that
+// no longer match the recorded answers, and route changes that break on the recorded model output.
+
+export interface ReplayCase {
+  id: string;
+  content: string;
+  sender?: string;
+}
+
+export interface ReplayCaseFile {
+  version: string;
+  description: string;
+  cases: ReplayCase[];
+}
+
+export interface ReplayCaseResult {
+  id: string;
+  passed: boolean;
+  status: number;
+  riskLevel: string | null;
+  problem?: string; // Why the case failed
+}
+
+export const REPLAY_CASES_FILE = path.join(process.cwd(), 'app', 'lib', 'providers', 'fixtures', 'gemini-replay-cases.json');
+
+/**
+ * Load and validate the replay cases
+ * @throws Error listing every problem when the file is invalid
+ */
+export async function loadReplayCases(file: string = REPLAY_CASES_FILE): Promise<ReplayCaseFile> {
+  const contents: ReplayCaseFile = JSON.parse(await fs.readFile(file, 'utf8'));
+  const errors: string[] = [];
+  if (!Array.isArray(contents.cases) || contents.cases.length === 0) errors.push('cases: needs at least one case');
+  const ids = new Set<string>();
+  (Array.isArray(contents.cases) ? contents.cases : []).forEach((item, index) => {
+    if (typeof item.id !== 'string' || !item.id) errors.push(`cases[${index}].id: must be a non-empty string`);
+    if (ids.has(item.id)) errors.push(`cases[${index}].id: duplicate id "${item.id}"`);
+    ids.add(item.id);
+    if (typeof item.content !== 'string' || !item.content.trim()) errors.push(`cases[${index}].content: must be a non-empty string`);
+    if (item.sender !== undefined && typeof item.sender !== 'string') errors.push(`cases[${index}].sender: must be a string`);
+  });
+  if (errors.length > 0) {
+    throw new Error(`Replay cases ${file} are invalid: ${errors.join('; ')}`);
+  }
+  return contents;
+}
+
+// Request body for the detection route
+export const replayPayload = (item: ReplayCase): Record<string, string> => ({
+  content: item.content,
+  ...(item.sender ? { sender: item.sender } : {})
+});
+
+/**
+ * A case passes when the route answered it from the recorded model answer. A missing exchange fails the
+ * route with a 500; a heuristic or blocklist verdict means the recording was not used
+ */
+export function checkReplayAnswer(item: ReplayCase, answer: RouteAnswer | Error): ReplayCaseResult {
+  if (answer instanceof Error) {
+    return { id: item.id, passed: false, status: 500, riskLevel: null, problem: answer.message };
+  }
+  const { status, body } = answer;
+  const riskLevel = body?.riskLevel ?? null;
+  if (status !== 200) {
+    return { id: item.id, passed: false, status, riskLevel, problem: body?.message || `Route responded with ${status}` };
+  }
+  if (body?.analysisMode !== 'ai') {
+    return { id: item.id, passed: false, status, riskLevel, problem: `Answered by the ${body?.analysisMode || 'unknown'} fallback instead of the recorded model answer` };
+  }
+  return { id: item.id, passed: true, status, riskLevel };
+}
+
+/**
+ * Exchange fixtures in GEMINI_EXCHANGES_DIR that no case used
+ * @param usedKeys - usedExchangeKeys() after every case has run
+ */
+export async function unusedExchanges(usedKeys: ReadonlySet<string>): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(exchangesDir());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  return files
+    .filter(file => file.endsWith('.json') && !usedKeys.has(path.basename(file, '.json')))
+    .map(file => path.join(exchangesDir(), file))
+    .sort();
+}
@@ -0,0 +1,35 @@
+import type { AnalysisMode } from '../schema/modelOutput';
+
+// Details handed to a provider when its previous answer failed schema validation
+export interface RepairRequest {
+  rawOutput: string; // The malformed answer (raw text or re-serialised JSON)
+  issues: string[]; // Field-level problems, e.g. "overallRiskProbability: Required field is missing"
+  schemaDescription: string; // Field list of the expected JSON object
+}
+
+// Shared contract for the services that produce the raw risk analysis JSON.
+// Every provider returns the same loosely-typed object that the Gemini prompt asks for
+// (isRisky, overallRiskProbability, riskBreakdown, contentClassification, ...), so the
+// POST handler can format the result the same way regardless of where it came from.
+export interface AnalysisProvider {
+  // Identifier used in configuration (ANALYSIS_PROVIDER) and logs
+  name: string;
+  // Model identifier, e.g. "gemini-2.0-flash"
+  model: string;
+  // Version of the prompt template used for each analysis mode; part of the cache key
+  promptVersions: Record<AnalysisMode, string>;
+  // Whether the provider has everything it needs (API keys, fixtures) to run
+  isConfigured(): boolean;
+  // Analyze text and/or an image; evidence is pre-computed local forensics to include in the prompt
+  analyzeText(content: string, imageBase64?: string, evidence?: string): Promise<any>;
+  // Analyze a voice recording, optionally with text context and an image
+  analyzeAudio(content: string, audioBase64: string, imageBase64?: string, evidence?: string): Promise<any>;
+  // Re-ask the model to fix a malformed answer
+  repairOutput(request: RepairRequest): Promise<any>;
+}
+
+// Model and prompt version that produced a verdict, recorded in cache keys and entries
+export interface AnalysisVersion {
+  model: string;
+  promptVersion: string;
+}
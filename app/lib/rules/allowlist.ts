@@ -0,0 +1,123 @@
+import verifiedSenders from './data/verified-senders.json';
+import { RuleEngineScan } from './ruleEngine';
+import type { UrlFinding } from '../forensics/urls';
+import type { ContactFinding } from '../forensics/reputation';
+
+// Curated allowlist of verified senders (data/verified-senders.json): official domains and SMS sender IDs
+// of Philippine banks, e-wallets and government agencies. Numeric short codes are not listed: they are
+// shared between carriers and aggregators and no official registry publishes them, so a short code never
+// matches. Genuine messages from these senders use the same words the indicator catalogue treats as
+// suspicious ("bank", "gcash", "government"), so a match dampens the rule-engine score. Only the sender
+// ID reported by the client counts - a "From: BDO" line inside the text proves nothing - and since sender
+// IDs can be spoofed, a match never applies when the content also carries an unofficial link, a lookalike
+// domain or a reported number. Bump "version" in the data file whenever entries change.
+
+export type SenderMatchType = 'domain' | 'sender-id';
+
+export interface VerifiedSenderMatch {
+  organization: string;
+  category: string; // "bank", "e-wallet" or "government"
+  matchedBy: Array<{ type: SenderMatchType; value: string }>;
+  dampening: number; // Factor applied to rule-engine severities (lower = stronger dampening)
+  reason: string;
+  allowlistVersion: string;
+}
+
+export interface SenderCheckInput {
+  sender?: string; // SMS sender ID or short code, when the client provides it
+  urlFindings: UrlFinding[];
+  contactFindings: ContactFinding[];
+}
+
+interface VerifiedOrganization {
+  name: string;
+  category: string;
+  domains: string[];
+  senderIds: string[];
+}
+
+// Every link on an official domain is strong evidence; a sender ID alone is weaker
+const DOMAIN_DAMPENING = 0.5;
+const SENDER_DAMPENING = 0.75;
+
+const ORGANIZATIONS: VerifiedOrganization[] = verifiedSenders.organizations;
+export const ALLOWLIST_VERSION: string = verifiedSenders.version;
+
+const normalizeSender = (value: string) => value.trim().replace(/[\s-]/g, '').toLowerCase();
+
+// The organization owning a domain, directly or through an official suffix such as gov.ph
+function organizationForDomain(host: string, registrableDomain: string): { name: string; category: string } | null {
+  const organization = ORGANIZATIONS.find(org => org.domains.includes(registrableDomain));
+  if (organization) return organization;
+  const suffix = verifiedSenders.domainSuffixes.find(entry => host === entry.suffix || host.endsWith(`.${entry.suffix}`));
+  return suffix ? { name: suffix.organization, category: suffix.category } : null;
+}
+
+// Whether a host belongs to an allowlisted organization or an official suffix such as gov.ph
+export function isOfficialDomain(host: string, registrableDomain: string): boolean {
+  return organizationForDomain(host, registrableDomain) !== null;
+}
+
+/**
+ * Check submitted content against the verified-sender allowlist
+ * @param input - The optional sender ID plus the link and contact forensics for the content
+ * @returns Match details, or null when nothing matched or the match was cancelled by risky content
+ */
+export function matchVerifiedSender(input: SenderCheckInput): VerifiedSenderMatch | null {
+  // Anything pointing away from the official channels cancels the allowlist
+  if (input.contactFindings.some(contact => contact.reputation)) return null;
+  if (input.urlFindings.some(finding => finding.impersonatedBrand)) return null;
+
+  const linkOwners = input.urlFindings.map(finding => organizationForDomain(finding.host, finding.registrableDomain));
+  if (linkOwners.some(owner => owner === null)) return null;
+
+  const matchedBy: VerifiedSenderMatch['matchedBy'] = [];
+  let organization: { name: string; category: string } | null = null;
+
+  // Only count links when they all belong to the same organization
+  const owners = new Set(linkOwners.map(owner => owner!.name));
+  if (linkOwners.length > 0 && owners.size === 1) {
+    organization = linkOwners[0];
+    input.urlFindings.forEach(finding => matchedBy.push({ type: 'domain', value: finding.host }));
+  }
+
+  if (input.sender) {
+    const normalized = normalizeSender(input.sender);
+    const senderOrg = ORGANIZATIONS.find(org => org.senderIds.some(id => normalizeSender(id) === normalized));
+    if (senderOrg) {
+      // A sender claiming one organization while linking to another is not a verified match
+      if (organization && organization.name !== senderOrg.name) return null;
+      organization = organization || senderOrg;
+      matchedBy.push({ type: 'sender-id', value: input.sender.trim() });
+    }
+  }
+
+  if (!organization || matchedBy.length === 0) return null;
+
+  const hasDomain = matchedBy.some(match => match.type === 'domain');
+  return {
+    organization: organization.name,
+    category: organization.category,
+    matchedBy,
+    dampening: hasDomain ? DOMAIN_DAMPENING : SENDER_DAMPENING,
+    reason: hasDomain
+      ? `All links in the message point to official ${organization.name} domains`
+      : `Sender ID matches ${organization.name}; sender IDs can be spoofed, so the match only partly lowers the rule score`,
+    allowlistVersion: ALLOWLIST_VERSION
+  };
+}
+
+/**
+ * Scale rule-engine severities for a verified sender so words like "bank" or "gcash" weigh less. The
+ * dampened scan also skips the minimum percentages of calculateRulePercentage(), which would undo it.
+ * @param scan - Result of scanContent()
+ * @param match - Allowlist match, or null to leave the scan unchanged
+ */
+export function dampenScan(scan: RuleEngineScan, match: VerifiedSenderMatch | null): RuleEngineScan {
+  if (!match) return scan;
+  const patternMatches = Object.fromEntries(Object.entries(scan.patternMatches).map(([name, indicator]) => [
+    name,
+    { ...indicator, severity: Number((indicator.severity * match.dampening).toFixed(2)) }
+  ]));
+  return { ...scan, patternMatches, totalSeverity: scan.totalSeverity * match.dampening, dampening: match.dampening };
+}
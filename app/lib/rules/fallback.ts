@@ -0,0 +1,220 @@
+import { RuleEngineScan, buildRuleEngineResult } from './ruleEngine';
+import { runHeuristicPass } from './heuristics';
+import type { ContactFinding } from '../forensics/reputation';
+import type { UrlFinding } from '../forensics/urls';
+import type { BlocklistMatch } from '../forensics/blocklist';
+
+// Philippine agencies listed in offline verdicts
+const REPORT_AGENCIES = [
+  {
+    name: 'PNP Anti-Cybercrime Group',
+    url: 'https://acg.pnp.gov.ph/eComplaint/',
+    description: 'For reporting cybercrimes in the Philippines.'
+  },
+  {
+    name: 'Cybercrime Investigation and Coordinating Center (CICC)',
+    url: 'https://cicc.gov.ph/report/',
+    description: 'Report online scams through the Inter-Agency Response Center hotline 1326.'
+  }
+];
+
+// Map a 0-100 percentage to the same risk level labels the model uses
+export function riskLevelFromPercentage(percentage: number): string {
+  if (percentage >= 75) return 'Very High';
+  if (percentage >= 50) return 'High';
+  if (percentage >= 25) return 'Medium';
+  return 'Low';
+}
+
+// Score content with the offline checks only: the indicator catalogue, URL/phone heuristics and reported contacts
+function scoreOffline(content: string, ruleScan: RuleEngineScan, contactFindings: ContactFinding[]) {
+  const ruleEngine = buildRuleEngineResult(ruleScan, null);
+  const heuristics = runHeuristicPass(content);
+  // Numbers and accounts already reported as used in scams are the strongest offline signal we have
+  heuristics.findings.push(...contactFindings
+    .filter(contact => contact.reputation)
+    .map(contact => ({
+      type: 'phone' as const,
+      value: contact.value,
+      reason: `${contact.kind === 'bank-account' ? 'Account' : 'Number'} was reported ${contact.reputation!.reportCount} time(s) as used in scams`,
+      weight: 50
+    })));
+  heuristics.score = Math.min(100, heuristics.findings.reduce((total, finding) => total + finding.weight, 0));
+  const hasText = content.trim().length > 0;
+
+  // Take the stronger of the two offline signals; neither is reliable enough to average down
+  const probability = Math.max(ruleEngine.rulePercentage, heuristics.score);
+  const signalCount = ruleEngine.detectedCount + heuristics.findings.length;
+
+  // Confidence stays low: offline checks can raise alarms but can't clear content as safe
+  const confidence = hasText && signalCount >= 3 ? 'Medium' : 'Low';
+  const riskLevel = hasText ? riskLevelFromPercentage(probability) : 'Unknown';
+
+  const indicators = [
+    ...ruleEngine.matchedIndicators.map(indicator => indicator.name),
+    ...heuristics.findings.map(finding => finding.reason)
+  ].filter((indicator, index, all) => all.indexOf(indicator) === index).slice(0, 5);
+
+  return { ruleEngine, heuristics, hasText, probability, signalCount, confidence, riskLevel, indicators };
+}
+
+/**
+ * Verdict of the offline checks alone, sent by the streaming mode of /api/detect-scam while the model is
+ * still analyzing. Scored exactly like the heuristic-only fallback.
+ * @param content - The submitted text (may be empty for image/audio-only submissions)
+ * @param ruleScan - Result of scanning the content with the rule engine
+ * @param contactFindings - Extracted numbers and accounts with their local reputation
+ */
+export function buildPreliminaryVerdict(content: string, ruleScan: RuleEngineScan, contactFindings: ContactFinding[]) {
+  const { ruleEngine, heuristics, hasText, probability, confidence, riskLevel, indicators } = scoreOffline(content, ruleScan, contactFindings);
+  return {
+    isScam: hasText && probability >= 50,
+    probability,
+    confidence,
+    riskLevel,
+    indicators,
+    heuristicFindings: heuristics.findings,
+    ruleEngine
+  };
+}
+
+/**
+ * Build a degraded response scored only by the local indicator catalogue and URL/phone heuristics.
+ * Used when the AI provider fails, so the user never receives an unanalysed "safe" verdict.
+ * @param content - The submitted text (may be empty for image/audio-only submissions)
+ * @param contentType - Display content type ("Message", "Website", "Image", "Audio")
+ * @param ruleScan - Result of scanning the content with the rule engine
+ * @param contactFindings - Extracted numbers and accounts with their local reputation
+ * @param failureReason - Error message from the provider, logged for support but not shown as the verdict
+ * @returns Response object flagged with analysisMode "heuristic-only"
+ */
+export function buildHeuristicResponse(content: string, contentType: string, ruleScan: RuleEngineScan, contactFindings: ContactFinding[], failureReason?: string) {
+  const { ruleEngine, heuristics, hasText, probability, signalCount, confidence, riskLevel, indicators } = scoreOffline(content, ruleScan, contactFindings);
+
+  let assessment: string;
+  let riskSummary: string;
+  if (!hasText) {
+    assessment = 'Not Analyzed - AI Unavailable';
+    riskSummary = `⚠️ AI analysis is unavailable and ${contentType.toLowerCase()} content can't be checked offline. Treat it with caution.`;
+  } else if (probability >= 50) {
+    assessment = 'Likely a Scam (Offline Check)';
+    riskSummary = '🚨 Offline checks found strong scam indicators. Do not act on this content.';
+  } else if (probability >= 25 || signalCount > 0) {
+    assessment = 'Possibly Suspicious (Offline Check)';
+    riskSummary = '⚠️ Offline checks found some warning signs. AI analysis was unavailable to confirm.';
+  } else {
+    assessment = 'Inconclusive (Offline Check)';
+    riskSummary = '⚠️ No known patterns matched, but without AI analysis this content is NOT confirmed safe.';
+  }
+
+  const explanationLines = [
+    'AI analysis is temporarily unavailable, so this result comes only from offline pattern and link checks.',
+    hasText ? `Offline checks matched ${ruleEngine.detectedCount} scam pattern group(s) and ${heuristics.findings.length} link/number warning(s).` : 'No text was provided, so offline checks could not evaluate this submission.',
+    ...heuristics.findings.map(finding => `- ${finding.reason}: ${finding.value}`),
+    'Please try again later for a full analysis.'
+  ];
+
+  if (failureReason) {
+    console.warn('⚠️ Serving heuristic-only response after provider failure:', failureReason);
+  }
+
+  return {
+    isScam: hasText && probability >= 50,
+    probability,
+    confidence,
+    explanation: explanationLines.join('\n'),
+    explanationTagalog: 'Pansamantalang hindi available ang AI analysis, kaya ang resultang ito ay galing lamang sa offline na pagsusuri ng mga pattern at link. Hindi ito patunay na ligtas ang nilalaman. Pakisubukang muli mamaya para sa buong pagsusuri.',
+    riskLevel,
+    status: `${contentType}: AI Unavailable`,
+    assessment,
+    contentType,
+    riskSummary,
+    indicators,
+    detectedRiskCategories: [],
+    advice: 'AI analysis could not be completed. Until it can, do not click links, call numbers, or send money or codes based on this content. Verify the sender through an official channel and try the analysis again later.',
+    tutorialsAndTips: [
+      'Check the sender through an official website, app, or hotline you already know.',
+      'Never share one-time passwords (OTP), PINs, or passwords.',
+      'Be wary of shortened links and unfamiliar domain names.',
+      'Do not send money to numbers or accounts you cannot verify.',
+      'Try the analysis again in a few minutes for a full AI assessment.'
+    ],
+    complaintFilingInfo: {
+      introduction: 'If you believe this content is a scam, you can report it even without a full analysis.',
+      agencies: REPORT_AGENCIES
+    },
+    analysisMode: 'heuristic-only' as const,
+    heuristicFindings: heuristics.findings,
+    urlFindings: heuristics.urlFindings,
+    contactFindings,
+    ruleEngine
+  };
+}
+
+const INDICATOR_LABELS: Record<BlocklistMatch['kind'], string> = {
+  domain: 'website',
+  url: 'link',
+  mobile: 'number',
+  account: 'account'
+};
+
+// "PNP-ACG advisory 2025-014, 2025-03-01"
+const formatCitation = (source: BlocklistMatch['sources'][number]) =>
+  [source.name, source.reference, source.reportedAt?.substring(0, 10)].filter(Boolean).join(', ');
+
+/**
+ * Build the verdict for content containing a blocklisted domain, link, number or account.
+ * Known indicators from official advisories are conclusive, so the model is not consulted.
+ * @param contentType - Display content type ("Message", "Website", ...)
+ * @param ruleScan - Result of scanning the content with the rule engine
+ * @param urlFindings - Link forensics for the content
+ * @param contactFindings - Extracted numbers and accounts with their local reputation
+ * @param matches - Blocklisted indicators found in the content (at least one)
+ * @returns Response object flagged with analysisMode "blocklist", citing the listing sources
+ */
+export function buildBlocklistResponse(
+  contentType: string,
+  ruleScan: RuleEngineScan,
+  urlFindings: UrlFinding[],
+  contactFindings: ContactFinding[],
+  matches: BlocklistMatch[]
+) {
+  const citations = matches.map(match =>
+    `- ${INDICATOR_LABELS[match.kind]} ${match.value}${match.matched !== match.value ? ` (found as ${match.matched})` : ''}: listed by ${match.sources.map(formatCitation).join('; ')}`);
+  const publishers = Array.from(new Set(matches.flatMap(match => match.sources.map(source => source.name))));
+
+  return {
+    isScam: true,
+    probability: 99,
+    confidence: 'High',
+    explanation: [
+      `This content contains ${matches.length} item(s) already listed in scam advisories:`,
+      ...citations,
+      'Known scam indicators are conclusive on their own, so no further analysis was needed.'
+    ].join('\n'),
+    explanationTagalog: 'Ang nilalamang ito ay may website, link, numero o account na nakalista na sa mga opisyal na babala laban sa scam. Huwag itong pansinin at huwag magpadala ng pera o impormasyon.',
+    riskLevel: 'Very High',
+    status: `${contentType}: Known Scam`,
+    assessment: 'Known Scam (Blocklisted)',
+    contentType,
+    riskSummary: `🛑 Contains ${matches.map(match => `${INDICATOR_LABELS[match.kind]} ${match.value}`).slice(0, 3).join(', ')} listed as a scam by ${publishers.join(', ')}.`,
+    indicators: ['Listed in scam advisories', ...matches.map(match => `Blocklisted ${INDICATOR_LABELS[match.kind]}: ${match.value}`)].slice(0, 5),
+    detectedRiskCategories: [],
+    advice: 'Do not click the links, call or text the numbers, or send money to the accounts in this content. Delete it and report it to the agencies below.',
+    tutorialsAndTips: [
+      'Banks, e-wallets and government agencies never ask for OTPs, PINs or passwords.',
+      'Open websites by typing the official address yourself instead of following links in messages.',
+      'Do not send money to numbers or accounts you cannot verify.',
+      'If you already shared details or sent money, contact your bank or e-wallet immediately.'
+    ],
+    complaintFilingInfo: {
+      introduction: 'This content matches published scam advisories. Reporting it helps the agencies track the campaign.',
+      agencies: REPORT_AGENCIES
+    },
+    analysisMode: 'blocklist' as const,
+    blocklistMatches: matches,
+    urlFindings,
+    contactFindings,
+    ruleEngine: buildRuleEngineResult(ruleScan, null)
+  };
+}
@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { detectIndicators, calculateRulePercentage, calculateRiskPercentage } from './indicators';
+import { IndicatorCatalogue, getIndicatorCatalogue, indicatorPacksDir } from './packs';
+import { riskLevelFromPercentage } from './fallback';
+import { dampenScan, matchVerifiedSender } from './allowlist';
+import { extractUrls } from './heuristics';
+import { analyzeUrls } from '../forensics/urls';
+import builtInFixtures from './data/indicator-fixtures.json';
+
+// Indicator pack test harness: every indicator has example messages it must match (positive) and
+// must not match (negative), plus a shared set of ordinary messages no indicator should match.
+// A run scores the whole catalogue against them - per-indicator precision and recall, and how the
+// rule and blended percentages fall into risk levels - and compares the result with a saved
+// baseline, so a change to a pack or to the thresholds in indicators.ts shows what it moved.
+
+export interface IndicatorFixture {
+  positive: string[];
+  negative: string[];
+}
+
+// A genuine message from an allowlisted organization; with the allowlist applied it must score Low
+export interface VerifiedSenderFixture {
+  text: string;
+  sender?: string; // SMS sender ID the phone showed
+}
+
+export interface FixtureSet {
+  version: string;
+  legitimate: string[]; // Ordinary messages that no indicator should match
+  indicators: Record<string, IndicatorFixture>;
+  verifiedSenders?: VerifiedSenderFixture[];
+}
+
+export interface IndicatorMetrics {
+  name: string;
+  pack: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null; // null when the indicator matched nothing at all
+  recall: number | null; // null when the indicator has no positive examples
+  missed: string[]; // Positive examples it did not match
+  falseAlarms: string[]; // Negative or legitimate examples it matched
+}
+
+export type RiskBand = 'Low' | 'Medium' | 'High' | 'Very High';
+
+// How many examples of each kind land in each risk level, with the mean percentage
+export interface BandDistribution {
+  positive: Record<RiskBand, number>;
+  negative: Record<RiskBand, number>;
+  meanPositive: number;
+  meanNegative: number;
+}
+
+export interface ExampleScore {
+  text: string;
+  expected: 'positive' | 'negative';
+  indicator: string | null; // Indicator the example was written for (null for the legitimate set)
+  scores: Record<string, number>; // Scorer name -> percentage
+}
+
+export interface VerifiedSenderScore {
+  text: string;
+  sender: string | null;
+  organization: string | null; // null when the allowlist did not match at all
+  rulePercentage: number; // After dampening
+  riskLevel: string;
+}
+
+export interface HarnessReport {
+  generatedAt: string;
+  fixturesVersion: string;
+  packs: string[];
+  summary: {
+    indicators: number;
+    examples: number;
+    precision: number | null; // Over all indicators together
+    recall: number | null;
+    untested: string[]; // Indicators without fixtures
+    unknownFixtures: string[]; // Fixtures for indicators that are not in the catalogue
+    verifiedSenderFailures: string[]; // Verified-sender examples that did not score Low
+  };
+  indicators: IndicatorMetrics[];
+  verifiedSenders: VerifiedSenderScore[];
+  // Scorer name -> distribution. "rule" is the rule-only percentage; "blended@N" blends it with a
+  // model probability of N through calculateRiskPercentage, which is where the threshold nudges live
+  distribution: Record<string, BandDistribution>;
+  scores: Record<string, ExampleScore>; // Keyed by a hash of the example text
+}
+
+export interface HarnessBaseline extends Omit<HarnessReport, 'indicators'> {
+  indicators: Record<string, Pick<IndicatorMetrics, 'precision' | 'recall'>>;
+}
+
+export interface ScoreChange {
+  text: string;
+  expected: ExampleScore['expected'];
+  scorer: string;
+  before: number;
+  after: number;
+  bandBefore: RiskBand;
+  bandAfter: RiskBand;
+}
+
+export interface BaselineComparison {
+  baselineGeneratedAt: string;
+  baselinePacks: string[];
+  indicators: Array<{
+    name: string;
+    precision: { before: number | null; after: number | null };
+    recall: { before: number | null; after: number | null };
+  }>;
+  distribution: Record<string, { positive: Record<RiskBand, number>; negative: Record<RiskBand, number>; meanPositive: number; meanNegative: number }>;
+  bandChanges: ScoreChange[]; // Examples that moved to another risk level
+  added: number; // Examples not in the baseline
+  removed: number; // Baseline examples no longer in the fixtures
+  regressions: string[];
+}
+
+const DEFAULT_BASELINE_FILE = path.join(process.cwd(), 'app', 'lib', 'rules', 'data', 'indicator-baseline.json');
+// Model probabilities the rule percentage is blended with: a model that says "safe", "unsure" and "scam"
+const MODEL_PROBES = [20, 50, 80];
+const RISK_BANDS: RiskBand[] = ['Low', 'Medium', 'High', 'Very High'];
+const BAND_RANK: Record<RiskBand, number> = { Low: 0, Medium: 1, High: 2, 'Very High': 3 };
+
+export const indicatorBaselinePath = () => process.env.INDICATOR_BASELINE_PATH || DEFAULT_BASELINE_FILE;
+
+const exampleId = (text: string) => crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
+const ratio = (hits: number, total: number) => (total > 0 ? Number((hits / total).toFixed(3)) : null);
+const emptyBands = (): Record<RiskBand, number> => ({ Low: 0, Medium: 0, High: 0, 'Very High': 0 });
+const mean = (values: number[]) => (values.length ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1)) : 0);
+
+/**
+ * The built-in fixtures merged with any fixture files in INDICATOR_PACKS_DIR/fixtures, so a pack
+ * dropped into the packs directory can bring its own examples (same layout as data/indicator-fixtures.json)
+ */
+export function loadFixtures(): { fixtures: FixtureSet; errors: Array<{ source: string; error: string }> } {
+  const fixtures: FixtureSet = JSON.parse(JSON.stringify(builtInFixtures));
+  const errors: Array<{ source: string; error: string }> = [];
+  const dir = path.join(indicatorPacksDir(), 'fixtures');
+
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(dir).filter(name => name.toLowerCase().endsWith('.json')).sort();
+  } catch {
+    // No extra fixtures
+  }
+  for (const name of files) {
+    try {
+      const extra = JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) as Partial<FixtureSet>;
+      if (Array.isArray(extra.legitimate)) fixtures.legitimate.push(...extra.legitimate.filter(item => typeof item === 'string'));
+      if (Array.isArray(extra.verifiedSenders)) {
+        fixtures.verifiedSenders = [...(fixtures.verifiedSenders || []), ...extra.verifiedSenders.filter(item => typeof item?.text === 'string')];
+      }
+      for (const [indicator, fixture] of Object.entries(extra.indicators || {})) {
+        if (!Array.isArray(fixture?.positive) || !Array.isArray(fixture?.negative)) {
+          errors.push({ source: name, error: `${indicator}: needs "positive" and "negative" lists` });
+          continue;
+        }
+        fixtures.indicators[indicator] = { positive: fixture.positive, negative: fixture.negative };
+      }
+    } catch (error: any) {
+      errors.push({ source: name, error: `Could not read fixtures: ${error.message}` });
+    }
+  }
+  return { fixtures, errors };
+}
+
+/**
+ * Run the indicator catalogue against the fixtures
+ * @param fixtures - Example messages (default: loadFixtures())
+ * @param catalogue - Indicator catalogue to test (default: the one the rule engine is using)
+ */
+export function runIndicatorHarness(
+  fixtures: FixtureSet = loadFixtures().fixtures,
+  catalogue: IndicatorCatalogue = getIndicatorCatalogue()
+): HarnessReport {
+  // Every example once, with what it is expected to be and which indicator it was written for
+  const examples = new Map<string, { text: string; expected: ExampleScore['expected']; indicator: string | null }>();
+  const addExample = (text: string, expected: ExampleScore['expected'], indicator: string | null) => {
+    const id = exampleId(text);
+    if (!examples.has(id)) examples.set(id, { text, expected, indicator });
+  };
+  for (const [indicator, fixture] of Object.entries(fixtures.indicators)) {
+    fixture.positive.forEach(text => addExample(text, 'positive', indicator));
+    fixture.negative.forEach(text => addExample(text, 'negative', indicator));
+  }
+  fixtures.legitimate.forEach(text => addExample(text, 'negative', null));
+
+  // Detect once per example; everything below is derived from these results
+  const detections = new Map(Array.from(examples.keys()).map(id => [id, detectIndicators(examples.get(id)!.text, catalogue)]));
+
+  const indicators: IndicatorMetrics[] = catalogue.indicators.map(indicator => {
+    const fixture = fixtures.indicators[indicator.name] || { positive: [], negative: [] };
+    const positives = new Set(fixture.positive.map(exampleId));
+    // An indicator is judged on its own negatives and on the legitimate set; another indicator's
+    // examples are not counted against it, since a scam message usually trips several indicators
+    const negatives = new Set([...fixture.negative, ...fixtures.legitimate].map(exampleId));
+    const metrics = { truePositives: 0, falsePositives: 0, falseNegatives: 0, missed: [] as string[], falseAlarms: [] as string[] };
+
+    for (const id of positives) {
+      if (detections.get(id)!.patternMatches[indicator.name]) {
+        metrics.truePositives++;
+      } else {
+        metrics.falseNegatives++;
+        metrics.missed.push(examples.get(id)!.text);
+      }
+    }
+    for (const id of negatives) {
+      if (detections.get(id)!.patternMatches[indicator.name]) {
+        metrics.falsePositives++;
+        metrics.falseAlarms.push(examples.get(id)!.text);
+      }
+    }
+    return {
+      name: indicator.name,
+      pack: indicator.pack,
+      ...metrics,
+      precision: ratio(metrics.truePositives, metrics.truePositives + metrics.falsePositives),
+      recall: ratio(metrics.truePositives, metrics.truePositives + metrics.falseNegatives)
+    };
+  });
+
+  const scorers = ['rule', ...MODEL_PROBES.map(probability => `blended@${probability}`)];
+  const scores: Record<string, ExampleScore> = {};
+  for (const [id, example] of examples) {
+    const detection = detections.get(id)!;
+    const exampleScores: Record<string, number> = { rule: calculateRulePercentage(detection.patternMatches, detection) };
+    for (const probability of MODEL_PROBES) {
+      exampleScores[`blended@${probability}`] = calculateRiskPercentage(detection.patternMatches, detection, probability);
+    }
+    scores[id] = { ...example, scores: exampleScores };
+  }
+
+  const distribution: Record<string, BandDistribution> = {};
+  for (const scorer of scorers) {
+    const bands = { positive: emptyBands(), negative: emptyBands() };
+    const values: Record<ExampleScore['expected'], number[]> = { positive: [], negative: [] };
+    for (const example of Object.values(scores)) {
+      bands[example.expected][riskLevelFromPercentage(example.scores[scorer]) as RiskBand]++;
+      values[example.expected].push(example.scores[scorer]);
+    }
+    distribution[scorer] = { ...bands, meanPositive: mean(values.positive), meanNegative: mean(values.negative) };
+  }
+
+  // Genuine messages from allowlisted senders go through the same allowlist and dampening as the detection route
+  const verifiedSenders: VerifiedSenderScore[] = (fixtures.verifiedSenders || []).map(({ text, sender }) => {
+    const match = matchVerifiedSender({ sender, urlFindings: analyzeUrls(extractUrls(text)), contactFindings: [] });
+    const scan = dampenScan({ ...detectIndicators(text, catalogue), packs: [] }, match);
+    const rulePercentage = calculateRulePercentage(scan.patternMatches, scan);
+    return { text, sender: sender || null, organization: match?.organization || null, rulePercentage, riskLevel: riskLevelFromPercentage(rulePercentage) };
+  });
+
+  const totals = indicators.reduce(
+    (sum, item) => ({ tp: sum.tp + item.truePositives, fp: sum.fp + item.falsePositives, fn: sum.fn + item.falseNegatives }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  const known = new Set(catalogue.indicators.map(indicator => indicator.name));
+  return {
+    generatedAt: new Date().toISOString(),
+    fixturesVersion: fixtures.version,
+    packs: catalogue.packs.map(pack => `${pack.id}@${pack.version}`),
+    summary: {
+      indicators: indicators.length,
+      examples: examples.size,
+      precision: ratio(totals.tp, totals.tp + totals.fp),
+      recall: ratio(totals.tp, totals.tp + totals.fn),
+      untested: indicators.filter(item => !fixtures.indicators[item.name]?.positive.length).map(item => item.name),
+      unknownFixtures: Object.keys(fixtures.indicators).filter(name => !known.has(name)),
+      verifiedSenderFailures: verifiedSenders
+        .filter(item => item.riskLevel !== 'Low')
+        .map(item => `${item.organization || 'no allowlist match'} scored ${item.riskLevel} (${item.rulePercentage}%): "${item.text.slice(0, 60)}"`)
+    },
+    indicators,
+    verifiedSenders,
+    distribution,
+    scores
+  };
+}
+
+// The parts of a report worth keeping: the example lists are already in the fixtures
+function toBaseline(report: HarnessReport): HarnessBaseline {
+  return {
+    ...report,
+    indicators: Object.fromEntries(report.indicators.map(item => [item.name, { precision: item.precision, recall: item.recall }]))
+  };
+}
+
+/** The saved baseline, or null if none has been saved yet */
+export function readBaseline(): HarnessBaseline | null {
+  try {
+    return JSON.parse(fs.readFileSync(indicatorBaselinePath(), 'utf8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') console.error('❌ Indicator baseline is unreadable:', error.message);
+    return null;
+  }
+}
+
+/** Save a report as the new baseline (INDICATOR_BASELINE_PATH) */
+export function saveBaseline(report: HarnessReport): string {
+  const file = indicatorBaselinePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(toBaseline(report), null, 2) + '\n');
+  console.log(`💾 Indicator baseline saved to ${file}`);
+  return file;
+}
+
+/**
+ * Compare a run with the saved baseline
+ * @returns What changed; regressions lists lower precision or recall, positive examples that dropped
+ * to a lower risk level and negative examples that rose to a higher one
+ */
+export function compareWithBaseline(report: HarnessReport, baseline: HarnessBaseline): BaselineComparison {
+  // A genuine message from a verified sender that is not Low is a regression whatever the baseline says
+  const regressions: string[] = [...report.summary.verifiedSenderFailures];
+  const percent = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+  const indicators: BaselineComparison['indicators'] = [];
+  for (const item of report.indicators) {
+    const before = baseline.indicators[item.name];
+    if (!before) continue;
+    if (before.precision === item.precision && before.recall === item.recall) continue;
+    indicators.push({
+      name: item.name,
+      precision: { before: before.precision, after: item.precision },
+      recall: { before: before.recall, after: item.recall }
+    });
+    if (item.precision !== null && before.precision !== null && item.precision < before.precision) {
+      regressions.push(`${item.name}: precision ${percent(before.precision)} -> ${percent(item.precision)}`);
+    }
+    if (before.recall !== null && (item.recall ?? 0) < before.recall) {
+      regressions.push(`${item.name}: recall ${percent(before.recall)} -> ${percent(item.recall)}`);
+    }
+  }
+
+  // Band counts and means as after - before
+  const distribution: BaselineComparison['distribution'] = {};
+  for (const [scorer, after] of Object.entries(report.distribution)) {
+    const before = baseline.distribution[scorer];
+    if (!before) continue;
+    const delta = (kind: ExampleScore['expected']) =>
+      Object.fromEntries(RISK_BANDS.map(band => [band, after[kind][band] - (before[kind][band] || 0)])) as Record<RiskBand, number>;
+    distribution[scorer] = {
+      positive: delta('positive'),
+      negative: delta('negative'),
+      meanPositive: Number((after.meanPositive - before.meanPositive).toFixed(1)),
+      meanNegative: Number((after.meanNegative - before.meanNegative).toFixed(1))
+    };
+  }
+
+  const bandChanges: ScoreChange[] = [];
+  let added = 0;
+  for (const [id, example] of Object.entries(report.scores)) {
+    const previous = baseline.scores[id];
+    if (!previous) {
+      added++;
+      continue;
+    }
+    for (const [scorer, after] of Object.entries(example.scores)) {
+      const before = previous.scores[scorer];
+      if (before === undefined) continue;
+      const bandBefore = riskLevelFromPercentage(before) as RiskBand;
+      const bandAfter = riskLevelFromPercentage(after) as RiskBand;
+      if (bandBefore === bandAfter) continue;
+      bandChanges.push({ text: example.text, expected: example.expected, scorer, before, after, bandBefore, bandAfter });
+      const worse = example.expected === 'positive' ? BAND_RANK[bandAfter] < BAND_RANK[bandBefore] : BAND_RANK[bandAfter] > BAND_RANK[bandBefore];
+      if (worse) {
+        regressions.push(`${example.expected} example scored ${bandBefore} -> ${bandAfter} (${scorer}): "${example.text.slice(0, 60)}"`);
+      }
+    }
+  }
+
+  return {
+    baselineGeneratedAt: baseline.generatedAt,
+    baselinePacks: baseline.packs,
+    indicators,
+    distribution,
+    bandChanges,
+    added,
+    removed: Object.keys(baseline.scores).filter(id => !report.scores[id]).length,
+    regressions
+  };
+}
@@ -0,0 +1,70 @@
+// Lightweight URL and phone-number heuristics used when the AI provider is unavailable.
+// These only look at the submitted text, so they work fully offline.
+
+import { analyzeUrls, UrlFinding } from '../forensics/urls';
+import { extractContacts } from '../forensics/contacts';
+
+export interface HeuristicFinding {
+  type: 'url' | 'phone';
+  value: string; // The URL or number the finding is about
+  reason: string; // Human-readable explanation shown to the user
+  weight: number; // Contribution to the heuristic score (0-100)
+}
+
+export interface HeuristicResult {
+  urls: string[];
+  urlFindings: UrlFinding[];
+  phoneNumbers: string[];
+  findings: HeuristicFinding[];
+  score: number; // 0-100, capped sum of finding weights
+}
+
+// Words that turn a bare phone number into a likely money or contact request
+const MONEY_CUES = ['gcash', 'maya', 'paymaya', 'padala', 'send', 'transfer', 'load', 'bayad', 'pera', 'cash'];
+
+const URL_PATTERN = /\b((?:https?:\/\/|www\.)[^\s<>"']+|[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.[a-z]{2,}\/[^\s<>"']*)/gi;
+
+// Extract URLs, trimming trailing punctuation picked up from the sentence
+export function extractUrls(content: string): string[] {
+  const matches = content.match(URL_PATTERN) || [];
+  return Array.from(new Set(matches.map(url => url.replace(/[.,;:!?)\]]+$/, ''))));
+}
+
+// Extract Philippine mobile numbers in 09xx / +639xx form (including ones named as e-wallet accounts)
+export function extractPhoneNumbers(content: string): string[] {
+  return extractContacts(content).filter(contact => contact.kind !== 'bank-account').map(contact => contact.value);
+}
+
+// Turn the forensic signals for each URL into scored findings (informational signals are dropped)
+function urlFindingsToHeuristics(urlFindings: UrlFinding[]): HeuristicFinding[] {
+  return urlFindings.flatMap(finding => finding.signals
+    .filter(signal => signal.weight > 0)
+    .map(signal => ({ type: 'url' as const, value: finding.url, reason: signal.message, weight: signal.weight })));
+}
+
+/**
+ * Run the offline URL and phone-number heuristics on submitted text
+ * @param content - The text submitted by the user
+ * @returns Extracted URLs and numbers with scored findings
+ */
+export function runHeuristicPass(content: string): HeuristicResult {
+  const text = content || '';
+  const lowerText = text.toLowerCase();
+  const urls = extractUrls(text);
+  const phoneNumbers = extractPhoneNumbers(text);
+  const urlFindings = analyzeUrls(urls);
+  const findings: HeuristicFinding[] = urlFindingsToHeuristics(urlFindings);
+
+  if (phoneNumbers.length > 0) {
+    const asksForMoney = MONEY_CUES.some(cue => lowerText.includes(cue));
+    phoneNumbers.forEach(number => {
+      findings.push(asksForMoney
+        ? { type: 'phone', value: number, reason: 'Mobile number given together with a money or e-wallet request', weight: 35 }
+        : { type: 'phone', value: number, reason: 'Message asks you to contact an unverified mobile number', weight: 15 });
+    });
+  }
+
+  const score = Math.min(100, findings.reduce((total, finding) => total + finding.weight, 0));
+
+  return { urls, urlFindings, phoneNumbers, findings, score };
+}
@@ -0,0 +1,151 @@
+import { IndicatorMatch } from './types';
+import type { IndicatorCatalogue } from './packs';
+
+// The indicators themselves are defined in indicator packs (see packs.ts and data/indicator-packs)
+
+/**
+ * Process content to detect scam indicators
+ * @param content - The content to analyze (can be text, image analysis text, or audio transcription)
+ * @param catalogue - The compiled indicator packs to match against
+ * @returns Object with detection results
+ */
+export function detectIndicators(content: string, catalogue: IndicatorCatalogue) {
+  const patternMatches: Record<string, IndicatorMatch> = {};
+  let totalSeverity = 0;
+  let maxPossibleSeverity = 0;
+  let detectedCount = 0;
+  
+  // Enhanced detection algorithm with confidence levels and pattern matching
+  for (const indicator of catalogue.indicators) {
+    maxPossibleSeverity += indicator.severity;
+    
+    // A negative pattern marks legitimate phrasing, so the indicator does not apply at all
+    if (indicator.negativePatterns.some(negative => negative.regex.test(content))) {
+      continue;
+    }
+    
+    // Count how many patterns match, and their share of the indicator's total weight
+    const hits = indicator.patterns.filter(pattern => pattern.regex.test(content));
+    const hitWeight = hits.reduce((total, hit) => total + hit.pattern.weight, 0);
+    
+    // Calculate confidence based on the weight of the patterns matched
+    const confidence = hitWeight / indicator.totalWeight;
+    
+    // Mark as detected with different thresholds based on severity
+    const detectionThreshold = indicator.severity >= 4 ? 0.1 : 0.15;  // Higher severity needs fewer matches
+    
+    if (hits.length > 0 && confidence >= detectionThreshold) {
+      patternMatches[indicator.name] = {
+        severity: indicator.severity,
+        confidence: confidence,
+        matches: hits.length
+      };
+      
+      // Add to total severity score (weighted by confidence)
+      totalSeverity += indicator.severity * Math.min(1, confidence * 1.5); // Boost confidence a bit
+      detectedCount++;
+    }
+  }
+  
+  return {
+    patternMatches,
+    totalSeverity,
+    maxPossibleSeverity,
+    detectedCount
+  };
+}
+
+/**
+ * Calculate the rule-only risk percentage from detected indicators, without any model input
+ * @param patternMatches - The detected pattern matches
+ * @param detectionResult - The result of indicator detection from all content types
+ * @returns Risk percentage derived purely from indicator severity and count
+ */
+export function calculateRulePercentage(
+  patternMatches: Record<string, IndicatorMatch>,
+  detectionResult: {
+    totalSeverity: number;
+    maxPossibleSeverity: number;
+    detectedCount: number;
+    dampening?: number;
+  }
+): number {
+  const { totalSeverity, maxPossibleSeverity, detectedCount, dampening } = detectionResult;
+  
+  // Calculate our own risk percentage based on indicator severity
+  let calculatedRiskPercentage = 0;
+  if (maxPossibleSeverity > 0) {
+    // Base calculation on severity of detected indicators
+    calculatedRiskPercentage = Math.min(100, Math.round((totalSeverity / Math.max(28, maxPossibleSeverity * 0.3)) * 100));
+      // Adjust based on number of indicators detected (more indicators = higher risk)
+    if (detectedCount >= 5) calculatedRiskPercentage = Math.min(100, calculatedRiskPercentage + 15);
+    else if (detectedCount >= 3) calculatedRiskPercentage = Math.min(100, calculatedRiskPercentage + 10);
+    else if (detectedCount >= 2) calculatedRiskPercentage = Math.min(100, calculatedRiskPercentage + 5);
+    
+    // A scan dampened for a verified sender (see allowlist.ts) skips the minimums below; they key on
+    // indicator names, so they would undo the dampening for words every genuine bank message uses
+    if (dampening !== undefined && dampening < 1) return calculatedRiskPercentage;
+    
+    // Special handling for Voice message scam - if detected, ensure higher risk
+    if (patternMatches["Voice message scam"]) {
+      calculatedRiskPercentage = Math.max(calculatedRiskPercentage, 60);
+    }
+    
+    // If high-severity indicators detected, ensure minimum risk level
+    const hasHighSeverityIndicator = Object.values(patternMatches).some(m => m.severity >= 5);
+    if (hasHighSeverityIndicator) calculatedRiskPercentage = Math.max(calculatedRiskPercentage, 75);
+    
+    // If financial data or payment requested, ensure higher risk
+    const hasFinancialRequest = patternMatches["Request for personal data"] || 
+                               patternMatches["Financial information request"] ||
+                               patternMatches["Payment upfront"] ||
+                               patternMatches["Remittance scam"];
+    if (hasFinancialRequest) calculatedRiskPercentage = Math.max(calculatedRiskPercentage, 70);
+  }
+  
+  return calculatedRiskPercentage;
+}
+
+/**
+ * Calculate risk percentage based on detected indicators
+ * @param patternMatches - The detected pattern matches
+ * @param detectionResult - The result of indicator detection from all content types
+ * @param apiPercent - The percentage from the API
+ * @returns Calculated risk percentage that works for all content types (text, image, audio)
+ */
+export function calculateRiskPercentage(
+  patternMatches: Record<string, IndicatorMatch>,
+  detectionResult: {
+    totalSeverity: number;
+    maxPossibleSeverity: number;
+    detectedCount: number;
+    dampening?: number;
+  },
+  apiPercent: number
+): number {
+  const { detectedCount } = detectionResult;
+  let calculatedRiskPercentage = calculateRulePercentage(patternMatches, detectionResult);
+  
+  // If no indicators detected but API reports high risk, set a baseline
+  if (detectedCount === 0 && apiPercent > 50) {
+    calculatedRiskPercentage = Math.max(calculatedRiskPercentage, 55);
+  }
+  // Blend our calculation with the API's report for a balanced assessment
+  // Weight more toward our calculation if we found multiple indicators
+  let finalRiskPercentage = detectedCount >= 3 ? 
+    Math.round(calculatedRiskPercentage * 0.7 + apiPercent * 0.3) : 
+    Math.round(calculatedRiskPercentage * 0.5 + apiPercent * 0.5);
+  
+  // Ensure consistency in risk threshold boundaries
+  // So that we don't have a high risk label with a moderate percentage or vice versa
+  if (finalRiskPercentage >= 48 && finalRiskPercentage < 50) finalRiskPercentage = 50; // Round up to high risk threshold
+  if (finalRiskPercentage >= 73 && finalRiskPercentage < 75) finalRiskPercentage = 75; // Round up to very high risk threshold
+  if (finalRiskPercentage >= 23 && finalRiskPercentage < 25) finalRiskPercentage = 25; // Round up to moderate risk threshold
+  
+  // Ensure we never have near-threshold values that might cause visual inconsistency
+  if (finalRiskPercentage === 49) finalRiskPercentage = 48; // Ensure clear moderate risk (not borderline high)
+  if (finalRiskPercentage === 74) finalRiskPercentage = 73; // Ensure clear high risk (not borderline very high)
+  if (finalRiskPercentage === 24) finalRiskPercentage = 23; // Ensure clear low risk (not borderline moderate)
+    
+  return finalRiskPercentage;
+}
@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import { FieldSchema, validateAgainstSchema } from '../schema/validator';
+import { IndicatorDefinition, IndicatorPack, IndicatorPattern } from './types';
+import corePack from './data/indicator-packs/core.json';
+import philippinesPack from './data/indicator-packs/philippines.json';
+import voicePack from './data/indicator-packs/voice.json';
+
+// Indicator packs: the rule engine's scam indicators, kept as versioned JSON files instead of code.
+// The built-in packs ship in data/indicator-packs; extra packs dropped into INDICATOR_PACKS_DIR are
+// picked up without a rebuild or restart (a pack there with the id of a built-in pack replaces it).
+// Every pack is validated when it is loaded; an invalid file is reported and skipped, and the last
+// valid version of it stays in use.
+
+export interface CompiledPattern {
+  pattern: IndicatorPattern;
+  regex: RegExp;
+}
+
+export interface CompiledIndicator {
+  name: string;
+  category: string;
+  severity: number;
+  pack: string; // Id of the pack that defined it
+  patterns: CompiledPattern[];
+  negativePatterns: CompiledPattern[];
+  totalWeight: number;
+}
+
+export interface LoadedPack {
+  id: string;
+  version: string;
+  description: string;
+  source: string; // "built-in" or the file name in INDICATOR_PACKS_DIR
+  indicatorCount: number;
+}
+
+export interface PackLoadError {
+  source: string;
+  errors: string[];
+}
+
+export interface IndicatorCatalogue {
+  indicators: CompiledIndicator[];
+  packs: LoadedPack[];
+  errors: PackLoadError[];
+  loadedAt: string;
+}
+
+const DEFAULT_PACKS_DIR = path.join(process.cwd(), '.data', 'indicator-packs');
+// How often the packs directory is checked for added, changed or removed files
+const RELOAD_CHECK_INTERVAL_MS = 5000;
+const PATTERN_TYPES = ['keyword', 'phrase', 'regex'];
+
+const PATTERN_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    type: { type: 'string', required: true, enum: PATTERN_TYPES },
+    value: { type: 'string', required: true },
+    weight: { type: 'number', default: 1, min: 0 },
+    language: { type: 'string' }
+  }
+};
+
+const PACK_SCHEMA: Record<string, FieldSchema> = {
+  id: { type: 'string', required: true },
+  version: { type: 'string', required: true },
+  description: { type: 'string' },
+  language: { type: 'string', default: 'en' },
+  indicators: {
+    type: 'array',
+    required: true,
+    items: {
+      type: 'object',
+      fields: {
+        name: { type: 'string', required: true },
+        category: { type: 'string', required: true },
+        severity: { type: 'number', required: true, min: 1, max: 5 },
+        patterns: { type: 'array', required: true, items: PATTERN_SCHEMA },
+        negativePatterns: { type: 'array', default: [], items: PATTERN_SCHEMA }
+      }
+    }
+  }
+};
+
+const BUILT_IN_PACKS: unknown[] = [corePack, philippinesPack, voicePack];
+
+export const indicatorPacksDir = () => process.env.INDICATOR_PACKS_DIR || DEFAULT_PACKS_DIR;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * Compile a pattern into a case-insensitive regular expression.
+ * Keywords and phrases match whole words only ("tm" does not match "html"); a pattern that starts or
+ * ends with punctuation (".xyz") is only anchored on its word side. Phrases allow any run of whitespace.
+ */
+export function compilePattern(pattern: IndicatorPattern): RegExp {
+  if (pattern.type === 'regex') {
+    return new RegExp(pattern.value, 'i');
+  }
+  const value = pattern.value.trim();
+  const body = pattern.type === 'phrase' ? value.split(/\s+/).map(escapeRegExp).join('\\s+') : escapeRegExp(value);
+  const start = WORD_CHAR.test(value[0]) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const end = WORD_CHAR.test(value[value.length - 1]) ? '(?![\\p{L}\\p{N}_])' : '';
+  return new RegExp(`${start}${body}${end}`, 'iu');
+}
+
+// Checks the schema can't express: non-empty values, single-word keywords, valid regexes, unique names
+function checkPatterns(patterns: IndicatorPattern[], where: string, errors: string[]) {
+  patterns.forEach((pattern, index) => {
+    const at = `${where}[${index}]`;
+    if (!pattern.value.trim()) {
+      errors.push(`${at}: value is empty`);
+    } else if (pattern.type === 'keyword' && /\s/.test(pattern.value.trim())) {
+      errors.push(`${at}: keyword "${pattern.value}" contains spaces - use type "phrase"`);
+    } else if (pattern.type === 'regex') {
+      try {
+        new RegExp(pattern.value, 'i');
+      } catch (error: any) {
+        errors.push(`${at}: invalid regex (${error.message})`);
+      }
+    }
+  });
+}
+
+/**
+ * Validate an indicator pack against the pack schema
+ * @param raw - Parsed pack file
+ * @returns The pack with defaults applied, or null with the list of problems
+ */
+export function validateIndicatorPack(raw: unknown): { pack: IndicatorPack | null; errors: string[] } {
+  const report = validateAgainstSchema<IndicatorPack>(raw, PACK_SCHEMA);
+  // Packs are written by hand, so anything the validator had to coerce or drop is a mistake
+  const errors = report.issues
+    .filter(issue => issue.severity !== 'defaulted')
+    .map(issue => `${issue.path}: ${issue.message}`);
+  if (!report.valid) {
+    return { pack: null, errors };
+  }
+
+  const pack = report.value;
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(pack.id)) {
+    errors.push('id: use lowercase letters, digits and dashes');
+  }
+  const names = new Set<string>();
+  pack.indicators.forEach((indicator, index) => {
+    const where = `indicators[${index}]`;
+    if (names.has(indicator.name)) errors.push(`${where}.name: duplicate indicator "${indicator.name}"`);
+    names.add(indicator.name);
+    if (indicator.patterns.length === 0 || indicator.patterns.every(pattern => pattern.weight === 0)) {
+      errors.push(`${where}.patterns: needs at least one pattern with a weight above 0`);
+    }
+    checkPatterns(indicator.patterns, `${where}.patterns`, errors);
+    checkPatterns(indicator.negativePatterns, `${where}.negativePatterns`, errors);
+  });
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  // Patterns without a language inherit the pack's
+  for (const indicator of pack.indicators) {
+    for (const pattern of [...indicator.patterns, ...indicator.negativePatterns]) {
+      pattern.language = pattern.language || pack.language;
+    }
+  }
+  return { pack, errors: [] };
+}
+
+function compileIndicator(indicator: IndicatorDefinition, packId: string): CompiledIndicator {
+  const compile = (pattern: IndicatorPattern) => ({ pattern, regex: compilePattern(pattern) });
+  return {
+    name: indicator.name,
+    category: indicator.category,
+    severity: indicator.severity,
+    pack: packId,
+    patterns: indicator.patterns.map(compile),
+    negativePatterns: indicator.negativePatterns.map(compile),
+    totalWeight: indicator.patterns.reduce((total, pattern) => total + pattern.weight, 0)
+  };
+}
+
+// Built-in packs are validated once; a broken built-in pack is a release bug, so it is logged loudly
+let builtIn: Array<{ pack: IndicatorPack; source: string }> | null = null;
+const builtInErrors: PackLoadError[] = [];
+
+function loadBuiltInPacks() {
+  if (builtIn) return builtIn;
+  builtIn = [];
+  for (const raw of BUILT_IN_PACKS) {
+    const { pack, errors } = validateIndicatorPack(JSON.parse(JSON.stringify(raw)));
+    if (pack) {
+      builtIn.push({ pack, source: 'built-in' });
+    } else {
+      console.error(`❌ Built-in indicator pack "${(raw as { id?: string }).id}" is invalid:`, errors);
+      builtInErrors.push({ source: `built-in:${(raw as { id?: string }).id}`, errors });
+    }
+  }
+  return builtIn;
+}
+
+// Last valid version of each file in the packs directory, kept when a later edit breaks it
+const lastValid = new Map<string, IndicatorPack>();
+let catalogue: IndicatorCatalogue | null = null;
+let directorySignature: string | null = null;
+let lastCheck = 0;
+
+// File names with their modification times; changes whenever a pack is added, edited or removed
+function readDirectorySignature(dir: string): { files: string[]; signature: string } {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(name => name.toLowerCase().endsWith('.json')).sort();
+  } catch {
+    return { files: [], signature: '' };
+  }
+  const signature = files.map(name => {
+    try {
+      const stat = fs.statSync(path.join(dir, name));
+      return `${name}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return `${name}:missing`;
+    }
+  }).join('|');
+  return { files, signature };
+}
+
+function buildCatalogue(dir: string, files: string[]): IndicatorCatalogue {
+  const errors: PackLoadError[] = [...builtInErrors];
+  const packs = new Map<string, { pack: IndicatorPack; source: string }>();
+  for (const entry of loadBuiltInPacks()) {
+    packs.set(entry.pack.id, entry);
+  }
+
+  for (const name of files) {
+    let result: { pack: IndicatorPack | null; errors: string[] };
+    try {
+      result = validateIndicatorPack(JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')));
+    } catch (error: any) {
+      result = { pack: null, errors: [`Could not read pack: ${error.message}`] };
+    }
+    if (result.pack) {
+      lastValid.set(name, result.pack);
+    } else {
+      errors.push({ source: name, errors: result.errors });
+      console.error(`❌ Indicator pack ${name} is invalid${lastValid.has(name) ? ', keeping its last valid version' : ''}:`, result.errors);
+    }
+    const pack = result.pack || lastValid.get(name);
+    if (pack) {
+      packs.set(pack.id, { pack, source: name });
+    }
+  }
+  // Forget files that were removed from the directory
+  for (const name of Array.from(lastValid.keys())) {
+    if (!files.includes(name)) lastValid.delete(name);
+  }
+
+  const indicators: CompiledIndicator[] = [];
+  const loaded: LoadedPack[] = [];
+  for (const { pack, source } of packs.values()) {
+    let count = 0;
+    for (const indicator of pack.indicators) {
+      const existing = indicators.find(item => item.name === indicator.name);
+      if (existing) {
+        errors.push({ source, errors: [`Indicator "${indicator.name}" is already defined by pack "${existing.pack}" - skipped`] });
+        continue;
+      }
+      indicators.push(compileIndicator(indicator, pack.id));
+      count++;
+    }
+    loaded.push({ id: pack.id, version: pack.version, description: pack.description, source, indicatorCount: count });
+  }
+
+  return { indicators, packs: loaded, errors, loadedAt: new Date().toISOString() };
+}
+
+/**
+ * The current indicator catalogue, reloaded when files in INDICATOR_PACKS_DIR change
+ * (checked at most every few seconds so scans stay cheap)
+ */
+export function getIndicatorCatalogue(): IndicatorCatalogue {
+  const now = Date.now();
+  if (catalogue && now - lastCheck < RELOAD_CHECK_INTERVAL_MS) {
+    return catalogue;
+  }
+  lastCheck = now;
+
+  const dir = indicatorPacksDir();
+  const { files, signature } = readDirectorySignature(dir);
+  if (!catalogue || signature !== directorySignature) {
+    const reloading = catalogue !== null;
+    catalogue = buildCatalogue(dir, files);
+    directorySignature = signature;
+    if (reloading) {
+      console.log(`🔁 Indicator packs reloaded: ${catalogue.packs.map(pack => `${pack.id}@${pack.version}`).join(', ')}`);
+    }
+  }
+  return catalogue;
+}
@@ -0,0 +1,58 @@
+import { detectIndicators, calculateRulePercentage, calculateRiskPercentage } from './indicators';
+import { getIndicatorCatalogue } from './packs';
+import { IndicatorMatch, RuleEngineIndicator, RuleEngineResult } from './types';
+
+// Result of scanning content against the indicator catalogue, before it is blended with the model
+export interface RuleEngineScan {
+  patternMatches: Record<string, IndicatorMatch>;
+  totalSeverity: number;
+  maxPossibleSeverity: number;
+  detectedCount: number;
+  packs: string[]; // Indicator packs used, as "id@version"
+  dampening?: number; // Verified-sender factor the severities were scaled by (see allowlist.ts)
+}
+
+/**
+ * Scan content against the loaded indicator packs
+ * @param content - The text to analyze
+ * @returns Raw detection results
+ */
+export function scanContent(content: string): RuleEngineScan {
+  const catalogue = getIndicatorCatalogue();
+  return {
+    ...detectIndicators(content || '', catalogue),
+    packs: catalogue.packs.map(pack => `${pack.id}@${pack.version}`)
+  };
+}
+
+/**
+ * Build the ruleEngine section of the response from a scan and the model's probability
+ * @param scan - Result of scanContent()
+ * @param modelProbability - The model's overallRiskProbability, or null if the model did not answer
+ * @returns Rule engine result with matched indicators and the blended percentage
+ */
+export function buildRuleEngineResult(scan: RuleEngineScan, modelProbability: number | null): RuleEngineResult {
+  const rulePercentage = calculateRulePercentage(scan.patternMatches, scan);
+  const matchedIndicators: RuleEngineIndicator[] = Object.entries(scan.patternMatches)
+    .map(([name, match]) => ({
+      name,
+      severity: match.severity,
+      confidence: Number(match.confidence.toFixed(3)),
+      matches: match.matches
+    }))
+    .sort((a, b) => b.severity - a.severity || b.confidence - a.confidence);
+
+  return {
+    matchedIndicators,
+    totalSeverity: Number(scan.totalSeverity.toFixed(2)),
+    maxPossibleSeverity: scan.maxPossibleSeverity,
+    detectedCount: scan.detectedCount,
+    rulePercentage,
+    modelProbability,
+    // Without a model answer there is nothing to blend with, so report the rule-only percentage
+    blendedPercentage: modelProbability === null
+      ? rulePercentage
+      : calculateRiskPercentage(scan.patternMatches, scan, modelProbability),
+    packs: scan.packs
+  };
+}
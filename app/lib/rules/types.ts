@@ -0,0 +1,52 @@
+// How a pattern is matched: a single word, a run of words, or a regular expression
+export type PatternType = 'keyword' | 'phrase' | 'regex';
+
+// One pattern of an indicator, as written in an indicator pack file
+export interface IndicatorPattern {
+  type: PatternType;
+  value: string;
+  weight: number; // Share of the indicator's confidence contributed by this pattern (default 1)
+  language: string; // "en", "fil", ... (defaults to the pack's language)
+}
+
+// An indicator as defined in a pack: detected when enough of its patterns match
+export interface IndicatorDefinition {
+  name: string; // Unique across all loaded packs
+  category: string;
+  severity: number; // 1-5
+  patterns: IndicatorPattern[];
+  negativePatterns: IndicatorPattern[]; // Any match suppresses the indicator (e.g. a legitimate phrasing)
+}
+
+// A versioned indicator pack file (app/lib/rules/data/indicator-packs or INDICATOR_PACKS_DIR)
+export interface IndicatorPack {
+  id: string;
+  version: string;
+  description: string;
+  language: string; // Default language of the pack's patterns
+  indicators: IndicatorDefinition[];
+}
+
+// Interface for pattern match data
+export interface IndicatorMatch {
+  severity: number;
+  confidence: number;
+  matches: number;
+}
+
+// A single indicator matched by the rule engine, as returned to API consumers
+export interface RuleEngineIndicator extends IndicatorMatch {
+  name: string;
+}
+
+// Rule engine section of the detection response
+export interface RuleEngineResult {
+  matchedIndicators: RuleEngineIndicator[]; // Sorted by severity, then confidence
+  totalSeverity: number; // Confidence-weighted severity of all matched indicators
+  maxPossibleSeverity: number; // Sum of the severities of every indicator in the catalogue
+  detectedCount: number;
+  rulePercentage: number; // Risk percentage from the indicators alone
+  modelProbability: number | null; // The model's overallRiskProbability used for blending, if available
+  blendedPercentage: number; // calculateRiskPercentage() result combining both signals
+  packs: string[]; // Indicator packs the scan used, as "id@version"
+}
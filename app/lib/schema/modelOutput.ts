@@ -0,0 +1,202 @@
+import { FieldSchema, ValidationReport, validateAgainstSchema, describeSchema } from './validator';
+
+const RISK_LEVELS = ['Low', 'Medium', 'High', 'Very High', 'Critical'];
+const CONFIDENCE_LEVELS = ['Low', 'Medium', 'High'];
+
+// Shared shape of one entry in riskBreakdown
+const riskEntry = (description: string): FieldSchema => ({
+  type: 'object',
+  description,
+  default: { level: 'Low', probability: 0, indicators: [] },
+  fields: {
+    level: { type: 'string', enum: RISK_LEVELS, default: 'Low' },
+    probability: { type: 'number', min: 0, max: 100, default: 0 },
+    indicators: { type: 'array', items: { type: 'string' } }
+  }
+});
+
+// Declared schema for the raw JSON returned by analysis providers (text, image and audio prompts)
+export const MODEL_OUTPUT_SCHEMA: Record<string, FieldSchema> = {
+  isRisky: { type: 'boolean', required: true, description: 'true if the content contains ANY potential risk' },
+  riskCategories: { type: 'array', items: { type: 'string' } },
+  overallRiskProbability: { type: 'number', required: true, min: 0, max: 100, description: 'overall likelihood of any risk' },
+  scamProbability: { type: 'number', min: 0, max: 100 },
+  confidenceLevel: { type: 'string', enum: CONFIDENCE_LEVELS, default: 'Medium' },
+  detailedRiskAnalysis: { type: 'string', description: 'English explanation of all findings' },
+  detailedRiskAnalysisTagalog: { type: 'string', description: 'Tagalog translation of detailedRiskAnalysis' },
+  overallRiskLevel: { type: 'string', enum: RISK_LEVELS },
+  riskBreakdown: {
+    type: 'object',
+    fields: {
+      scamRisk: riskEntry('scam risk'),
+      misinformationRisk: riskEntry('misinformation risk'),
+      privacyRisk: riskEntry('privacy risk'),
+      technicalRisk: riskEntry('technical risk'),
+      manipulationRisk: riskEntry('manipulation risk'),
+      otherRisks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          fields: {
+            name: { type: 'string' },
+            level: { type: 'string', enum: RISK_LEVELS, default: 'Low' },
+            probability: { type: 'number', min: 0, max: 100, default: 0 },
+            indicators: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    }
+  },
+  safetyAdvice: { type: 'string' },
+  safetyTutorials: { type: 'array', items: { type: 'string' } },
+  preventionStrategies: {
+    type: 'object',
+    fields: {
+      scamPrevention: { type: 'array', items: { type: 'string' } },
+      misinformationDefense: { type: 'array', items: { type: 'string' } },
+      privacyProtection: { type: 'array', items: { type: 'string' } },
+      technicalSafeguards: { type: 'array', items: { type: 'string' } },
+      generalSafetyPractices: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  reportingInfo: {
+    type: 'object',
+    fields: {
+      introduction: { type: 'string' },
+      agencies: {
+        type: 'array',
+        items: {
+          type: 'object',
+          fields: {
+            name: { type: 'string', required: true },
+            url: { type: 'string', required: true },
+            description: { type: 'string' },
+            riskTypes: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    }
+  },
+  contentEvaluation: { type: 'string' },
+  contentEvaluationTagalog: { type: 'string' },
+  contentClassification: {
+    type: 'object',
+    fields: {
+      contentType: { type: 'string' },
+      contentPurpose: { type: 'string' },
+      audienceAnalysis: {
+        type: 'object',
+        fields: {
+          targetAudience: { type: 'string' },
+          vulnerabilityFactors: { type: 'array', items: { type: 'string' } },
+          potentialImpact: { type: 'string' }
+        }
+      },
+      trustworthinessIndicators: {
+        type: 'object',
+        fields: {
+          positiveIndicators: { type: 'array', items: { type: 'string' } },
+          negativeIndicators: { type: 'array', items: { type: 'string' } },
+          overallAssessment: { type: 'string' }
+        }
+      },
+      contentExplanation: { type: 'string' },
+      contentExplanationTagalog: { type: 'string' },
+      riskSummary: { type: 'string' }
+    }
+  }
+};
+
+// Additional fields only the audio prompt asks for
+export const AUDIO_OUTPUT_SCHEMA: Record<string, FieldSchema> = {
+  ...MODEL_OUTPUT_SCHEMA,
+  audioAnalysis: { type: 'string', description: 'analysis of the voice recording including key statements' },
+  contentVerification: { type: 'string' },
+  contentVerificationTagalog: { type: 'string' },
+  contentDetails: {
+    type: 'object',
+    fields: {
+      format: { type: 'string' },
+      speakers: { type: 'number', min: 0 },
+      languages: { type: 'array', items: { type: 'string' } },
+      contentSummary: { type: 'string' },
+      voiceAuthenticity: {
+        type: 'object',
+        fields: {
+          isLikelySynthetic: { type: 'boolean' },
+          authenticityIndicators: { type: 'array', items: { type: 'string' } },
+          confidenceLevel: { type: 'string', enum: CONFIDENCE_LEVELS, default: 'Medium' }
+        }
+      }
+    }
+  }
+};
+
+export type AnalysisMode = 'text' | 'audio';
+
+// Derive a risk level from a probability when the model omitted or garbled overallRiskLevel
+function riskLevelFromProbability(probability: number): string {
+  if (probability >= 75) return 'Very High';
+  if (probability >= 50) return 'High';
+  if (probability >= 25) return 'Medium';
+  return 'Low';
+}
+
+// Fill the audio-only fields the formatter relies on, mirroring mainExplanation and audioAnalysis
+function applyAudioDefaults(analysis: any): void {
+  if (!analysis.mainExplanation && !analysis.audioAnalysis) {
+    // If both are missing, use detailedRiskAnalysis from the general analysis
+    analysis.mainExplanation = analysis.detailedRiskAnalysis || "Voice recording analysis: The content requires careful assessment for potential risks.";
+    analysis.audioAnalysis = analysis.mainExplanation;
+  } else if (!analysis.audioAnalysis) {
+    analysis.audioAnalysis = analysis.mainExplanation;
+  } else if (!analysis.mainExplanation) {
+    analysis.mainExplanation = analysis.audioAnalysis;
+  }
+
+  if (!analysis.detailedRiskAnalysis) {
+    analysis.detailedRiskAnalysis = analysis.mainExplanation || "Voice recording analyzed for potential scams and security risks.";
+  }
+  if (!analysis.detailedRiskAnalysisTagalog) {
+    analysis.detailedRiskAnalysisTagalog = "Pagsusuri sa voice recording: Ang nilalaman nito ay dapat suriin nang mabuti para sa mga posibleng panganib.";
+  }
+  if (analysis.riskCategories.length === 0) {
+    analysis.riskCategories = ["Communication Risk"];
+  }
+
+  const classification = analysis.contentClassification;
+  if (!classification.contentType) {
+    classification.contentType = "Audio";
+  }
+  if (!classification.contentPurpose) {
+    classification.contentPurpose = analysis.contentPurpose || analysis.contentDetails?.contentSummary || "Voice communication";
+  }
+  if (!classification.audienceAnalysis.targetAudience) {
+    classification.audienceAnalysis.targetAudience = analysis.audienceTarget || "General Filipino audience";
+  }
+}
+
+/**
+ * Validate and normalise raw provider output so every content type yields the same well-formed shape
+ * @param raw - Parsed JSON from the provider
+ * @param mode - "audio" for voice recordings, "text" for text and image analysis
+ * @returns Normalised analysis with field-level issues; valid is false if required fields were unrecoverable
+ */
+export function normalizeModelOutput(raw: unknown, mode: AnalysisMode): ValidationReport {
+  const report = validateAgainstSchema(raw, mode === 'audio' ? AUDIO_OUTPUT_SCHEMA : MODEL_OUTPUT_SCHEMA);
+  const analysis = report.value;
+
+  if (!analysis.overallRiskLevel) {
+    analysis.overallRiskLevel = riskLevelFromProbability(analysis.overallRiskProbability);
+  }
+  if (mode === 'audio') {
+    applyAudioDefaults(analysis);
+  }
+
+  return report;
+}
+
+// Describe the expected output for repair prompts
+export function describeModelOutputSchema(mode: AnalysisMode): string {
+  return describeSchema(mode === 'audio' ? AUDIO_OUTPUT_SCHEMA : MODEL_OUTPUT_SCHEMA);
+}
@@ -0,0 +1,239 @@
+// Minimal schema validator with coercion, used to normalise loosely-structured model output.
+// Unknown properties are passed through untouched so optional model fields are never lost.
+
+export interface FieldSchema {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  required?: boolean; // A missing or uncoercible required field makes the payload invalid
+  default?: unknown; // Used when the field is missing or cannot be coerced
+  enum?: string[]; // Allowed string values, matched case-insensitively
+  min?: number; // Numbers below are clamped
+  max?: number; // Numbers above are clamped
+  items?: FieldSchema; // Schema for array items
+  fields?: Record<string, FieldSchema>; // Schema for object properties
+  description?: string; // Shown to the model in repair prompts
+}
+
+export interface FieldIssue {
+  path: string; // Dotted path of the field, e.g. "riskBreakdown.scamRisk.probability"
+  message: string;
+  severity: 'error' | 'coerced' | 'defaulted';
+}
+
+export interface ValidationReport<T = any> {
+  value: T;
+  issues: FieldIssue[];
+  valid: boolean; // False when any required field could not be recovered
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deep copy defaults so normalised payloads never share references with the schema
+const cloneDefault = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+function defaultFor(schema: FieldSchema): unknown {
+  if (schema.default !== undefined) return cloneDefault(schema.default);
+  switch (schema.type) {
+    case 'string': return '';
+    case 'number': return 0;
+    case 'boolean': return false;
+    case 'array': return [];
+    case 'object': return schema.fields ? validateObject({}, schema.fields, '', []) : {};
+  }
+}
+
+function coerceString(value: unknown, schema: FieldSchema, path: string, issues: FieldIssue[]): unknown {
+  let result: string | undefined;
+  if (typeof value === 'string') {
+    result = value;
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    result = String(value);
+    issues.push({ path, message: `Expected string, converted ${typeof value}`, severity: 'coerced' });
+  } else if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    result = value.join('\n');
+    issues.push({ path, message: 'Expected string, joined array of strings', severity: 'coerced' });
+  }
+
+  if (result === undefined) {
+    return undefined;
+  }
+
+  if (schema.enum) {
+    const match = schema.enum.find(option => option.toLowerCase() === result!.trim().toLowerCase());
+    if (!match) {
+      return undefined;
+    }
+    if (match !== result) {
+      issues.push({ path, message: `Normalised "${result}" to "${match}"`, severity: 'coerced' });
+    }
+    return match;
+  }
+
+  return result;
+}
+
+function coerceNumber(value: unknown, schema: FieldSchema, path: string, issues: FieldIssue[]): unknown {
+  let result: number | undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    result = value;
+  } else if (typeof value === 'string') {
+    // Accept "75", "75%" and "75.5 %"
+    const match = value.match(/-?\d+(?:\.\d+)?/);
+    if (match) {
+      result = parseFloat(match[0]);
+      issues.push({ path, message: `Expected number, parsed "${value}"`, severity: 'coerced' });
+    }
+  }
+
+  if (result === undefined) {
+    return undefined;
+  }
+
+  if (schema.min !== undefined && result < schema.min) {
+    issues.push({ path, message: `Clamped ${result} to minimum ${schema.min}`, severity: 'coerced' });
+    result = schema.min;
+  }
+  if (schema.max !== undefined && result > schema.max) {
+    issues.push({ path, message: `Clamped ${result} to maximum ${schema.max}`, severity: 'coerced' });
+    result = schema.max;
+  }
+  return result;
+}
+
+function coerceBoolean(value: unknown, path: string, issues: FieldIssue[]): unknown {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(lower)) {
+      issues.push({ path, message: `Expected boolean, parsed "${value}"`, severity: 'coerced' });
+      return true;
+    }
+    if (['false', 'no', '0'].includes(lower)) {
+      issues.push({ path, message: `Expected boolean, parsed "${value}"`, severity: 'coerced' });
+      return false;
+    }
+  }
+  if (value === 0 || value === 1) {
+    issues.push({ path, message: `Expected boolean, converted ${value}`, severity: 'coerced' });
+    return value === 1;
+  }
+  return undefined;
+}
+
+function coerceArray(value: unknown, schema: FieldSchema, path: string, issues: FieldIssue[]): unknown {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else {
+    items = [value];
+    issues.push({ path, message: 'Expected array, wrapped single value', severity: 'coerced' });
+  }
+
+  if (!schema.items) return items;
+
+  const result: unknown[] = [];
+  items.forEach((item, index) => {
+    const itemIssues: FieldIssue[] = [];
+    const coerced = coerceValue(item, schema.items!, `${path}[${index}]`, itemIssues);
+    if (coerced === undefined) {
+      issues.push({ path: `${path}[${index}]`, message: 'Dropped invalid array item', severity: 'coerced' });
+    } else {
+      issues.push(...itemIssues);
+      result.push(coerced);
+    }
+  });
+  return result;
+}
+
+function coerceValue(value: unknown, schema: FieldSchema, path: string, issues: FieldIssue[]): unknown {
+  switch (schema.type) {
+    case 'string': return coerceString(value, schema, path, issues);
+    case 'number': return coerceNumber(value, schema, path, issues);
+    case 'boolean': return coerceBoolean(value, path, issues);
+    case 'array': return coerceArray(value, schema, path, issues);
+    case 'object':
+      if (!isPlainObject(value)) return undefined;
+      return schema.fields ? validateObject(value, schema.fields, path, issues) : value;
+  }
+}
+
+function validateObject(
+  input: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  basePath: string,
+  issues: FieldIssue[]
+): Record<string, unknown> {
+  const output: Record<string, unknown> = { ...input };
+
+  for (const [key, schema] of Object.entries(fields)) {
+    const path = basePath ? `${basePath}.${key}` : key;
+    const raw = input[key];
+
+    if (raw === undefined || raw === null) {
+      if (schema.required) {
+        issues.push({ path, message: 'Required field is missing', severity: 'error' });
+      } else {
+        issues.push({ path, message: 'Missing field, using default', severity: 'defaulted' });
+      }
+      output[key] = defaultFor(schema);
+      continue;
+    }
+
+    const coerced = coerceValue(raw, schema, path, issues);
+    if (coerced === undefined) {
+      const preview = JSON.stringify(raw).substring(0, 60);
+      issues.push({
+        path,
+        message: `Invalid ${schema.type}${schema.enum ? ` (expected one of ${schema.enum.join(', ')})` : ''}: ${preview}${schema.required ? '' : ', using default'}`,
+        severity: schema.required ? 'error' : 'defaulted'
+      });
+      output[key] = defaultFor(schema);
+    } else {
+      output[key] = coerced;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Validate and coerce a payload against an object schema
+ * @param payload - The parsed payload to validate
+ * @param fields - Field schemas for the top-level object
+ * @returns The normalised payload with a list of field-level issues
+ */
+export function validateAgainstSchema<T = any>(payload: unknown, fields: Record<string, FieldSchema>): ValidationReport<T> {
+  const issues: FieldIssue[] = [];
+
+  if (!isPlainObject(payload)) {
+    issues.push({ path: '', message: 'Payload is not a JSON object', severity: 'error' });
+    return { value: validateObject({}, fields, '', []) as T, issues, valid: false };
+  }
+
+  const value = validateObject(payload, fields, '', issues) as T;
+  return { value, issues, valid: !issues.some(issue => issue.severity === 'error') };
+}
+
+/**
+ * Render a schema as the field list used in prompts
+ * @param fields - Field schemas to describe
+ * @param indent - Current indentation (used for nested objects)
+ * @returns Human-readable bullet list of fields
+ */
+export function describeSchema(fields: Record<string, FieldSchema>, indent = ''): string {
+  return Object.entries(fields).map(([key, schema]) => {
+    const typeLabel = schema.type === 'array' && schema.items ? `array of ${schema.items.type}s` : schema.type;
+    const details = [
+      typeLabel,
+      schema.required ? 'required' : null,
+      schema.enum ? `one of: ${schema.enum.map(option => `"${option}"`).join(', ')}` : null,
+      schema.min !== undefined && schema.max !== undefined ? `${schema.min}-${schema.max}` : null,
+      schema.description || null
+    ].filter(Boolean).join('; ');
+
+    const line = `${indent}- "${key}": ${details}`;
+    const nestedFields = schema.type === 'object' ? schema.fields : schema.items?.fields;
+    return nestedFields ? `${line}\n${describeSchema(nestedFields, `${indent}    `)}` : line;
+  }).join('\n');
+}
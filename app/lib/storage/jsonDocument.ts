@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A small JSON file holding one document, for local stores that are read often and written rarely.
+ * Reads are served from memory and reloaded whenever another process has modified the file; writes
+ * are serialised within this process and atomic on disk (temp file + rename).
+ */
+export class JsonFileDocument<T> {
+  private contents: T;
+  private loadedMtime = -1;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the JSON file (created on first write)
+   * @param empty - Builds the document used while the file does not exist or is unreadable
+   * @param label - Name used in log messages, e.g. "Contact reputation"
+   */
+  constructor(private readonly filePath: string, private readonly empty: () => T, private readonly label: string) {
+    this.contents = empty();
+  }
+
+  // Run an operation after all earlier ones, with the latest file contents loaded
+  private run<R>(operation: (document: T) => R, write: boolean): Promise<R> {
+    const next = this.queue.then(async () => {
+      await this.reloadIfChanged();
+      const result = operation(this.contents);
+      if (write) {
+        await this.persist();
+      }
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    let mtime: number;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.contents = this.empty();
+        this.loadedMtime = -1;
+        return;
+      }
+      throw error;
+    }
+
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      this.contents = { ...this.empty(), ...JSON.parse(await fs.readFile(this.filePath, 'utf8')) };
+    } catch (error) {
+      console.error(`${this.label} file ${this.filePath} is unreadable, starting empty:`, error);
+      this.contents = this.empty();
+    }
+    this.loadedMtime = mtime;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.contents, null, 2));
+    await fs.rename(tempPath, this.filePath);
+    this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+  }
+
+  // Read from the document; the callback must not modify it
+  read<R>(operation: (document: T) => R): Promise<R> {
+    return this.run(operation, false);
+  }
+
+  // Modify the document in place and write it back
+  update<R>(operation: (document: T) => R): Promise<R> {
+    return this.run(operation, true);
+  }
+}
@@ -0,0 +1,94 @@
+import type { UrlFinding } from '../forensics/urls';
+import type { ContactFinding } from '../forensics/reputation';
+import type { VerifiedSenderMatch } from '../rules/allowlist';
+import type { buildPreliminaryVerdict } from '../rules/fallback';
+import type { ApiErrorCode } from '../api/types';
+
+// Streaming mode of /api/detect-scam. A client that sends "Accept: application/x-ndjson" receives one JSON
+// event per line as each stage of the analysis completes, instead of a single response at the end:
+//   received      the submission was accepted
+//   urls          link forensics and extracted numbers/accounts
+//   rules         rule-engine score and the preliminary verdict of the offline checks
+//   verdict       the final response (model, cache, blocklist or heuristic fallback) without the Tagalog texts
+//   translations  the Tagalog texts of the final response
+//   done          end of the stream
+// An "error" event replaces the remaining stages when the analysis fails after the stream has started.
+
+export const STAGE_STREAM_TYPE = 'application/x-ndjson';
+
+// Tagalog fields of the final response, sent separately so the English verdict can be shown first
+export const TRANSLATED_FIELDS = ['explanationTagalog', 'true_vs_false_tagalog', 'audioContentVerificationTagalog'] as const;
+
+export type PreliminaryVerdict = ReturnType<typeof buildPreliminaryVerdict>;
+
+export type StageEvent =
+  | { stage: 'received'; contentType: string; hasText: boolean; hasImage: boolean; hasAudio: boolean }
+  | { stage: 'urls'; urlFindings: UrlFinding[]; contactFindings: ContactFinding[]; verifiedSenderMatch: VerifiedSenderMatch | null }
+  | { stage: 'rules'; preliminary: PreliminaryVerdict }
+  | { stage: 'verdict'; result: any }
+  | { stage: 'translations'; translations: Partial<Record<typeof TRANSLATED_FIELDS[number], string | null>> }
+  | { stage: 'done'; durationMs: number }
+  | { stage: 'error'; code: ApiErrorCode; status: number; message: string };
+
+export type AnalysisStage = StageEvent['stage'];
+
+// Sink for the intermediate stages; a no-op outside streaming mode
+export type StageEmitter = (event: StageEvent) => void;
+
+export const wantsStageStream = (request: Request) => (request.headers.get('accept') || '').includes(STAGE_STREAM_TYPE);
+
+/**
+ * Answer with a stream of stage events while the analysis runs
+ * @param run - Runs the analysis, reporting intermediate stages to `emit` and resolving to the final response
+ * @returns The streaming response; the verdict, translations and done events are sent once `run` resolves
+ */
+export function streamStages(run: (emit: StageEmitter) => Promise<any>): Response {
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  let open = true;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: StageEmitter = (event) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          open = false;
+        }
+      };
+
+      try {
+        const result = await run(emit);
+        const verdict = { ...result };
+        const translations: Record<string, string | null> = {};
+        for (const field of TRANSLATED_FIELDS) {
+          if (field in verdict) {
+            translations[field] = verdict[field];
+            delete verdict[field];
+          }
+        }
+        emit({ stage: 'verdict', result: verdict });
+        emit({ stage: 'translations', translations });
+        emit({ stage: 'done', durationMs: Date.now() - startedAt });
+      } catch (error: any) {
+        console.error('Error in /api/detect-scam (streaming):', error);
+        emit({ stage: 'error', code: 'internal_error', status: 500, message: error.message || 'Internal Server Error' });
+      }
+      if (open) controller.close();
+    },
+    // The client went away; the analysis still completes (and is cached), its events are dropped
+    cancel() {
+      open = false;
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': `${STAGE_STREAM_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no' // Keep reverse proxies from buffering the events
+    }
+  });
+}
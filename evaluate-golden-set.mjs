@@ -0,0 +1,106 @@
+// Golden-set evaluation runner: replays the labelled corpus (evaluation/golden-set/corpus.json) through
+// the detection route in-process (no server needed, same .env files as the app) and writes a JSON and an
+// HTML report. Set GEMINI_EXCHANGE_MODE=replay to evaluate offline from recorded Gemini exchanges (see the README).
+// Without a configured provider (no GEMINI_API_KEY and no replay), it falls back to the mock provider, so the
+// runner and the route can still be checked end to end, e.g. in CI; those metrics say nothing about the model.
+//
+// Usage:
+//   npm run eval:golden-set -- [--label name] [--compare report.json] [--threshold 50] [--out dir]
+//   --label      run name, also used as the report file name (default: prompt version and date)
+//   --compare    earlier report to compare with; changes are printed and shown in the HTML report
+//   --threshold  probability at or above which a verdict counts as "scam" (default 50)
+//   --out        report directory (default evaluation/reports)
+import fs from 'fs';
+import path from 'path';
+import nextEnv from '@next/env';
+
+nextEnv.loadEnvConfig(process.cwd());
+// Every item is scored on its own answer: a fresh in-memory cache, and no reuse of a similar item's verdict
+process.env.CACHE_BACKEND = 'memory';
+process.env.CACHE_NEAR_DUPLICATES = 'false';
+const { getAnalysisProvider } = await import('./app/lib/providers/index.ts');
+const { DEFAULT_THRESHOLD, analyzeWithRoute, compareReports, goldenCorpusPath, loadGoldenCorpus, runGoldenSet } =
+  await import('./app/lib/evaluation/goldenSet.ts');
+const { renderEvaluationHtml } = await import('./app/lib/evaluation/htmlReport.ts');
+
+const argv = process.argv.slice(2);
+const option = (name) => {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+};
+
+const percent = (value) => (value === null || value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const pair = ({ before, after }, format) => (before === after ? format(after) : `${format(before)} -> ${format(after)}`);
+const slug = (text) => text.toLowerCase().replace(/[^a-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '');
+
+const run = async () => {
+  const threshold = option('--threshold') ? Number(option('--threshold')) : DEFAULT_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    console.error('❌ --threshold must be a number from 0 to 100');
+    process.exit(2);
+  }
+  let previous = null;
+  if (option('--compare')) {
+    try {
+      previous = JSON.parse(fs.readFileSync(option('--compare'), 'utf8'));
+    } catch (error) {
+      console.error(`❌ Could not read ${option('--compare')}: ${error.message}`);
+      process.exit(2);
+    }
+  }
+
+  const corpusFile = goldenCorpusPath();
+  let corpus;
+  try {
+    corpus = loadGoldenCorpus(corpusFile);
+  } catch (error) {
+    console.error(`❌ Could not read the corpus ${corpusFile}: ${error.message}`);
+    process.exit(2);
+  }
+
+  let provider = getAnalysisProvider();
+  if (!provider.isConfigured()) {
+    console.warn(`⚠️ Analysis provider "${provider.name}" is not configured (set GEMINI_API_KEY, or GEMINI_EXCHANGE_MODE=replay with recordings); falling back to the mock provider`);
+    process.env.ANALYSIS_PROVIDER = 'mock';
+    provider = getAnalysisProvider();
+  }
+  console.log(`🧪 Replaying ${corpus.items.length} golden-set items through the detection route with ${provider.name}/${provider.model}...`);
+  const report = await runGoldenSet(corpus, analyzeWithRoute, {
+    corpusFile,
+    provider: { name: provider.name, model: provider.model, promptVersions: provider.promptVersions },
+    threshold,
+    label: option('--label')
+  });
+  const comparison = previous ? compareReports(report, previous) : null;
+  const html = renderEvaluationHtml(report, comparison);
+  const versions = Object.values(report.provider.promptVersions).join('+');
+  const name = slug(report.label || `${versions}-${report.generatedAt.slice(0, 10)}`);
+  const outDir = option('--out') || path.join('evaluation', 'reports');
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, `${name}.json`), JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(path.join(outDir, `${name}.html`), html);
+
+  const { summary, calibration } = report;
+  console.log(`\n${report.provider.name} (${report.provider.model}, ${versions}), corpus ${report.corpus.version}, ${report.corpus.items} items`);
+  console.log(`Accuracy ${percent(summary.accuracy)}, precision ${percent(summary.precision)}, recall ${percent(summary.recall)}, F1 ${percent(summary.f1)}`);
+  console.log(`Brier score ${calibration.brierScore}, expected calibration error ${calibration.expectedCalibrationError} points`);
+  if (summary.errors) console.log(`⚠️ ${summary.errors} item(s) failed`);
+  if (summary.notModelAnswered) console.log(`⚠️ ${summary.notModelAnswered} item(s) were not answered by the model (heuristic or blocklist verdicts)`);
+
+  console.log('\nCategory'.padEnd(24), 'Precision', '  Recall');
+  for (const item of report.byCategory) {
+    console.log(item.category.padEnd(23), percent(item.precision).padStart(9), percent(item.recall).padStart(8));
+  }
+
+  if (comparison) {
+    console.log(`\nCompared with ${comparison.previous.label || comparison.previous.generatedAt}:`);
+    console.log(`  accuracy ${pair(comparison.summary.accuracy, percent)}, precision ${pair(comparison.summary.precision, percent)}, recall ${pair(comparison.summary.recall, percent)}`);
+    console.log(`  Brier score ${pair(comparison.calibration.brierScore, String)}, calibration error ${pair(comparison.calibration.expectedCalibrationError, String)}`);
+    comparison.changedItems.forEach((item) => {
+      console.log(`  ${item.id} (${item.label}): ${item.before.predicted} ${item.before.probability}% -> ${item.after.predicted} ${item.after.probability}%`);
+    });
+  }
+  console.log(`\n📄 Report written to ${path.join(outDir, `${name}.json`)} and ${name}.html`);
+};
+
+run();
@@ -0,0 +1,72 @@
+// Gemini replay check: sends the cases in app/lib/providers/fixtures/gemini-replay-cases.json through the
+// detection route in-process with GEMINI_EXCHANGE_MODE=replay, so they are answered from the committed
+// exchanges in GEMINI_EXCHANGES_DIR without network access or an API key. Exits with code 1 when a case has
+// no recorded exchange (usually because a prompt changed) or was not answered from its recording.
+//
+// Usage:
+//   npm run test:replay -- [--record]
+//   --record  ask Gemini (needs GEMINI_API_KEY), record every case again and remove exchanges no case uses
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nextEnv from '@next/env';
+
+nextEnv.loadEnvConfig(process.cwd());
+const record = process.argv.slice(2).includes('--record');
+process.env.ANALYSIS_PROVIDER = 'gemini';
+process.env.GEMINI_EXCHANGE_MODE = record ? 'record' : 'replay';
+// A fresh cache, and none of the local reputation, report, feedback or blocklist data: it would change the prompts
+process.env.CACHE_BACKEND = 'memory';
+process.env.CACHE_NEAR_DUPLICATES = 'false';
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-replay-'));
+process.env.CONTACT_REPUTATION_PATH = path.join(stateDir, 'contact-reputation.json');
+process.env.COMMUNITY_REPORTS_PATH = path.join(stateDir, 'community-reports.jsonl');
+process.env.FEEDBACK_PATH = path.join(stateDir, 'verdict-feedback.json');
+process.env.BLOCKLIST_PATH = path.join(stateDir, 'blocklist.json');
+const { exchangesDir, usedExchangeKeys } = await import('./app/lib/providers/exchanges.ts');
+const { checkReplayAnswer, loadReplayCases, replayPayload, unusedExchanges } = await import('./app/lib/providers/replayCheck.ts');
+const { analyzeWithRoute } = await import('./app/lib/evaluation/goldenSet.ts');
+
+const run = async () => {
+  if (record && !process.env.GEMINI_API_KEY) {
+    console.error('❌ --record calls Gemini and needs GEMINI_API_KEY');
+    process.exit(2);
+  }
+  let cases;
+  try {
+    cases = await loadReplayCases();
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(2);
+  }
+
+  console.log(`🧪 ${record ? 'Recording' : 'Replaying'} ${cases.cases.length} Gemini exchange case(s) (${cases.version}) in ${exchangesDir()}`);
+  const results = [];
+  // One case at a time: Gemini is rate limited while recording
+  for (const item of cases.cases) {
+    const answer = await analyzeWithRoute(replayPayload(item)).catch((error) => error);
+    results.push(checkReplayAnswer(item, answer));
+  }
+
+  console.log('');
+  for (const result of results) {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.id.padEnd(32)} ${String(result.status).padStart(3)} ${result.riskLevel || ''}`);
+    if (result.problem) console.log(`   ${result.problem}`);
+  }
+
+  const unused = await unusedExchanges(usedExchangeKeys());
+  if (record) {
+    unused.forEach((file) => fs.rmSync(file));
+    if (unused.length) console.log(`\n🗑️ Removed ${unused.length} exchange(s) no case uses`);
+  } else if (unused.length) {
+    console.log(`\n⚠️ ${unused.length} exchange(s) are not used by any case; record again to drop them:`);
+    unused.forEach((file) => console.log(`   ${file}`));
+  }
+
+  fs.rmSync(stateDir, { recursive: true, force: true });
+  const failed = results.filter((result) => !result.passed).length;
+  console.log(`\n${failed ? `❌ ${failed} of ${results.length} case(s) failed` : `✅ All ${results.length} case(s) were answered from their recordings`}`);
+  if (failed) process.exitCode = 1;
+};
+
+run();
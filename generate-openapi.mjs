@@ -0,0 +1,231 @@
+// OpenAPI generator for the public v1 API: converts the TypeScript types of app/lib/api/types.ts (and the
+// types they refer to) into JSON Schema with the TypeScript compiler and writes app/lib/api/openapi.json,
+// which is served at /api/v1/openapi.json. The schemas therefore always match what the routes use.
+//
+// Usage:
+//   node generate-openapi.mjs [--check]
+//   --check  do not write; exit with code 1 when the committed document is out of date
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+const typesFile = path.join(root, 'app/lib/api/types.ts');
+const outputFile = path.join(root, 'app/lib/api/openapi.json');
+const rootTypes = ['AnalyzeRequest', 'AnalyzeResponse', 'AnalyzeStageEvent', 'ApiError'];
+
+const config = ts.readConfigFile(path.join(root, 'tsconfig.json'), ts.sys.readFile);
+const { options } = ts.parseJsonConfigFileContent(config.config, ts.sys, root);
+const program = ts.createProgram([typesFile], options);
+const checker = program.getTypeChecker();
+
+const schemas = {};
+
+// Only the project's own named types become components; library types (Partial, Record, ...) are inlined
+const isProjectSymbol = (symbol) =>
+  !!symbol?.declarations?.length && symbol.declarations.every(declaration => {
+    const fileName = declaration.getSourceFile().fileName;
+    return fileName.startsWith(path.join(root, 'app')) && !fileName.includes('node_modules');
+  });
+
+// Field descriptions come from the `//` comments of the API contract file only; elsewhere comments are
+// notes for maintainers, not for API users
+const describe = (symbol) => {
+  const declaration = symbol.declarations?.[0];
+  if (!declaration || path.resolve(declaration.getSourceFile().fileName) !== typesFile) return undefined;
+  const text = declaration.getSourceFile().getFullText();
+  const ranges = ts.getTrailingCommentRanges(text, declaration.getEnd())
+    || (ts.getLeadingCommentRanges(text, declaration.getFullStart()) || []).slice(-1);
+  const comment = ranges
+    .filter(range => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map(range => text.slice(range.pos + 2, range.end).trim())
+    .join(' ');
+  return comment || undefined;
+};
+
+const component = (name, build) => {
+  if (!(name in schemas)) {
+    schemas[name] = {}; // Placeholder, so self-referencing types do not recurse forever
+    schemas[name] = build();
+  }
+  return { $ref: `#/components/schemas/${name}` };
+};
+
+const withNull = (schema) =>
+  typeof schema.type === 'string' && !schema.enum ? { ...schema, type: [schema.type, 'null'] } : { anyOf: [schema, { type: 'null' }] };
+
+function unionSchema(types) {
+  let members = types.filter(type => !(type.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+  const nullable = members.some(type => type.flags & ts.TypeFlags.Null);
+  members = members.filter(type => !(type.flags & ts.TypeFlags.Null));
+
+  // `boolean` is the union true | false
+  const booleans = members.filter(type => type.flags & ts.TypeFlags.BooleanLiteral);
+  const parts = booleans.length === 2 ? [{ type: 'boolean' }] : booleans.map(toSchema);
+  const literals = members.filter(type => type.flags & ts.TypeFlags.StringLiteral);
+  if (literals.length) parts.push({ type: 'string', enum: literals.map(type => type.value) });
+  members
+    .filter(type => !(type.flags & (ts.TypeFlags.BooleanLiteral | ts.TypeFlags.StringLiteral)))
+    .forEach(type => parts.push(toSchema(type)));
+
+  const schema = parts.length === 1 ? parts[0] : { anyOf: parts };
+  return nullable ? withNull(schema) : schema;
+}
+
+function objectSchema(type) {
+  const properties = {};
+  const required = [];
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration || property.declarations?.[0];
+    const propertyType = checker.getTypeOfSymbolAtLocation(property, declaration);
+    if (checker.getSignaturesOfType(propertyType, ts.SignatureKind.Call).length) continue;
+    const description = describe(property);
+    properties[property.name] = { ...toSchema(propertyType), ...(description ? { description } : {}) };
+    if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+  }
+
+  const schema = { type: 'object', properties };
+  if (required.length) schema.required = required;
+  const index = checker.getIndexInfosOfType(type)[0];
+  if (index) schema.additionalProperties = toSchema(index.type);
+  return schema;
+}
+
+function toSchema(type) {
+  const { flags } = type;
+  if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+  if (flags & ts.TypeFlags.Null) return { type: 'null' };
+  if (flags & ts.TypeFlags.StringLiteral) return { type: 'string', const: type.value };
+  if (flags & ts.TypeFlags.NumberLiteral) return { type: 'number', const: type.value };
+  if (flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: type.intrinsicName === 'true' };
+  if (flags & ts.TypeFlags.String) return { type: 'string' };
+  if (flags & ts.TypeFlags.Number) return { type: 'number' };
+  if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+
+  const alias = type.aliasSymbol;
+  if (alias && isProjectSymbol(alias) && !type.aliasTypeArguments?.length) {
+    return component(alias.name, () => (type.isUnion() ? unionSchema(type.types) : objectSchema(type)));
+  }
+  if (type.isUnion()) return unionSchema(type.types);
+  if (type.isIntersection()) return { allOf: type.types.map(toSchema) };
+  if (checker.isArrayType(type)) return { type: 'array', items: toSchema(checker.getTypeArguments(type)[0]) };
+  if (type.symbol && type.symbol.flags & ts.SymbolFlags.Interface && isProjectSymbol(type.symbol)) {
+    return component(type.symbol.name, () => objectSchema(type));
+  }
+  if (flags & ts.TypeFlags.Object) return objectSchema(type);
+  throw new Error(`Cannot convert type ${checker.typeToString(type)} to JSON Schema`);
+}
+
+const moduleSymbol = checker.getSymbolAtLocation(program.getSourceFile(typesFile));
+const exported = new Map(checker.getExportsOfModule(moduleSymbol).map(symbol => [symbol.name, symbol]));
+for (const name of rootTypes) {
+  const symbol = exported.get(name);
+  if (!symbol) throw new Error(`${name} is not exported from app/lib/api/types.ts`);
+  const schema = toSchema(checker.getDeclaredTypeOfSymbol(symbol));
+  // Aliases of another named type (AnalyzeResponse = ScamDetectionResult) still get their own entry
+  if (!(name in schemas)) schemas[name] = schema;
+}
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const jsonContent = (name) => ({ 'application/json': { schema: ref(name) } });
+const apiError = (description) => ({ description, content: jsonContent('ApiError') });
+const rateLimitHeaders = Object.fromEntries(['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy']
+  .map(name => [name, { $ref: `#/components/headers/${name}` }]));
+
+const document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'ThreatShield AI - Scam Detection API',
+    version: '1.0.0',
+    description: 'Analyzes messages, links, screenshots and voice recordings for scams. Generated from app/lib/api/types.ts '
+      + 'with `npm run api:openapi`; do not edit by hand. Within v1 only additive changes are made (new optional request '
+      + 'fields, new response fields, new error codes); clients should ignore fields they do not know.'
+  },
+  paths: {
+    '/api/v1/analyze': {
+      post: {
+        operationId: 'analyze',
+        summary: 'Analyze a message, link, screenshot or voice recording',
+        security: [{}, { apiKey: [] }, { bearer: [] }],
+        requestBody: { required: true, content: jsonContent('AnalyzeRequest') },
+        responses: {
+          200: {
+            description: 'The analysis result. With "Accept: application/x-ndjson" the answer is a stream with one '
+              + 'AnalyzeStageEvent per line as each stage completes; failures after the stream has started arrive as an '
+              + '"error" event.',
+            headers: rateLimitHeaders,
+            content: {
+              ...jsonContent('AnalyzeResponse'),
+              'application/x-ndjson': { schema: ref('AnalyzeStageEvent') }
+            }
+          },
+          400: apiError('The body is not valid JSON or a field is invalid (code "invalid_request", see details)'),
+          401: apiError('Unknown or revoked API key, or no key while keys are required (code "unauthorized")'),
+          429: {
+            ...apiError('Rate limit or daily quota reached (code "rate_limited")'),
+            headers: { ...rateLimitHeaders, 'Retry-After': { description: 'Seconds until a new request is allowed', schema: { type: 'integer' } } }
+          },
+          500: apiError('Unexpected failure (code "internal_error")'),
+          503: apiError('The analysis provider is not configured or unavailable (code "service_unavailable")')
+        }
+      }
+    },
+    '/api/v1/openapi.json': {
+      get: {
+        operationId: 'getOpenApiDocument',
+        summary: 'This document',
+        responses: { 200: { description: 'The OpenAPI document of the v1 API', content: { 'application/json': {} } } }
+      }
+    },
+    '/api/detect-scam': {
+      post: {
+        operationId: 'detectScamLegacy',
+        summary: 'Legacy alias of POST /api/v1/analyze',
+        description: 'Same request and result as POST /api/v1/analyze, but errors are { "message": "..." }. Answers '
+          + 'carry the Deprecation and Link (rel="successor-version") headers, and Sunset once a removal date is set.',
+        deprecated: true,
+        requestBody: { required: true, content: jsonContent('AnalyzeRequest') },
+        responses: {
+          200: { description: 'The analysis result', content: jsonContent('AnalyzeResponse') },
+          default: {
+            description: 'Error',
+            content: {
+              'application/json': {
+                schema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: Object.fromEntries(Object.keys(schemas).sort().map(name => [name, schemas[name]])),
+    headers: {
+      'RateLimit-Limit': { description: 'Limit of the window closest to being used up', schema: { type: 'integer' } },
+      'RateLimit-Remaining': { description: 'Requests left in that window', schema: { type: 'integer' } },
+      'RateLimit-Reset': { description: 'Seconds until that window starts again', schema: { type: 'integer' } },
+      'RateLimit-Policy': { description: 'All limits, e.g. "60;w=60, 1000;w=86400" (per minute and per UTC day)', schema: { type: 'string' } }
+    },
+    // Requests without a key are allowed, with lower limits per client address, unless the server requires keys
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      bearer: { type: 'http', scheme: 'bearer', description: 'The API key as a bearer token' }
+    }
+  }
+};
+
+const output = JSON.stringify(document, null, 2) + '\n';
+const relative = path.relative(root, outputFile);
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf8') : '';
+  if (current !== output) {
+    console.error(`❌ ${relative} is out of date; run npm run api:openapi`);
+    process.exit(1);
+  }
+  console.log(`✅ ${relative} is up to date`);
+} else {
+  fs.writeFileSync(outputFile, output);
+  console.log(`📝 Wrote ${relative} (${Object.keys(schemas).length} schemas)`);
+}
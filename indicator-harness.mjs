@@ -0,0 +1,92 @@
+// Indicator pack test harness: runs the indicator catalogue against the example fixtures
+// (app/lib/rules/data/indicator-fixtures.json) and prints per-indicator precision and recall, plus how the
+// risk-level distribution moved compared with the saved baseline. Runs in-process (no server needed) with
+// the same .env files as the app. Exits with code 1 when something got worse than the baseline, so it can
+// gate a pull request.
+//
+// Usage:
+//   npm run rules:harness -- [--save-baseline] [--verbose]
+//   --save-baseline  store this run as the new baseline (commit indicator-baseline.json with the change)
+//   --verbose        list every missed example and false alarm, and every example that changed risk level
+import nextEnv from '@next/env';
+
+nextEnv.loadEnvConfig(process.cwd());
+const { compareWithBaseline, loadFixtures, readBaseline, runIndicatorHarness, saveBaseline } = await import('./app/lib/rules/harness.ts');
+
+const args = new Set(process.argv.slice(2));
+
+const percent = (value) => (value === null || value === undefined ? ' n/a' : `${Math.round(value * 100)}%`.padStart(4));
+const signed = (value) => (value > 0 ? `+${value}` : String(value));
+const clip = (text, length = 70) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const run = () => {
+  const { fixtures, errors: fixtureErrors } = loadFixtures();
+  const report = runIndicatorHarness(fixtures);
+  const baseline = readBaseline();
+  const comparison = baseline ? compareWithBaseline(report, baseline) : null;
+  const baselineSaved = args.has('--save-baseline');
+
+  console.log(`🧪 Indicator harness - packs ${report.packs.join(', ')}, fixtures ${report.fixturesVersion}, ${report.summary.examples} examples\n`);
+
+  console.log('Indicator'.padEnd(32), 'Pack'.padEnd(12), 'Prec', ' Rec', '  TP  FP  FN');
+  for (const item of report.indicators) {
+    const flag = item.precision === 1 && item.recall === 1 ? '' : '  ⚠️';
+    console.log(
+      clip(item.name, 31).padEnd(32),
+      item.pack.padEnd(12),
+      percent(item.precision),
+      percent(item.recall),
+      String(item.truePositives).padStart(4),
+      String(item.falsePositives).padStart(3),
+      String(item.falseNegatives).padStart(3) + flag
+    );
+    if (args.has('--verbose')) {
+      item.missed.forEach((text) => console.log(`    missed:      ${clip(text)}`));
+      item.falseAlarms.forEach((text) => console.log(`    false alarm: ${clip(text)}`));
+    }
+  }
+  console.log(`\nOverall precision ${percent(report.summary.precision)}, recall ${percent(report.summary.recall)}`);
+  if (report.summary.untested.length) console.log(`⚠️ No positive examples for: ${report.summary.untested.join(', ')}`);
+  if (report.summary.unknownFixtures.length) console.log(`⚠️ Fixtures for unknown indicators: ${report.summary.unknownFixtures.join(', ')}`);
+  fixtureErrors.forEach((item) => console.log(`⚠️ ${item.source}: ${item.error}`));
+  const verifiedFailures = report.summary.verifiedSenderFailures;
+  console.log(`${verifiedFailures.length ? '❌' : '✅'} Verified senders: ${report.verifiedSenders.length - verifiedFailures.length} of ${report.verifiedSenders.length} genuine messages scored Low`);
+  verifiedFailures.forEach((item) => console.log(`    ${item}`));
+
+  console.log('\nRisk levels (positive examples | negative examples):');
+  for (const [scorer, bands] of Object.entries(report.distribution)) {
+    const line = (counts) => Object.entries(counts).map(([band, count]) => `${band} ${count}`).join(', ');
+    const delta = comparison?.distribution[scorer];
+    console.log(`  ${scorer.padEnd(11)} ${line(bands.positive)} | ${line(bands.negative)}  (mean ${bands.meanPositive} | ${bands.meanNegative})`);
+    if (delta && [...Object.values(delta.positive), ...Object.values(delta.negative), delta.meanPositive, delta.meanNegative].some((value) => value !== 0)) {
+      const changed = (counts) => Object.entries(counts).filter(([, count]) => count !== 0).map(([band, count]) => `${band} ${signed(count)}`).join(', ') || 'no change';
+      console.log(`  ${''.padEnd(11)} vs baseline: ${changed(delta.positive)} | ${changed(delta.negative)}  (mean ${signed(delta.meanPositive)} | ${signed(delta.meanNegative)})`);
+    }
+  }
+
+  if (!comparison && !baselineSaved) {
+    console.log('\nℹ️ No baseline saved yet - run with --save-baseline to create one');
+  } else if (comparison) {
+    console.log(`\nCompared with baseline from ${comparison.baselineGeneratedAt} (${comparison.baselinePacks.join(', ')})`);
+    comparison.indicators.forEach((item) => {
+      console.log(`  ${item.name}: precision ${percent(item.precision.before)} -> ${percent(item.precision.after)}, recall ${percent(item.recall.before)} -> ${percent(item.recall.after)}`);
+    });
+    console.log(`  ${comparison.bandChanges.length} risk-level change(s), ${comparison.added} new and ${comparison.removed} removed example(s)`);
+    if (args.has('--verbose')) {
+      comparison.bandChanges.forEach((change) => {
+        console.log(`    [${change.scorer}] ${change.expected} ${change.before} (${change.bandBefore}) -> ${change.after} (${change.bandAfter}): ${clip(change.text, 60)}`);
+      });
+    }
+  }
+  if (baselineSaved) saveBaseline(report);
+
+  if (comparison?.regressions.length) {
+    console.log(`\n❌ ${comparison.regressions.length} regression(s):`);
+    comparison.regressions.forEach((item) => console.log(`  - ${item}`));
+    if (!baselineSaved) process.exit(1);
+  } else if (comparison) {
+    console.log('\n✅ No regressions against the baseline');
+  }
+};
+
+run();
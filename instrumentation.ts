@@ -0,0 +1,7 @@
+// Runs once when the server starts: resume analysis jobs that were queued or running before a restart
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getJobQueue } = await import('./app/lib/jobs/queue');
+    getJobQueue();
+  }
+}
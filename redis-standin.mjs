@@ -0,0 +1,155 @@
+// Local Redis stand-in for testing the "redis" cache backend without a real server.
+// Speaks enough of the Redis protocol (RESP2) for the commands the cache uses; data is in-memory only.
+//
+// Usage:
+//   node redis-standin.mjs [port]        (default port 6380)
+//   CACHE_BACKEND=redis REDIS_URL=redis://127.0.0.1:6380 npm run dev
+import net from 'net';
+
+const port = Number(process.argv[2] || process.env.REDIS_STANDIN_PORT || 6380);
+
+const strings = new Map(); // key -> { value, expiresAt }
+const sortedSets = new Map(); // key -> Map(member -> score)
+const hashes = new Map(); // key -> Map(field -> value)
+
+const encode = (value) => {
+  if (value === null || value === undefined) return '$-1\r\n';
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n` + value.map(encode).join('');
+  if (value instanceof Error) return `-${value.message}\r\n`;
+  if (value && value.status) return `+${value.status}\r\n`;
+  const text = String(value);
+  return `$${Buffer.byteLength(text)}\r\n${text}\r\n`;
+};
+
+const OK = { status: 'OK' };
+
+const getString = (key) => {
+  const item = strings.get(key);
+  if (!item) return null;
+  if (item.expiresAt !== null && item.expiresAt <= Date.now()) {
+    strings.delete(key);
+    return null;
+  }
+  return item.value;
+};
+
+const deleteKey = (key) => {
+  const existed = getString(key) !== null || sortedSets.has(key) || hashes.has(key);
+  strings.delete(key);
+  sortedSets.delete(key);
+  hashes.delete(key);
+  return existed ? 1 : 0;
+};
+
+const commands = {
+  PING: () => ({ status: 'PONG' }),
+  AUTH: () => OK,
+  SELECT: () => OK,
+  GET: ([key]) => getString(key),
+  MGET: (keys) => keys.map(getString),
+  SET: ([key, value, ...options]) => {
+    let expiresAt = null;
+    for (let i = 0; i < options.length; i += 2) {
+      const option = options[i].toUpperCase();
+      if (option === 'PX') expiresAt = Date.now() + Number(options[i + 1]);
+      if (option === 'EX') expiresAt = Date.now() + Number(options[i + 1]) * 1000;
+    }
+    strings.set(key, { value, expiresAt });
+    return OK;
+  },
+  DEL: (keys) => keys.reduce((count, key) => count + deleteKey(key), 0),
+  EXISTS: (keys) => keys.filter(key => getString(key) !== null || sortedSets.has(key) || hashes.has(key)).length,
+  ZADD: ([key, ...pairs]) => {
+    const set = sortedSets.get(key) || new Map();
+    let added = 0;
+    for (let i = 0; i < pairs.length; i += 2) {
+      if (!set.has(pairs[i + 1])) added++;
+      set.set(pairs[i + 1], Number(pairs[i]));
+    }
+    sortedSets.set(key, set);
+    return added;
+  },
+  ZREM: ([key, ...members]) => {
+    const set = sortedSets.get(key);
+    if (!set) return 0;
+    const removed = members.filter(member => set.delete(member)).length;
+    if (set.size === 0) sortedSets.delete(key);
+    return removed;
+  },
+  ZCARD: ([key]) => (sortedSets.get(key) || new Map()).size,
+  ZRANGE: ([key, start, stop]) => {
+    const members = Array.from((sortedSets.get(key) || new Map()).entries())
+      .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+      .map(([member]) => member);
+    const from = Number(start) < 0 ? members.length + Number(start) : Number(start);
+    const to = Number(stop) < 0 ? members.length + Number(stop) : Number(stop);
+    return members.slice(Math.max(0, from), to + 1);
+  },
+  HINCRBY: ([key, field, amount]) => {
+    const hash = hashes.get(key) || new Map();
+    const value = Number(hash.get(field) || 0) + Number(amount);
+    hash.set(field, String(value));
+    hashes.set(key, hash);
+    return value;
+  },
+  HGETALL: ([key]) => Array.from((hashes.get(key) || new Map()).entries()).flat(),
+  HDEL: ([key, ...fields]) => {
+    const hash = hashes.get(key);
+    if (!hash) return 0;
+    return fields.filter(field => hash.delete(field)).length;
+  },
+  FLUSHALL: () => {
+    strings.clear();
+    sortedSets.clear();
+    hashes.clear();
+    return OK;
+  }
+};
+
+// Parse one command (array of bulk strings); returns null when more data is needed
+const parseCommand = (buffer, offset) => {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  if (buffer[offset] !== 0x2a) {
+    // Inline command, e.g. "PING" typed into a telnet session
+    const args = buffer.toString('utf8', offset, lineEnd).trim().split(/\s+/);
+    return { args, next: lineEnd + 2 };
+  }
+
+  const count = parseInt(buffer.toString('utf8', offset + 1, lineEnd), 10);
+  const args = [];
+  let next = lineEnd + 2;
+  for (let i = 0; i < count; i++) {
+    const headerEnd = buffer.indexOf('\r\n', next);
+    if (headerEnd === -1) return null;
+    const length = parseInt(buffer.toString('utf8', next + 1, headerEnd), 10);
+    const start = headerEnd + 2;
+    if (buffer.length < start + length + 2) return null;
+    args.push(buffer.toString('utf8', start, start + length));
+    next = start + length + 2;
+  }
+  return { args, next };
+};
+
+const server = net.createServer((socket) => {
+  let buffer = Buffer.alloc(0);
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let offset = 0;
+    let parsed;
+    while (offset < buffer.length && (parsed = parseCommand(buffer, offset))) {
+      offset = parsed.next;
+      const [name, ...args] = parsed.args;
+      const handler = commands[(name || '').toUpperCase()];
+      socket.write(encode(handler ? handler(args) : new Error(`ERR unknown command '${name}'`)));
+    }
+    buffer = buffer.subarray(offset);
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`🧪 Redis stand-in listening on redis://127.0.0.1:${port}`);
+});
@@ -117,4 +117,4 @@ if ($finalStats) {
 }
 
 Write-Host "`n💡 To clear the cache, run:" -ForegroundColor Cyan
-Write-Host "Invoke-RestMethod -Uri '$baseUrl?action=clear'" -ForegroundColor Gray
+Write-Host "Invoke-RestMethod -Uri '$baseUrl?action=clear' -Headers @{'x-admin-token' = `$env:ADMIN_TOKEN}" -ForegroundColor Gray
@@ -26,7 +26,8 @@ function Invoke-ApiRequest {
 
 # Clear cache to start fresh
 Write-Host "🧹 Clearing cache to start fresh..." -ForegroundColor Cyan
-Invoke-ApiRequest -Url "$baseUrl?action=clear" | Out-Null
+# Clearing requires the admin token (ADMIN_TOKEN from the server's environment)
+Invoke-RestMethod -Uri "$baseUrl?action=clear" -Headers @{"x-admin-token" = $env:ADMIN_TOKEN} | Out-Null
 
 # Test 1: Simulate User 1 analyzing massgrave.dev
 Write-Host "`n👤 User 1: Analyzing massgrave.dev (expecting cache miss)..." -ForegroundColor Cyan